@@ -0,0 +1,97 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import {
+  clearDraw,
+  loadDrawTeams,
+  loadLatestDraw,
+  loadPreviousTeams,
+  parseDrawMode,
+  revealDraw,
+  runDraw,
+  saveDraw,
+  type DrawInput,
+} from "@/lib/draw";
+import { loadTournamentStatus, requireStatus, setTournamentStatus } from "@/lib/lifecycle";
+import { rosterEmails } from "@/lib/roster";
+
+/**
+ * Žreb igrač -> tim: novi žreb uvek zamenjuje stari.
+ * Server sam izvršava žreb (lib/draw) nad rosterom, a seed i ulaz upisuje u tournament_draws
+ * (sa ceremonijom tek posle poslednjeg otkrivenog para, vidi lib/draw saveDraw/revealDraw).
+ */
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /draw">>(req, "run_draw", async ({ db, user }, body) => {
+    const tournamentId = body.tournamentId;
+    const mode = parseDrawMode(body.mode);
+    const seed = String(body.seed ?? "").trim();
+    if (!tournamentId) return fail(400, "Missing tournamentId");
+    if (!mode) return fail(400, "Nepoznat način žreba.");
+    if (!seed) return fail(400, "Missing seed");
+
+    const status = await loadTournamentStatus(db, tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["roster_locked", "drawn"], "Žreb");
+    if (blocked) return fail(409, blocked);
+
+    const players = await rosterEmails(db, tournamentId);
+    const input: DrawInput = {
+      mode,
+      seed,
+      players,
+      teams: await loadDrawTeams(db, tournamentId),
+      previous: body.avoidRepeat ? await loadPreviousTeams(db, tournamentId, players) : {},
+      ...(mode === "snake" ? { picks: body.picks ?? {} } : {}),
+    };
+
+    let rows;
+    try {
+      rows = runDraw(input);
+    } catch (e) {
+      return fail(400, e instanceof Error ? e.message : "Žreb nije moguć.");
+    }
+
+    await saveDraw(db, tournamentId, {
+      input,
+      rows,
+      ceremony: Boolean(body.ceremony),
+      avoidRepeat: Boolean(body.avoidRepeat),
+      createdBy: user.email ?? null,
+    });
+
+    await setTournamentStatus(db, tournamentId, status, "drawn");
+    return NextResponse.json({ ok: true, seed });
+  });
+}
+
+/** Ceremonija: koliko parova poslednjeg žreba je otkriveno (realtime šalje otkrivene parove igračima). */
+export async function PATCH(req: Request) {
+  return withAdmin<AdminBody<"PATCH /draw">>(req, "run_draw", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const record = await loadLatestDraw(db, body.tournamentId);
+    if (!record) return fail(409, "Nema zapisanog žreba za ovaj turnir.");
+    // posle poslednjeg otkrivanja žreb je upisan i objavljen; parovi se više ne skrivaju
+    if (record.seed) return fail(409, "Žreb je već objavljen.");
+
+    const revealed = await revealDraw(db, record, Number(body.revealed) || 0);
+    return NextResponse.json({ ok: true, revealed });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /draw">>(req, "run_draw", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    // posle rasporeda prvo ide reset rasporeda (a on je blokiran kad postoje rezultati)
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["roster_locked", "drawn"], "Reset žreba");
+    if (blocked) return fail(409, blocked);
+
+    await clearDraw(db, body.tournamentId);
+
+    if (status === "drawn") await setTournamentStatus(db, body.tournamentId, status, "roster_locked");
+    return NextResponse.json({ ok: true });
+  });
+}
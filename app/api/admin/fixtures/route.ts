@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { saveSchedule } from "@/lib/fixtures";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /fixtures">>(req, "manage_schedule", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft", "roster_locked", "drawn", "scheduled"], "Izmena rasporeda");
+    if (blocked) return fail(409, blocked);
+
+    // timovi se čitaju iz baze, ne sa klijenta
+    const { data: teams, error: teamsErr } = await db
+      .from("tournament_teams")
+      .select("team_id")
+      .eq("tournament_id", body.tournamentId);
+    if (teamsErr) return fail(500, teamsErr.message);
+
+    const teamIds = ((teams ?? []) as { team_id: string }[]).map((t) => t.team_id);
+
+    try {
+      const count = await saveSchedule(db, body.tournamentId, teamIds, {
+        legs: body.legs,
+        round1: body.round1,
+      });
+      return NextResponse.json({ ok: true, count });
+    } catch (e) {
+      // validacija rasporeda (Kolo 1, broj krugova...) je greška klijenta
+      if (e instanceof Error) return fail(400, e.message);
+      throw e;
+    }
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /fixtures">>(req, "manage_schedule", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft", "roster_locked", "drawn", "scheduled"], "Reset fixtures");
+    if (blocked) return fail(409, blocked);
+
+    const { error } = await db.from("fixtures").delete().eq("tournament_id", body.tournamentId);
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
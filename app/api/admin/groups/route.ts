@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { GROUP_LABELS, saveGroupDraw } from "@/lib/groups";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /groups">>(req, "run_draw", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft", "roster_locked", "drawn"], "Žreb grupa");
+    if (blocked) return fail(409, blocked);
+
+    const assignment = new Map(Object.entries(body.assignment ?? {}));
+    for (const label of assignment.values()) {
+      if (label !== null && !GROUP_LABELS.includes(label)) return fail(400, `Nepoznata grupa: ${label}`);
+    }
+
+    await saveGroupDraw(db, body.tournamentId, assignment);
+    return NextResponse.json({ ok: true });
+  });
+}
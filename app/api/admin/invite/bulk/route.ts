@@ -0,0 +1,29 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { sendInvites } from "@/lib/invites";
+
+const MAX_EMAILS = 200;
+
+/** Invite za listu emailova; odgovor ima rezultat za svaki email (i kad neki padnu). */
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /invite/bulk">>(req, "send_invites", async ({ db, user }, body) => {
+    const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+
+    const tournamentId = (body.tournamentId || "").trim();
+    const emails = Array.isArray(body.emails) ? body.emails.filter((e) => typeof e === "string") : [];
+
+    if (!tournamentId) return fail(400, "Missing tournamentId");
+    if (emails.length === 0) return fail(400, "Missing emails");
+    if (emails.length > MAX_EMAILS) return fail(400, `Najviše ${MAX_EMAILS} emailova po zahtevu.`);
+
+    const results = await sendInvites(db, {
+      emails,
+      tournamentId,
+      invitedBy: user.email?.toLowerCase() ?? null,
+      siteUrl: SITE_URL,
+    });
+
+    return NextResponse.json({ ok: true, results });
+  });
+}
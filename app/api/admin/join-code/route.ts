@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { assignJoinCode } from "@/lib/roster";
+
+/** Novi kod za prijavu (stari link / QR prestaje da važi). */
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /join-code">>(req, "manage_players", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const code = await assignJoinCode(db, body.tournamentId);
+    return NextResponse.json({ ok: true, code });
+  });
+}
@@ -0,0 +1,109 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import {
+  createBracket,
+  loadBracket,
+  resetBracket,
+  saveTieResult,
+  type KnockoutTieRow,
+  type TieResult,
+} from "@/lib/bracket";
+import { loadTournamentStatus, requireStatus, setTournamentStatus } from "@/lib/lifecycle";
+
+const RESULT_FIELDS: (keyof TieResult)[] = [
+  "leg1_home",
+  "leg1_away",
+  "leg2_home",
+  "leg2_away",
+  "et_home",
+  "et_away",
+  "pen_home",
+  "pen_away",
+];
+
+function hasTieResults(ties: KnockoutTieRow[]) {
+  return ties.some((t) => t.home_team_id && t.away_team_id && t.leg1_home !== null);
+}
+
+function isGoals(v: unknown) {
+  return v === null || v === undefined || (typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= 99);
+}
+
+/** Rezultat veze iz body-ja: svako polje ceo broj 0–99 ili null (izostavljeno = null). */
+function parseTieResult(raw: unknown): TieResult | null {
+  if (!raw || typeof raw !== "object") return null;
+  const input = raw as Record<string, unknown>;
+  if (!RESULT_FIELDS.every((k) => isGoals(input[k]))) return null;
+  return Object.fromEntries(RESULT_FIELDS.map((k) => [k, (input[k] as number | null | undefined) ?? null])) as TieResult;
+}
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /knockout">>(req, "manage_schedule", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+    const seeds = Array.isArray(body.seeds) ? body.seeds : [];
+    if (seeds.length < 2) return fail(400, "Za nokaut fazu trebaju bar 2 tima.");
+    if (new Set(seeds).size !== seeds.length) return fail(400, "Tim se ne sme ponoviti u nokaut fazi.");
+
+    const { data: teams, error: teamsErr } = await db
+      .from("tournament_teams")
+      .select("team_id")
+      .eq("tournament_id", body.tournamentId);
+    if (teamsErr) throw teamsErr;
+    const own = new Set(((teams ?? []) as { team_id: string }[]).map((t) => t.team_id));
+    if (!seeds.every((id) => typeof id === "string" && own.has(id))) {
+      return fail(400, "Nokaut faza sme da sadrži samo timove ovog turnira.");
+    }
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Kreiranje nokaut faze");
+    if (blocked) return fail(409, blocked);
+    if (hasTieResults(await loadBracket(db, body.tournamentId))) {
+      return fail(409, "Postojeći bracket ima rezultate – nova nokaut faza nije dozvoljena.");
+    }
+
+    await createBracket(db, body.tournamentId, seeds, { legs: body.legs === 2 ? 2 : 1 });
+    return NextResponse.json({ ok: true });
+  });
+}
+
+/** Rezultat veze; bracket se čita iz baze da bi propagacija bila tačna. */
+export async function PATCH(req: Request) {
+  return withAdmin<AdminBody<"PATCH /knockout">>(req, "enter_results", async ({ db }, body) => {
+    if (!body.tournamentId || !body.tieId) return fail(400, "Missing tournamentId/tieId");
+    const result = parseTieResult(body.result);
+    if (!result) return fail(400, "Rezultat mora biti ceo broj 0–99 (ili prazno).");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Upis rezultata");
+    if (blocked) return fail(409, blocked);
+
+    const ties = await loadBracket(db, body.tournamentId);
+    if (!ties.some((t) => t.id === body.tieId)) return fail(404, "Veza nije pronađena.");
+    const outcome = await saveTieResult(db, ties, body.tieId, result);
+
+    if (status === "scheduled" && result.leg1_home !== null) {
+      await setTournamentStatus(db, body.tournamentId, status, "in_progress");
+    }
+    return NextResponse.json({ ok: true, outcome });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /knockout">>(req, "manage_schedule", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Brisanje nokaut faze");
+    if (blocked) return fail(409, blocked);
+    if (hasTieResults(await loadBracket(db, body.tournamentId))) {
+      return fail(409, "Nokaut faza ima upisane rezultate – brisanje nije dozvoljeno.");
+    }
+
+    await resetBracket(db, body.tournamentId);
+    return NextResponse.json({ ok: true });
+  });
+}
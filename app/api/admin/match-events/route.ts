@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { hasStats, validateEvents } from "@/lib/events";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+
+/** Detalji meča (strelci, kartoni, posed/šutevi): novi unos zamenjuje stari. */
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /match-events">>(req, "enter_results", async ({ db }, body) => {
+    const { tournamentId, matchId } = body;
+    if (!tournamentId || !matchId) return fail(400, "Missing tournamentId/matchId");
+
+    const events = (body.events ?? []).map((e) => ({
+      kind: e.kind,
+      side: e.side,
+      player_name: String(e.player_name ?? "").trim().slice(0, 60),
+      assist_name: e.kind === "goal" ? String(e.assist_name ?? "").trim().slice(0, 60) || null : null,
+      minute: e.minute ?? null,
+    }));
+
+    const status = await loadTournamentStatus(db, tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Unos detalja meča");
+    if (blocked) return fail(409, blocked);
+
+    const { data: match, error: matchErr } = await db
+      .from("matches")
+      .select("id, player1_score, player2_score")
+      .eq("id", matchId)
+      .eq("tournament_id", tournamentId)
+      .maybeSingle();
+    if (matchErr) return fail(500, matchErr.message);
+    if (!match) return fail(404, "Meč ne postoji.");
+
+    const invalid = validateEvents(events, { home: match.player1_score, away: match.player2_score }, body.stats);
+    if (invalid) return fail(400, invalid);
+
+    const { error: delErr } = await db.from("match_events").delete().eq("match_id", matchId);
+    if (delErr) return fail(500, delErr.message);
+
+    if (events.length > 0) {
+      const { error } = await db
+        .from("match_events")
+        .insert(events.map((e) => ({ ...e, match_id: matchId, tournament_id: tournamentId })));
+      if (error) return fail(500, error.message);
+    }
+
+    const { error: statsErr } = await db
+      .from("matches")
+      .update({ stats: hasStats(body.stats) ? body.stats : null })
+      .eq("id", matchId);
+    if (statsErr) return fail(500, statsErr.message);
+
+    return NextResponse.json({ ok: true, count: events.length });
+  });
+}
@@ -0,0 +1,124 @@
+import { NextResponse } from "next/server";
+import type { AdminBody, MatchPatch } from "@/lib/adminApi";
+import { fail, pick, withAdmin } from "@/lib/adminAuth";
+import {
+  loadTournamentStatus,
+  requireStatus,
+  setTournamentStatus,
+  tournamentHasResults,
+} from "@/lib/lifecycle";
+import { recomputeRatingsAfterResult } from "@/lib/elo";
+import { can } from "@/lib/roles";
+
+const PATCH_FIELDS: (keyof MatchPatch)[] = [
+  "player1_email",
+  "player2_email",
+  "player1_score",
+  "player2_score",
+  "played_at",
+  "result_status",
+  "reported_by",
+  "dispute_note",
+];
+
+function isScore(v: unknown) {
+  return v === null || v === undefined || (typeof v === "number" && Number.isInteger(v) && v >= 0);
+}
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /matches">>(req, "manage_schedule", async ({ db }, body) => {
+    const rows = body.rows ?? [];
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+    if (rows.length === 0) return fail(400, "Nema mečeva za upis.");
+
+    // in_progress: Swiss kolo po kolo
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["drawn", "scheduled", "in_progress"], "Generisanje mečeva");
+    if (blocked) return fail(409, blocked);
+
+    const { error } = await db.from("matches").insert(
+      rows.map((r) => ({
+        tournament_id: body.tournamentId,
+        round: r.round,
+        home_team_id: r.home_team_id,
+        away_team_id: r.away_team_id,
+        ...(r.played_at !== undefined ? { played_at: r.played_at } : {}),
+      }))
+    );
+    if (error) return fail(500, error.message);
+
+    if (status === "drawn") await setTournamentStatus(db, body.tournamentId, status, "scheduled");
+    return NextResponse.json({ ok: true, count: rows.length });
+  });
+}
+
+export async function PATCH(req: Request) {
+  return withAdmin<AdminBody<"PATCH /matches">>(req, "enter_results", async ({ db, role }, body) => {
+    const updates = body.updates ?? [];
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+    if (updates.length === 0) return fail(400, "Nema izmena.");
+
+    // sudija upisuje samo rezultat; dodela igrača je deo rasporeda
+    const touchesPlayers = updates.some((u) => u.patch && ("player1_email" in u.patch || "player2_email" in u.patch));
+    if (touchesPlayers && !can(role, "manage_schedule")) {
+      return fail(403, "Forbidden (missing permission: manage_schedule)");
+    }
+
+    for (const u of updates) {
+      const patch = pick(u.patch, PATCH_FIELDS);
+      if (!u.id || Object.keys(patch).length === 0) return fail(400, "Neispravna izmena meča.");
+      if (!isScore(patch.player1_score) || !isScore(patch.player2_score)) {
+        return fail(400, "Rezultat mora biti ceo broj ≥ 0.");
+      }
+    }
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Izmena mečeva");
+    if (blocked) return fail(409, blocked);
+
+    for (const u of updates) {
+      const { error } = await db
+        .from("matches")
+        .update(pick(u.patch, PATCH_FIELDS))
+        .eq("id", u.id)
+        .eq("tournament_id", body.tournamentId);
+      if (error) return fail(500, error.message);
+    }
+
+    // prvi rezultat pokreće turnir
+    const scored = updates.some((u) => u.patch.player1_score != null && u.patch.player2_score != null);
+    if (scored && status === "scheduled") {
+      await setTournamentStatus(db, body.tournamentId, status, "in_progress");
+    }
+
+    // rezultat (upis, izmena ili brisanje) menja Elo; greška ne ruši upis – vraća se kao ratingError
+    const resultChanged = updates.some(
+      (u) => "player1_score" in u.patch || "played_at" in u.patch || "result_status" in u.patch
+    );
+    const ratingError = resultChanged ? await recomputeRatingsAfterResult(db) : null;
+
+    return NextResponse.json({ ok: true, ratingError });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /matches">>(req, "manage_schedule", async ({ db }, body) => {
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["drawn", "scheduled", "in_progress"], "Reset rasporeda");
+    if (blocked) return fail(409, blocked);
+    if (await tournamentHasResults(db, body.tournamentId)) {
+      return fail(409, "Raspored ima upisane rezultate – reset nije dozvoljen. Prvo obriši rezultate.");
+    }
+
+    const { error } = await db.from("matches").delete().eq("tournament_id", body.tournamentId);
+    if (error) return fail(500, error.message);
+
+    if (status !== "drawn") await setTournamentStatus(db, body.tournamentId, status, "drawn");
+    return NextResponse.json({ ok: true });
+  });
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /players">>(req, "manage_players", async ({ db }, body) => {
+    const email = (body.email || "").trim().toLowerCase();
+    const name = (body.name || "").trim();
+    if (!email || !name) return fail(400, "Unesi i ime i email.");
+
+    const { error } = await db.from("players").upsert({ email, name, role: "player" }, { onConflict: "email" });
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
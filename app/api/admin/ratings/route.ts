@@ -0,0 +1,16 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { recomputeRatings } from "@/lib/elo";
+
+/** Elo svih igrača ispočetka, iz svih potvrđenih mečeva. */
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /ratings">>(req, "enter_results", async ({ db }) => {
+    try {
+      const res = await recomputeRatings(db);
+      return NextResponse.json({ ok: true, ...res });
+    } catch (e) {
+      return fail(500, `Preračunavanje rejtinga: ${(e as { message?: string } | null)?.message ?? "unknown"}`);
+    }
+  });
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+import { addToRoster, approveRegistrations, removeFromRoster } from "@/lib/roster";
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /roster">>(req, "manage_players", async ({ db }, body) => {
+    const emails = (body.emails ?? []).map((e) => e.trim().toLowerCase()).filter(Boolean);
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+    if (emails.length === 0) return fail(400, "Nema igrača za dodavanje.");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft"], "Izmena rostera");
+    if (blocked) return fail(409, blocked);
+
+    // u roster mogu samo postojeći igrači
+    const { data: known, error } = await db.from("players").select("email").in("email", emails);
+    if (error) return fail(500, error.message);
+    const knownEmails = new Set(((known ?? []) as { email: string }[]).map((p) => p.email));
+    const unknown = emails.filter((e) => !knownEmails.has(e));
+    if (unknown.length) return fail(400, `Nepoznati igrači: ${unknown.join(", ")}`);
+
+    const added = await addToRoster(db, body.tournamentId, emails, "admin");
+    // ručno dodat igrač koji je već čekao odobrenje je time i odobren
+    await approveRegistrations(db, body.tournamentId, emails);
+    return NextResponse.json({ ok: true, added });
+  });
+}
+
+/** Odobrenje samostalne prijave (turnir sa join_restricted). */
+export async function PATCH(req: Request) {
+  return withAdmin<AdminBody<"PATCH /roster">>(req, "manage_players", async ({ db }, body) => {
+    if (!body.tournamentId || !body.email) return fail(400, "Missing tournamentId/email");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft"], "Izmena rostera");
+    if (blocked) return fail(409, blocked);
+
+    await approveRegistrations(db, body.tournamentId, [body.email]);
+    return NextResponse.json({ ok: true });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /roster">>(req, "manage_players", async ({ db }, body) => {
+    if (!body.tournamentId || !body.email) return fail(400, "Missing tournamentId/email");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft"], "Izmena rostera");
+    if (blocked) return fail(409, blocked);
+
+    await removeFromRoster(db, body.tournamentId, body.email);
+    return NextResponse.json({ ok: true });
+  });
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, withAdmin } from "@/lib/adminAuth";
+import { loadTournamentStatus, MANUAL_TRANSITIONS, parseStatus, setTournamentStatus, STATUS_LABELS } from "@/lib/lifecycle";
+import { rosterEmails } from "@/lib/roster";
+
+/** Ručni prelazi: zaključaj/otključaj roster, završi/ponovo otvori turnir. */
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /tournament-status">>(req, "manage_tournaments", async ({ db }, body) => {
+    const to = parseStatus(body.status);
+    if (!body.tournamentId || !to) return fail(400, "Missing tournamentId/status");
+
+    const from = await loadTournamentStatus(db, body.tournamentId);
+    if (!from) return fail(404, "Turnir nije pronađen.");
+    if (!MANUAL_TRANSITIONS.some(([a, b]) => a === from && b === to)) {
+      return fail(409, `Nedozvoljen prelaz: ${STATUS_LABELS[from]} → ${STATUS_LABELS[to]}.`);
+    }
+
+    if (to === "roster_locked") {
+      const roster = await rosterEmails(db, body.tournamentId);
+      if (roster.length < 2) return fail(409, "Treba bar 2 prijavljena igrača pre zaključavanja rostera.");
+    }
+
+    try {
+      await setTournamentStatus(db, body.tournamentId, from, to);
+    } catch (e) {
+      return fail(409, e instanceof Error ? e.message : "Status nije promenjen.");
+    }
+    return NextResponse.json({ ok: true, status: to });
+  });
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { AdminBody } from "@/lib/adminApi";
+import { fail, pick, withAdmin } from "@/lib/adminAuth";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+
+// posle žreba se timovi ne menjaju (žreb igrač -> tim bi postao neispravan)
+const ROSTER_OPEN = ["draft", "roster_locked"] as const;
+
+async function tournamentOf(db: SupabaseClient, rowId: string) {
+  const { data, error } = await db.from("tournament_teams").select("tournament_id").eq("id", rowId).maybeSingle();
+  if (error) throw error;
+  return data as { tournament_id: string } | null;
+}
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /tournament-teams">>(req, "manage_tournaments", async ({ db }, body) => {
+    if (!body.tournamentId || !body.teamId) return fail(400, "Missing tournamentId/teamId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, [...ROSTER_OPEN], "Dodavanje tima");
+    if (blocked) return fail(409, blocked);
+
+    const { error } = await db
+      .from("tournament_teams")
+      .insert({ tournament_id: body.tournamentId, team_id: body.teamId });
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
+
+export async function PATCH(req: Request) {
+  return withAdmin<AdminBody<"PATCH /tournament-teams">>(req, "run_draw", async ({ db }, body) => {
+    if (!body.id) return fail(400, "Missing id");
+
+    const patch = pick(body.patch, ["pot"] as const);
+    if (Object.keys(patch).length === 0) return fail(400, "Prazan patch.");
+
+    const row = await tournamentOf(db, body.id);
+    if (!row) return fail(404, "Tim nije u turniru.");
+    const status = await loadTournamentStatus(db, row.tournament_id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft", "roster_locked", "drawn"], "Izmena šešira");
+    if (blocked) return fail(409, blocked);
+
+    const { error } = await db.from("tournament_teams").update(patch).eq("id", body.id);
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /tournament-teams">>(req, "manage_tournaments", async ({ db }, body) => {
+    if (!body.id) return fail(400, "Missing id");
+
+    const row = await tournamentOf(db, body.id);
+    if (!row) return NextResponse.json({ ok: true });
+    const status = await loadTournamentStatus(db, row.tournament_id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, [...ROSTER_OPEN], "Brisanje tima");
+    if (blocked) return fail(409, blocked);
+
+    const { error } = await db.from("tournament_teams").delete().eq("id", body.id);
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
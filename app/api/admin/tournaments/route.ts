@@ -0,0 +1,116 @@
+import { NextResponse } from "next/server";
+import type { AdminBody, TournamentPatch } from "@/lib/adminApi";
+import { fail, pick, withAdmin } from "@/lib/adminAuth";
+import { FORMAT_LABELS } from "@/lib/formats";
+import { loadTournamentStatus, requireStatus, tournamentHasResults } from "@/lib/lifecycle";
+import { assignJoinCode } from "@/lib/roster";
+import { ALL_TIEBREAKERS, type TiebreakerRule } from "@/lib/standings";
+
+const PATCH_FIELDS: (keyof TournamentPatch)[] = [
+  "name",
+  "tiebreakers",
+  "tiebreak_lots",
+  "group_count",
+  "advance_per_group",
+  "join_restricted",
+];
+
+/** Polja koja menjaju raspored/poredak: posle žreba se više ne menjaju. */
+const STRUCTURE_FIELDS: (keyof TournamentPatch)[] = ["tiebreakers", "group_count", "advance_per_group"];
+
+function isCount(v: unknown, min: number, max: number) {
+  return typeof v === "number" && Number.isInteger(v) && v >= min && v <= max;
+}
+
+export async function POST(req: Request) {
+  return withAdmin<AdminBody<"POST /tournaments">>(req, "manage_tournaments", async ({ db }, body) => {
+    const name = (body.name || "").trim();
+    if (!name) return fail(400, "Unesi naziv turnira.");
+
+    const format = body.format && body.format in FORMAT_LABELS ? body.format : "league";
+
+    const { data, error } = await db
+      .from("tournaments")
+      .insert({ name, date: body.date || null, format, status: "draft" })
+      .select("id")
+      .single();
+    if (error) return fail(500, error.message);
+
+    await assignJoinCode(db, data.id);
+    return NextResponse.json({ id: data.id });
+  });
+}
+
+export async function PATCH(req: Request) {
+  return withAdmin<AdminBody<"PATCH /tournaments">>(req, "manage_tournaments", async ({ db }, body) => {
+    if (!body.id) return fail(400, "Missing id");
+
+    const patch = pick(body.patch, PATCH_FIELDS);
+    if (patch.name !== undefined && (typeof patch.name !== "string" || !patch.name.trim())) {
+      return fail(400, "Naziv ne može biti prazan.");
+    }
+    if (
+      patch.tiebreakers !== undefined &&
+      (!Array.isArray(patch.tiebreakers) ||
+        !patch.tiebreakers.every((r) => ALL_TIEBREAKERS.includes(r as TiebreakerRule)))
+    ) {
+      return fail(400, "Nepoznat kriterijum za poredak.");
+    }
+    if (patch.group_count !== undefined && !isCount(patch.group_count, 1, 8)) {
+      return fail(400, "Broj grupa mora biti 1–8.");
+    }
+    if (patch.advance_per_group !== undefined && !isCount(patch.advance_per_group, 1, 64)) {
+      return fail(400, "Broj timova koji prolaze mora biti bar 1.");
+    }
+    if (Object.keys(patch).length === 0) return fail(400, "Prazan patch.");
+
+    if (STRUCTURE_FIELDS.some((k) => k in patch)) {
+      const status = await loadTournamentStatus(db, body.id);
+      if (!status) return fail(404, "Turnir nije pronađen.");
+      const blocked = requireStatus(status, ["draft", "roster_locked"], "Izmena formata i poretka");
+      if (blocked) return fail(409, blocked);
+    }
+
+    // žreb za poredak: redosled različitih timova ovog turnira
+    if (patch.tiebreak_lots !== undefined) {
+      const lots = patch.tiebreak_lots;
+      if (!Array.isArray(lots) || new Set(lots).size !== lots.length) {
+        return fail(400, "Žreb za poredak mora biti lista različitih timova.");
+      }
+      const { data: teams, error: teamsErr } = await db
+        .from("tournament_teams")
+        .select("team_id")
+        .eq("tournament_id", body.id);
+      if (teamsErr) return fail(500, teamsErr.message);
+      const own = new Set(((teams ?? []) as { team_id: string }[]).map((t) => t.team_id));
+      if (!lots.every((id) => typeof id === "string" && own.has(id))) {
+        return fail(400, "Žreb za poredak sme da sadrži samo timove ovog turnira.");
+      }
+    }
+
+    const { error } = await db.from("tournaments").update(patch).eq("id", body.id);
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withAdmin<AdminBody<"DELETE /tournaments">>(req, "manage_tournaments", async ({ db }, body) => {
+    if (!body.id) return fail(400, "Missing id");
+
+    // turnir koji je počeo (ima rezultate) se ne briše, da ne nestanu istorija i rejting
+    const status = await loadTournamentStatus(db, body.id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft", "roster_locked", "drawn", "scheduled"], "Brisanje turnira");
+    if (blocked) return fail(409, blocked);
+    if (await tournamentHasResults(db, body.id)) {
+      return fail(409, "Turnir ima upisane rezultate – brisanje nije dozvoljeno.");
+    }
+
+    const { error } = await db.from("tournaments").delete().eq("id", body.id);
+    if (error) return fail(500, error.message);
+
+    return NextResponse.json({ ok: true });
+  });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { fail, withUser } from "@/lib/adminAuth";
+import { acceptInvite } from "@/lib/invites";
+
+type Body = { tournamentId?: string };
+
+/** Igrač je otvorio link iz pozivnice (/reset?t= ili /player?join=) – poziv je prihvaćen. */
+export async function POST(req: Request) {
+  return withUser<Body>(req, async ({ db, user }, body) => {
+    const email = user.email?.toLowerCase();
+    if (!email) return fail(400, "Nalog nema email.");
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const accepted = await acceptInvite(db, email, body.tournamentId);
+    return NextResponse.json({ ok: true, accepted });
+  });
+}
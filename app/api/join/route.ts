@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { fail, withService } from "@/lib/adminAuth";
+import { inviteNewAccount } from "@/lib/invites";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+import { findJoinTarget } from "@/lib/roster";
+
+type Body = { email?: string; code?: string };
+
+/**
+ * Prijava kodom sa /login?next=/join/<kod>: uz važeći kod nov email dobija Supabase invite
+ * (nalog postaje potvrđen tek klikom na link iz emaila), a postojeći nalog `invited: false`,
+ * pa login šalje običan magic link. Login nikad ne pravi naloge sam (shouldCreateUser: false);
+ * u Supabase Auth podešavanjima "Allow new users to sign up" treba da bude isključeno.
+ */
+export async function POST(req: Request) {
+  return withService<Body>(req, async ({ db }, body) => {
+    const email = (body.email || "").trim().toLowerCase();
+    if (!email || !email.includes("@")) return fail(400, "Invalid email");
+
+    const target = body.code ? await findJoinTarget(db, { code: body.code }) : null;
+    if (!target) return fail(404, "Nepoznat kod za prijavu.");
+
+    const status = await loadTournamentStatus(db, target.id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft"], "Prijava");
+    if (blocked) return fail(409, blocked);
+
+    const SITE_URL = process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000";
+    const next = `/join/${encodeURIComponent(body.code!)}`;
+    const invited = await inviteNewAccount(db, email, `${SITE_URL}/auth/callback?next=${encodeURIComponent(next)}`);
+    return NextResponse.json({ ok: true, invited });
+  });
+}
@@ -0,0 +1,108 @@
+import { NextResponse } from "next/server";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { fail, withUser } from "@/lib/adminAuth";
+import { recomputeRatingsAfterResult } from "@/lib/elo";
+import { loadTournamentStatus, requireStatus, setTournamentStatus } from "@/lib/lifecycle";
+import { loadMatchSide } from "@/lib/results";
+import type { MatchRow } from "@/lib/standings";
+
+type SubmitBody = { matchId?: string; homeGoals?: number; awayGoals?: number };
+type RespondBody = { matchId?: string; action?: "confirm" | "dispute"; note?: string };
+
+function isGoals(v: unknown): v is number {
+  return typeof v === "number" && Number.isInteger(v) && v >= 0 && v <= 99;
+}
+
+async function loadMatch(db: SupabaseClient, matchId: string) {
+  const { data, error } = await db.from("matches").select("*").eq("id", matchId).maybeSingle();
+  if (error) throw error;
+  return data as MatchRow | null;
+}
+
+/** Igrač prijavljuje rezultat svog meča (čeka potvrdu protivnika). */
+export async function POST(req: Request) {
+  return withUser<SubmitBody>(req, async ({ db, user }, body) => {
+    const email = user.email?.toLowerCase();
+    if (!email) return fail(400, "Nalog nema email.");
+    if (!body.matchId) return fail(400, "Missing matchId");
+    if (!isGoals(body.homeGoals) || !isGoals(body.awayGoals)) return fail(400, "Rezultat mora biti ceo broj 0–99.");
+
+    const match = await loadMatch(db, body.matchId);
+    if (!match) return fail(404, "Meč ne postoji.");
+    if (!match.away_team_id) return fail(400, "BYE nema rezultat.");
+
+    const status = await loadTournamentStatus(db, match.tournament_id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Prijava rezultata");
+    if (blocked) return fail(409, blocked);
+
+    if (!(await loadMatchSide(db, match, email))) return fail(403, "Ovo nije tvoj meč.");
+
+    if (match.played_at) return fail(409, "Rezultat je već potvrđen.");
+    if (match.result_status === "disputed") return fail(409, "Rezultat je sporan – čeka odluku admina.");
+    if (match.result_status === "pending" && match.reported_by !== email) {
+      return fail(409, "Protivnik je već prijavio rezultat – potvrdi ga ili ospori.");
+    }
+
+    const { data, error } = await db
+      .from("matches")
+      .update({
+        player1_score: body.homeGoals,
+        player2_score: body.awayGoals,
+        result_status: "pending",
+        reported_by: email,
+        dispute_note: null,
+      })
+      .eq("id", match.id)
+      .is("played_at", null)
+      .select("id");
+    if (error) return fail(500, error.message);
+    if (!data || data.length === 0) return fail(409, "Meč je u međuvremenu promenjen. Osveži stranicu.");
+
+    return NextResponse.json({ ok: true });
+  });
+}
+
+/** Protivnik potvrđuje (rezultat ulazi u tabelu) ili osporava (ide adminu). */
+export async function PATCH(req: Request) {
+  return withUser<RespondBody>(req, async ({ db, user }, body) => {
+    const email = user.email?.toLowerCase();
+    if (!email) return fail(400, "Nalog nema email.");
+    if (!body.matchId) return fail(400, "Missing matchId");
+    if (body.action !== "confirm" && body.action !== "dispute") return fail(400, "Nepoznata akcija.");
+
+    const match = await loadMatch(db, body.matchId);
+    if (!match) return fail(404, "Meč ne postoji.");
+    if (match.result_status !== "pending") return fail(409, "Nema rezultata koji čeka potvrdu.");
+    if (match.reported_by === email) return fail(403, "Rezultat potvrđuje protivnik, ne onaj ko ga je prijavio.");
+
+    const status = await loadTournamentStatus(db, match.tournament_id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["scheduled", "in_progress"], "Potvrda rezultata");
+    if (blocked) return fail(409, blocked);
+
+    if (!(await loadMatchSide(db, match, email))) return fail(403, "Ovo nije tvoj meč.");
+
+    const patch =
+      body.action === "confirm"
+        ? { result_status: "confirmed", played_at: new Date().toISOString() }
+        : { result_status: "disputed", dispute_note: (body.note ?? "").trim().slice(0, 300) || null };
+
+    const { data, error } = await db
+      .from("matches")
+      .update(patch)
+      .eq("id", match.id)
+      .eq("result_status", "pending")
+      .select("id");
+    if (error) return fail(500, error.message);
+    if (!data || data.length === 0) return fail(409, "Meč je u međuvremenu promenjen. Osveži stranicu.");
+
+    // prvi rezultat pokreće turnir (isto kao upis na dashboard-u)
+    if (body.action === "confirm" && status === "scheduled") {
+      await setTournamentStatus(db, match.tournament_id, status, "in_progress");
+    }
+    const ratingError = body.action === "confirm" ? await recomputeRatingsAfterResult(db) : null;
+
+    return NextResponse.json({ ok: true, ratingError });
+  });
+}
@@ -0,0 +1,58 @@
+import { NextResponse } from "next/server";
+import { fail, withUser } from "@/lib/adminAuth";
+import { hasInvite } from "@/lib/invites";
+import { loadTournamentStatus, requireStatus } from "@/lib/lifecycle";
+import { addToRoster, findJoinTarget, removeFromRoster } from "@/lib/roster";
+
+type Body = { tournamentId?: string; code?: string };
+
+/**
+ * Samostalna prijava ulogovanog igrača na turnir (kod /join/<kod> ili dugme na /player).
+ * Turnir sa join_restricted: bez pozivnice samo trenutnim kodom, a prijava je "pending"
+ * dok je admin ne odobri. Pozvan igrač je odmah odobren.
+ */
+export async function POST(req: Request) {
+  return withUser<Body>(req, async ({ db, user }, body) => {
+    const email = user.email?.toLowerCase();
+    if (!email) return fail(400, "Nalog nema email.");
+    if (!body.tournamentId && !body.code) return fail(400, "Missing tournamentId");
+
+    const target = await findJoinTarget(db, body.code ? { code: body.code } : { tournamentId: body.tournamentId });
+    if (!target) return fail(404, body.code ? "Nepoznat kod za prijavu." : "Turnir ne postoji.");
+
+    // id turnira nije tajna: stari /player?join=<id> linkovi ne smeju da zaobiđu novi kod
+    const invited = await hasInvite(db, email, target.id);
+    if (target.join_restricted && !invited && !body.code) return fail(403, "Za ovaj turnir treba kod za prijavu.");
+
+    const status = await loadTournamentStatus(db, target.id);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft"], "Prijava");
+    if (blocked) return fail(409, blocked);
+
+    // novi igrač (npr. došao preko linka) dobija red u players; postojeći ostaje kakav je
+    const { error: playerErr } = await db
+      .from("players")
+      .upsert({ email, name: email.split("@")[0], role: "player" }, { onConflict: "email", ignoreDuplicates: true });
+    if (playerErr) return fail(500, playerErr.message);
+
+    const registration = target.join_restricted && !invited ? "pending" : "approved";
+    await addToRoster(db, target.id, [email], "self", registration);
+    return NextResponse.json({ ok: true, tournamentId: target.id, name: target.name, status: registration });
+  });
+}
+
+export async function DELETE(req: Request) {
+  return withUser<Body>(req, async ({ db, user }, body) => {
+    const email = user.email?.toLowerCase();
+    if (!email) return fail(400, "Nalog nema email.");
+    if (!body.tournamentId) return fail(400, "Missing tournamentId");
+
+    const status = await loadTournamentStatus(db, body.tournamentId);
+    if (!status) return fail(404, "Turnir nije pronađen.");
+    const blocked = requireStatus(status, ["draft"], "Odjava");
+    if (blocked) return fail(409, blocked);
+
+    await removeFromRoster(db, body.tournamentId, email);
+    return NextResponse.json({ ok: true });
+  });
+}
@@ -17,14 +17,115 @@
  *
  * ✅ IMPORTANT:
  * - Invite is REMOVED from draw step (no more "invite during draw").
- * - Roster lock is stored in localStorage per tournament (no DB changes needed).
+ * - Roster lock is part of the tournament status (tournaments.status, see lib/lifecycle).
  */
 
 import React, { useEffect, useMemo, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase";
 import { getRole } from "@/lib/getRole";
-import { loadFixtures, saveRound1AndGenerateRound2 } from "@/lib/fixtures";
+import { atLeast, can, parseRole, ROLE_LABELS, type Role } from "@/lib/roles";
+import {
+  inferStatus,
+  parseStatus,
+  STATUS_LABELS,
+  statusAtLeast,
+  type TournamentStatus,
+} from "@/lib/lifecycle";
+import QRCode from "qrcode";
+import { isApproved, joinCodeLink, joinLink, loadRoster, type RosterEntry } from "@/lib/roster";
+import { adminApi, type MatchInsert } from "@/lib/adminApi";
+import {
+  INVITE_STATUS_LABELS,
+  inviteStatus,
+  invitesByEmail,
+  loadInvites,
+  type Invite,
+  type InviteResult,
+} from "@/lib/invites";
+import { reconcileRows, subscribeToTournament } from "@/lib/realtime";
+import { hasOpenSubmission, RESULT_STATUS_LABELS } from "@/lib/results";
+import {
+  EMPTY_STATS,
+  EVENT_KINDS,
+  EVENT_LABELS,
+  eventsByMatch,
+  goalLine,
+  loadMatchEvents,
+  sortEvents,
+  validateEvents,
+  type EventKind,
+  type EventSide,
+  type MatchEvent,
+  type MatchEventInput,
+  type MatchStats,
+} from "@/lib/events";
+import {
+  buildTeamOwners,
+  computeScorers,
+  loadAllTimeScoring,
+  SCORER_SORT_LABELS,
+  sortScorers,
+  type ScorerRow,
+  type ScorerSort,
+} from "@/lib/scorers";
+import {
+  buildSchedule,
+  loadFixtures,
+  MAX_LEGS,
+  type FixtureRow,
+  type Round1Override,
+} from "@/lib/fixtures";
+import {
+  DRAW_MODE_LABELS,
+  DRAW_MODES,
+  ceremonyInProgress,
+  drawSize,
+  loadLatestDraw,
+  loadPreviousTeams,
+  newSeed,
+  parseDrawMode,
+  pickOrder,
+  shuffle,
+  type DrawMode,
+  type DrawRecord,
+} from "@/lib/draw";
+import {
+  BRACKET_SIZES,
+  loadBracket,
+  tieOutcome,
+  type KnockoutTieRow,
+  type TieResult,
+} from "@/lib/bracket";
+import { BracketTree } from "@/components/bracket-tree";
+import { DrawCeremony } from "@/components/draw-ceremony";
+import {
+  drawGroups,
+  GROUP_LABELS,
+  groupMatchRows,
+  groupTables,
+  knockoutSeeds,
+} from "@/lib/groups";
+import { FORMAT_LABELS, type TournamentFormat } from "@/lib/formats";
+import {
+  currentSwissRound,
+  nextSwissRoundRows,
+  recommendedSwissRounds,
+  SWISS_TIEBREAKERS,
+} from "@/lib/swiss";
+import {
+  ALL_TIEBREAKERS,
+  computeStandings,
+  isPlayed,
+  parseTiebreakers,
+  teamRecord,
+  TIEBREAKER_LABELS,
+  TIEBREAKER_SHORT,
+  unresolvedTies,
+  type MatchRow,
+  type StandingRow,
+  type TiebreakerRule,
+} from "@/lib/standings";
 
 /* =========================
    UI PRIMITIVES (NO DEPS)
@@ -230,18 +331,29 @@ type TournamentRow = {
   id: string;
   name: string;
   date: string | null;
+  tiebreakers: TiebreakerRule[] | null;
+  tiebreak_lots: string[] | null;
+  format: TournamentFormat | null;
+  group_count: number | null;
+  advance_per_group: number | null;
+  status: TournamentStatus | null;
+  join_code: string | null;
+  join_restricted: boolean | null;
   created_at?: string;
 };
 type TeamRow = {
   id: string;
   name: string;
   logo_url: string | null;
+  rating: number | null;
   created_at?: string;
 };
 type TournamentTeamRow = {
   id: string;
   tournament_id: string;
   team_id: string;
+  pot: number | null;
+  group_label: string | null;
   created_at?: string;
 };
 type TournamentPlayerRow = {
@@ -249,55 +361,24 @@ type TournamentPlayerRow = {
   tournament_id: string;
   player_email: string;
   team_id: string;
+  draw_note: string | null;
   created_at?: string;
 };
 
-type MatchRow = {
-  id: string;
-  tournament_id: string;
-  round: number | null;
-  home_team_id: string | null;
-  away_team_id: string | null;
-  player1_email: string | null;
-  player2_email: string | null;
-  player1_score: number | null;
-  player2_score: number | null;
-  played_at: string | null;
-  created_at?: string;
-};
-
-type FixtureRow = {
-  id: string;
-  tournament_id: string;
-  round_number: 1 | 2;
-  match_number: number;
-  home_team_id: string | null;
-  away_team_id: string | null;
-  is_bye: boolean;
-  source: "manual" | "auto_reverse";
-  created_at: string;
-};
-
 function formatDate(dateStr: string | null) {
   if (!dateStr) return "(bez datuma)";
   return dateStr;
 }
 
-function shuffle<T>(arr: T[]) {
-  const a = [...arr];
-  for (let i = a.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [a[i], a[j]] = [a[j], a[i]];
-  }
-  return a;
-}
-
-function isAdmin(role: string | null) {
-  return role === "admin";
+function errorText(e: unknown) {
+  if (e instanceof Error) return e.message;
+  if (typeof e === "string") return e;
+  return (e as { message?: string } | null)?.message ?? "unknown";
 }
 
-function isPlayed(m: MatchRow) {
-  return Boolean(m.played_at);
+/** Rezultat je upisan, ali Elo nije (PATCH /matches ratingError). */
+function ratingErrorText(message: string) {
+  return `Rezultat je sačuvan, ali rejting nije preračunat: ${message} (Rang lista → Preračunaj).`;
 }
 
 function safeConfirm(msg: string) {
@@ -312,21 +393,15 @@ function clampInt(v: string, min: number, max: number) {
   return String(c);
 }
 
-/* =========================
-   STANDINGS
-   ========================= */
-
-type StandingRow = {
-  team_id: string;
-  team_name: string;
-  played: number;
-  wins: number;
-  draws: number;
-  losses: number;
-  gf: number;
-  ga: number;
-  gd: number;
-  pts: number;
+const EMPTY_TIE_FORM: Record<keyof TieResult, string> = {
+  leg1_home: "",
+  leg1_away: "",
+  leg2_home: "",
+  leg2_away: "",
+  et_home: "",
+  et_away: "",
+  pen_home: "",
+  pen_away: "",
 };
 
 /* =========================
@@ -334,48 +409,46 @@ type StandingRow = {
    ========================= */
 
 function ScheduleCard({
-  isAdminUser,
+  canEdit,
   tournamentId,
   teamOptions,
   fixtures,
   fixturesLoading,
   fixturesError,
-  onSaveRound1,
+  onSaveSchedule,
   onResetFixtures,
   onGenerateMatchesFromFixtures,
 }: {
-  isAdminUser: boolean;
+  canEdit: boolean;
   tournamentId: string | null;
   teamOptions: { id: string; name: string }[];
   fixtures: FixtureRow[];
   fixturesLoading: boolean;
   fixturesError: string | null;
-  onSaveRound1: (drafts: {
-    match_number: number;
-    home_team_id: string;
-    away_team_id: string;
-  }[]) => Promise<void>;
+  onSaveSchedule: (opts: { legs: number; round1: Round1Override | null }) => Promise<void>;
   onResetFixtures: () => Promise<void>;
   onGenerateMatchesFromFixtures: () => Promise<void>;
 }) {
-  const round1 = useMemo(
-    () =>
-      fixtures
-        .filter((f) => f.round_number === 1)
-        .sort((a, b) => a.match_number - b.match_number),
-    [fixtures]
-  );
-  const round2 = useMemo(
-    () =>
-      fixtures
-        .filter((f) => f.round_number === 2)
-        .sort((a, b) => a.match_number - b.match_number),
-    [fixtures]
-  );
+  const rounds = useMemo(() => {
+    const map = new Map<number, FixtureRow[]>();
+    for (const f of fixtures) {
+      const list = map.get(f.round_number) ?? [];
+      list.push(f);
+      map.set(f.round_number, list);
+    }
+    return Array.from(map.entries())
+      .sort((a, b) => a[0] - b[0])
+      .map(([round, list]) => ({
+        round,
+        list: list.sort((a, b) => a.match_number - b.match_number),
+      }));
+  }, [fixtures]);
 
-  const scheduleLocked = round1.length > 0;
+  const scheduleLocked = fixtures.length > 0;
   const matchCount = Math.floor(teamOptions.length / 2);
 
+  const [legs, setLegs] = useState(1);
+  const [manualRound1, setManualRound1] = useState(false);
   const [drafts, setDrafts] = useState(() =>
     Array.from({ length: matchCount }, (_, i) => ({
       match_number: i + 1,
@@ -414,12 +487,12 @@ function ScheduleCard({
         <div>
           <div className="pl-sec-title">Raspored (fixtures)</div>
           <div className="pl-sec-sub">
-            Kolo 1 ručno, Kolo 2 auto (swap domaćin/gost).
+            Berger raspored, 1–{MAX_LEGS} kruga. Kolo 1 može ručno (opciono).
           </div>
         </div>
       }
       right={
-        isAdminUser && tournamentId ? (
+        canEdit && tournamentId ? (
           <div className="pl-row">
             {scheduleLocked ? (
               <>
@@ -429,12 +502,7 @@ function ScheduleCard({
                 <Button
                   variant="outline"
                   onClick={() => {
-                    if (
-                      !safeConfirm(
-                        "Reset fixtures? (obrišaće se Kolo 1 i Kolo 2)"
-                      )
-                    )
-                      return;
+                    if (!safeConfirm("Reset fixtures? (obrisaće se ceo raspored)")) return;
                     onResetFixtures();
                   }}
                 >
@@ -442,12 +510,24 @@ function ScheduleCard({
                 </Button>
               </>
             ) : (
-              <Button
-                onClick={() => onSaveRound1(drafts)}
-                disabled={teamOptions.length < 2}
-              >
-                Sačuvaj Kolo 1 + generiši Kolo 2
-              </Button>
+              <>
+                <Select
+                  value={String(legs)}
+                  onChange={(e) => setLegs(Number(e.target.value))}
+                >
+                  {Array.from({ length: MAX_LEGS }, (_, i) => i + 1).map((n) => (
+                    <option key={n} value={n}>
+                      {n === 1 ? "1 krug" : `${n} kruga`}
+                    </option>
+                  ))}
+                </Select>
+                <Button
+                  onClick={() => onSaveSchedule({ legs, round1: manualRound1 ? drafts : null })}
+                  disabled={teamOptions.length < 2}
+                >
+                  Generiši raspored
+                </Button>
+              </>
             )}
           </div>
         ) : null
@@ -462,13 +542,20 @@ function ScheduleCard({
           {fixturesLoading && <Hint>Učitavam fixtures...</Hint>}
           {fixturesError && <Msg text={fixturesError} />}
 
-          <div className="pl-grid">
-            <div className="pl-col">
-              <div className="pl-subtitle">Kolo 1</div>
+          {!scheduleLocked ? (
+            canEdit ? (
+              <div className="pl-stack">
+                <label className="pl-check">
+                  <input
+                    type="checkbox"
+                    checked={manualRound1}
+                    onChange={(e) => setManualRound1(e.target.checked)}
+                  />
+                  Ručno Kolo 1 (ostala kola se prilagođavaju)
+                </label>
 
-              {!scheduleLocked ? (
-                <div className="pl-stack">
-                  {drafts.map((d, idx) => (
+                {manualRound1 &&
+                  drafts.map((d, idx) => (
                     <div key={d.match_number} className="pl-fixture-row">
                       <div className="pl-fixture-num">Meč {d.match_number}</div>
 
@@ -503,49 +590,206 @@ function ScheduleCard({
                       </Select>
                     </div>
                   ))}
-                </div>
-              ) : (
-                <div className="pl-stack">
-                  {round1.map((f) => (
-                    <div key={f.id} className="pl-line">
-                      <b>Meč {f.match_number}:</b> {teamName(f.home_team_id)} vs{" "}
-                      {teamName(f.away_team_id)}
-                    </div>
-                  ))}
-                </div>
-              )}
-            </div>
-
-            <div className="pl-col">
-              <div className="pl-subtitle">Kolo 2 (auto)</div>
 
-              {!scheduleLocked ? (
-                <Hint>Biće dostupno nakon snimanja Kola 1.</Hint>
-              ) : (
-                <div className="pl-stack">
-                  {round2.map((f) => (
-                    <div key={f.id} className="pl-line">
-                      <b>Meč {f.match_number}:</b> {teamName(f.home_team_id)} vs{" "}
-                      {teamName(f.away_team_id)}
-                    </div>
-                  ))}
+                {teamOptions.length % 2 === 1 && (
+                  <Hint>Neparan broj timova: u svakom kolu jedan tim je slobodan (BYE).</Hint>
+                )}
+              </div>
+            ) : (
+              <Hint>Raspored još nije napravljen.</Hint>
+            )
+          ) : (
+            <div className="pl-grid">
+              {rounds.map(({ round, list }) => (
+                <div key={round} className="pl-col">
+                  <div className="pl-subtitle">Kolo {round}</div>
+                  <div className="pl-stack">
+                    {list.map((f) =>
+                      f.is_bye ? (
+                        <div key={f.id} className="pl-line pl-muted">
+                          {teamName(f.home_team_id)} — slobodan (BYE)
+                        </div>
+                      ) : (
+                        <div key={f.id} className="pl-line">
+                          <b>Meč {f.match_number}:</b> {teamName(f.home_team_id)} vs{" "}
+                          {teamName(f.away_team_id)}
+                        </div>
+                      )
+                    )}
+                  </div>
                 </div>
-              )}
-
-              {teamOptions.length % 2 === 1 && (
-                <Hint>
-                  Napomena: neparan broj timova. (BYE logiku možemo dodati
-                  sledeće.)
-                </Hint>
-              )}
+              ))}
             </div>
-          </div>
+          )}
         </>
       )}
     </Card>
   );
 }
 
+/* =========================
+   MatchDetailsEditor (strelci, kartoni, posed/šutevi)
+   ========================= */
+
+type EventDraft = { kind: EventKind; side: EventSide; player_name: string; assist_name: string; minute: string };
+type StatsDraft = Record<keyof MatchStats, string>;
+
+function toEventDrafts(events: MatchEvent[]): EventDraft[] {
+  return sortEvents(events).map((e) => ({
+    kind: e.kind,
+    side: e.side,
+    player_name: e.player_name,
+    assist_name: e.assist_name ?? "",
+    minute: e.minute === null ? "" : String(e.minute),
+  }));
+}
+
+function fromEventDrafts(drafts: EventDraft[]): MatchEventInput[] {
+  return drafts.map((d) => ({
+    kind: d.kind,
+    side: d.side,
+    player_name: d.player_name.trim(),
+    assist_name: d.kind === "goal" ? d.assist_name.trim() || null : null,
+    minute: d.minute === "" ? null : Number(d.minute),
+  }));
+}
+
+function toStatsDraft(stats: MatchStats | null | undefined): StatsDraft {
+  const s = stats ?? EMPTY_STATS;
+  return {
+    home_possession: s.home_possession === null ? "" : String(s.home_possession),
+    home_shots: s.home_shots === null ? "" : String(s.home_shots),
+    away_shots: s.away_shots === null ? "" : String(s.away_shots),
+    home_shots_on_target: s.home_shots_on_target === null ? "" : String(s.home_shots_on_target),
+    away_shots_on_target: s.away_shots_on_target === null ? "" : String(s.away_shots_on_target),
+  };
+}
+
+function fromStatsDraft(draft: StatsDraft): MatchStats {
+  const n = (v: string) => (v === "" ? null : Number(v));
+  return {
+    home_possession: n(draft.home_possession),
+    home_shots: n(draft.home_shots),
+    away_shots: n(draft.away_shots),
+    home_shots_on_target: n(draft.home_shots_on_target),
+    away_shots_on_target: n(draft.away_shots_on_target),
+  };
+}
+
+function MatchDetailsEditor({
+  homeName,
+  awayName,
+  events,
+  onEventsChange,
+  stats,
+  onStatsChange,
+}: {
+  homeName: string;
+  awayName: string;
+  events: EventDraft[];
+  onEventsChange: (events: EventDraft[]) => void;
+  stats: StatsDraft;
+  onStatsChange: (stats: StatsDraft) => void;
+}) {
+  const update = (idx: number, patch: Partial<EventDraft>) =>
+    onEventsChange(events.map((e, i) => (i === idx ? { ...e, ...patch } : e)));
+
+  const add = (kind: EventKind, side: EventSide) =>
+    onEventsChange([...events, { kind, side, player_name: "", assist_name: "", minute: "" }]);
+
+  const possession = stats.home_possession === "" ? "" : String(100 - Number(stats.home_possession));
+
+  return (
+    <div className="pl-details">
+      <div className="pl-details-title">Detalji meča (opciono)</div>
+
+      {events.map((e, idx) => (
+        <div key={idx} className="pl-details-row">
+          <Select value={e.kind} onChange={(ev) => update(idx, { kind: ev.target.value as EventKind })}>
+            {EVENT_KINDS.map((k) => (
+              <option key={k} value={k}>
+                {EVENT_LABELS[k]}
+              </option>
+            ))}
+          </Select>
+          <Select value={e.side} onChange={(ev) => update(idx, { side: ev.target.value as EventSide })}>
+            <option value="home">{homeName}</option>
+            <option value="away">{awayName}</option>
+          </Select>
+          <Input
+            value={e.player_name}
+            onChange={(ev) => update(idx, { player_name: ev.target.value })}
+            placeholder="Igrač (npr. Messi)"
+          />
+          {e.kind === "goal" ? (
+            <Input
+              value={e.assist_name}
+              onChange={(ev) => update(idx, { assist_name: ev.target.value })}
+              placeholder="Asistencija"
+            />
+          ) : null}
+          <Input
+            value={e.minute}
+            onChange={(ev) => update(idx, { minute: clampInt(ev.target.value, 1, 130) })}
+            placeholder="Min"
+            inputMode="numeric"
+            className="pl-mini"
+          />
+          <Button variant="ghost" onClick={() => onEventsChange(events.filter((_, i) => i !== idx))}>
+            ✕
+          </Button>
+        </div>
+      ))}
+
+      <div className="pl-row" style={{ flexWrap: "wrap" }}>
+        <Button variant="outline" onClick={() => add("goal", "home")}>
+          + Gol {homeName}
+        </Button>
+        <Button variant="outline" onClick={() => add("goal", "away")}>
+          + Gol {awayName}
+        </Button>
+        <Button variant="ghost" onClick={() => add("yellow", "home")}>
+          + Karton
+        </Button>
+      </div>
+
+      <div className="pl-details-stats">
+        <span className="pl-muted">Posed %</span>
+        <Input
+          value={stats.home_possession}
+          onChange={(ev) => onStatsChange({ ...stats, home_possession: clampInt(ev.target.value, 0, 100) })}
+          placeholder={homeName}
+          inputMode="numeric"
+          className="pl-mini"
+        />
+        <span className="pl-muted">: {possession || "—"}</span>
+
+        <span className="pl-muted">Šutevi (u okvir)</span>
+        {(["home", "away"] as const).map((side) => (
+          <span key={side} className="pl-row">
+            <Input
+              value={stats[`${side}_shots`]}
+              onChange={(ev) => onStatsChange({ ...stats, [`${side}_shots`]: clampInt(ev.target.value, 0, 99) })}
+              placeholder={side === "home" ? homeName : awayName}
+              inputMode="numeric"
+              className="pl-mini"
+            />
+            <Input
+              value={stats[`${side}_shots_on_target`]}
+              onChange={(ev) =>
+                onStatsChange({ ...stats, [`${side}_shots_on_target`]: clampInt(ev.target.value, 0, 99) })
+              }
+              placeholder="okvir"
+              inputMode="numeric"
+              className="pl-mini"
+            />
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
 /* =========================
    MAIN PAGE
    ========================= */
@@ -553,7 +797,7 @@ function ScheduleCard({
 export default function DashboardPage() {
   const router = useRouter();
 
-  const [role, setRole] = useState<string | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
   const [loading, setLoading] = useState(true);
   const [myEmail, setMyEmail] = useState<string | null>(null);
   const [fatal, setFatal] = useState<string | null>(null);
@@ -569,17 +813,28 @@ export default function DashboardPage() {
   const [inviteMsg, setInviteMsg] = useState<string | null>(null);
   const [invitingEmail, setInvitingEmail] = useState<string | null>(null);
   const [invitingAll, setInvitingAll] = useState(false);
+  const [invites, setInvites] = useState<Invite[]>([]);
+  const [revokingId, setRevokingId] = useState<string | null>(null);
+  const [inviteReport, setInviteReport] = useState<InviteResult[] | null>(null);
 
   const [tournaments, setTournaments] = useState<TournamentRow[]>([]);
   const [activeTournamentId, setActiveTournamentId] = useState<string | null>(
     null
   );
 
-  // ✅ ROSTER LOCK (MVP: localStorage)
-  const [rosterLocked, setRosterLocked] = useState(false);
+  const [statusBusy, setStatusBusy] = useState(false);
+
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [rosterMsg, setRosterMsg] = useState<string | null>(null);
+  const [rosterToAdd, setRosterToAdd] = useState("");
+  const [rosterBusy, setRosterBusy] = useState(false);
+  // samostalne prijave koje čekaju odobrenje (turnir sa join_restricted)
+  const [pendingRoster, setPendingRoster] = useState<RosterEntry[]>([]);
+  const [joinQr, setJoinQr] = useState<{ code: string; link: string; dataUrl: string } | null>(null);
 
   const [tName, setTName] = useState("");
   const [tDate, setTDate] = useState("");
+  const [tFormat, setTFormat] = useState<TournamentFormat>("league");
   const [savingTournament, setSavingTournament] = useState(false);
   const [tMsg, setTMsg] = useState<string | null>(null);
 
@@ -597,6 +852,15 @@ export default function DashboardPage() {
   >([]);
   const [tpMsg, setTpMsg] = useState<string | null>(null);
   const [drawing, setDrawing] = useState(false);
+  const [drawMode, setDrawMode] = useState<DrawMode>("random");
+  const [drawSeed, setDrawSeed] = useState("");
+  const [avoidRepeat, setAvoidRepeat] = useState(true);
+  const [snakePicks, setSnakePicks] = useState<Record<string, string>>({});
+  const [previousTeams, setPreviousTeams] = useState<Record<string, string>>({});
+  const [latestDraw, setLatestDraw] = useState<DrawRecord | null>(null);
+  const [useCeremony, setUseCeremony] = useState(true);
+  const [ceremonyOpen, setCeremonyOpen] = useState(false);
+  const [revealBusy, setRevealBusy] = useState(false);
 
   const [fixtures, setFixtures] = useState<FixtureRow[]>([]);
   const [fixturesLoading, setFixturesLoading] = useState(false);
@@ -613,6 +877,15 @@ export default function DashboardPage() {
   const [editHomeGoals, setEditHomeGoals] = useState<string>("");
   const [editAwayGoals, setEditAwayGoals] = useState<string>("");
   const [savingMatchId, setSavingMatchId] = useState<string | null>(null);
+  const [matchEvents, setMatchEvents] = useState<MatchEvent[]>([]);
+  const [editEvents, setEditEvents] = useState<EventDraft[]>([]);
+  const [editStats, setEditStats] = useState<StatsDraft>(toStatsDraft(null));
+
+  const [scorerScope, setScorerScope] = useState<"tournament" | "all">("tournament");
+  const [scorerView, setScorerView] = useState<"footballers" | "humans">("footballers");
+  const [scorerSort, setScorerSort] = useState<ScorerSort>("goals");
+  const [allTimeScoring, setAllTimeScoring] = useState<ReturnType<typeof computeScorers> | null>(null);
+  const [scorersMsg, setScorersMsg] = useState<string | null>(null);
 
   const [editingTournamentId, setEditingTournamentId] = useState<string | null>(
     null
@@ -622,17 +895,60 @@ export default function DashboardPage() {
   // player UI filters
   const [roundFilter, setRoundFilter] = useState<string>("all");
 
+  // tiebreaker chain draft (važi samo za turnir za koji je otvoren)
+  const [tbDraft, setTbDraft] = useState<{
+    tournamentId: string;
+    rules: TiebreakerRule[];
+  } | null>(null);
+  const [tbMsg, setTbMsg] = useState<string | null>(null);
+  const [savingTb, setSavingTb] = useState(false);
+
+  // groups
+  const [groupMsg, setGroupMsg] = useState<string | null>(null);
+  const [groupBusy, setGroupBusy] = useState(false);
+
+  // swiss
+  const [swissMsg, setSwissMsg] = useState<string | null>(null);
+
+  // knockout bracket
+  const [bracket, setBracket] = useState<KnockoutTieRow[]>([]);
+  const [bracketMsg, setBracketMsg] = useState<string | null>(null);
+  const [koSize, setKoSize] = useState<string>("4");
+  const [koLegs, setKoLegs] = useState<"1" | "2">("1");
+  const [promoting, setPromoting] = useState(false);
+  const [editingTieId, setEditingTieId] = useState<string | null>(null);
+  const [tieForm, setTieForm] = useState<Record<keyof TieResult, string>>(EMPTY_TIE_FORM);
+  const [savingTieId, setSavingTieId] = useState<string | null>(null);
+
   const activeTournament = useMemo(
     () => tournaments.find((t) => t.id === activeTournamentId) ?? null,
     [tournaments, activeTournamentId]
   );
 
+  // stari turniri nemaju status u bazi -> izvodi se iz žreba/mečeva (isto kao na serveru)
+  const tournamentStatus: TournamentStatus = useMemo(
+    () =>
+      parseStatus(activeTournament?.status) ??
+      inferStatus({
+        hasDraw: tournamentPlayers.length > 0,
+        hasMatches: matches.length > 0,
+        hasResults: matches.some((m) => m.away_team_id && isPlayed(m)),
+      }),
+    [activeTournament, tournamentPlayers, matches]
+  );
+  const rosterLocked = statusAtLeast(tournamentStatus, "roster_locked");
+  // pravila poretka i grupe se menjaju samo pre žreba (isto proverava PATCH /tournaments)
+  const structureLocked = statusAtLeast(tournamentStatus, "drawn");
+
   const teamById = useMemo(() => {
     const m = new Map<string, TeamRow>();
     for (const t of teams) m.set(t.id, t);
     return m;
   }, [teams]);
 
+  // pozivnice za aktivni turnir (lista igrača prikazuje njihovo stanje)
+  const inviteByEmail = useMemo(() => invitesByEmail(invites, activeTournamentId), [invites, activeTournamentId]);
+
   const playerByEmail = useMemo(() => {
     const m = new Map<string, PlayerRow>();
     for (const p of players) m.set(p.email, p);
@@ -650,6 +966,49 @@ export default function DashboardPage() {
     return playerByEmail.get(myEmail) ?? null;
   }, [myEmail, playerByEmail]);
 
+  // roster turnira (prijavljeni igrači) – nad njim rade lock, invite svima i žreb
+  const rosterPlayers = useMemo(
+    () =>
+      roster.map((r) => ({
+        ...r,
+        name: playerByEmail.get(r.player_email)?.name ?? null,
+      })),
+    [roster, playerByEmail]
+  );
+
+  const eventsByMatchId = useMemo(() => eventsByMatch(matchEvents), [matchEvents]);
+
+  const tournamentScoring = useMemo(
+    () => computeScorers(matchEvents, matches, buildTeamOwners(tournamentPlayers)),
+    [matchEvents, matches, tournamentPlayers]
+  );
+
+  const scorerName = (r: ScorerRow) =>
+    scorerView === "humans" ? (playerByEmail.get(r.key)?.name ?? r.name) : r.name;
+
+  const scorerRows = useMemo(() => {
+    const source = scorerScope === "all" ? allTimeScoring : tournamentScoring;
+    const rows = source ? source[scorerView] : [];
+    return sortScorers(rows, scorerSort, (r) =>
+      scorerView === "humans" ? (playerByEmail.get(r.key)?.name ?? r.name) : r.name
+    );
+  }, [scorerScope, scorerView, scorerSort, allTimeScoring, tournamentScoring, playerByEmail]);
+
+  // rezultati koje su prijavili igrači (lib/results)
+  const disputedMatches = useMemo(() => matches.filter((m) => m.result_status === "disputed"), [matches]);
+  const pendingResultCount = useMemo(() => matches.filter((m) => m.result_status === "pending").length, [matches]);
+
+  // snake: redosled biranja je određen seed-om, pa seed mora postojati pre biranja
+  const snakeOrder = useMemo(
+    () => (drawMode === "snake" && drawSeed.trim() ? pickOrder(roster.map((r) => r.player_email), drawSeed.trim()) : []),
+    [drawMode, drawSeed, roster]
+  );
+
+  const playersOutsideRoster = useMemo(() => {
+    const inRoster = new Set([...roster, ...pendingRoster].map((r) => r.player_email));
+    return players.filter((p) => p.role === "player" && !inRoster.has(p.email));
+  }, [players, roster, pendingRoster]);
+
   const myTeamId = useMemo(() => {
     if (!myEmail) return null;
     const tp = tournamentPlayers.find((x) => x.player_email === myEmail);
@@ -662,7 +1021,7 @@ export default function DashboardPage() {
   }, [myTeamId, teamById]);
 
   const visibleMatches = useMemo(() => {
-    if (isAdmin(role)) return matches;
+    if (can(role, "view_all_matches")) return matches;
     if (!myTeamId) return [];
     return matches.filter(
       (m) => m.home_team_id === myTeamId || m.away_team_id === myTeamId
@@ -682,48 +1041,7 @@ export default function DashboardPage() {
     return visibleMatches.filter((m) => (m.round ?? -1) === r);
   }, [visibleMatches, roundFilter]);
 
-  const myStats = useMemo(() => {
-    if (!myTeamId)
-      return { played: 0, wins: 0, draws: 0, losses: 0, pts: 0, gf: 0, ga: 0 };
-
-    let played = 0,
-      wins = 0,
-      draws = 0,
-      losses = 0,
-      pts = 0,
-      gf = 0,
-      ga = 0;
-
-    for (const m of matches) {
-      if (!m.home_team_id || !m.away_team_id) continue;
-      if (!isPlayed(m)) continue;
-      if (m.player1_score === null || m.player2_score === null) continue;
-
-      const isHome = m.home_team_id === myTeamId;
-      const isAway = m.away_team_id === myTeamId;
-      if (!isHome && !isAway) continue;
-
-      played += 1;
-
-      const myGoals = isHome ? m.player1_score : m.player2_score;
-      const oppGoals = isHome ? m.player2_score : m.player1_score;
-
-      gf += myGoals;
-      ga += oppGoals;
-
-      if (myGoals > oppGoals) {
-        wins += 1;
-        pts += 3;
-      } else if (myGoals < oppGoals) {
-        losses += 1;
-      } else {
-        draws += 1;
-        pts += 1;
-      }
-    }
-
-    return { played, wins, draws, losses, pts, gf, ga };
-  }, [matches, myTeamId]);
+  const myStats = useMemo(() => teamRecord(matches, myTeamId), [matches, myTeamId]);
 
   const tournamentTeamOptions = useMemo(() => {
     return tournamentTeams
@@ -735,60 +1053,149 @@ export default function DashboardPage() {
   }, [tournamentTeams, teamById]);
 
   /* =========================
-     ROSTER LOCK (localStorage)
+     ROSTER (prijave za turnir)
      ========================= */
 
-  function rosterKey(tournamentId: string) {
-    return `rosterLocked:${tournamentId}`;
+  async function addToTournamentRoster(emails: string[]) {
+    if (!can(role, "manage_players")) return;
+    if (!activeTournamentId || emails.length === 0) return;
+
+    setRosterBusy(true);
+    setRosterMsg(null);
+
+    const { data, error } = await adminApi("POST /roster", { tournamentId: activeTournamentId, emails });
+    if (error) setRosterMsg("Greška: " + error.message);
+    else setRosterMsg(`✅ Dodato u roster: ${data?.added ?? emails.length}.`);
+
+    setRosterToAdd("");
+    setRosterBusy(false);
+    await loadRosterForTournament(activeTournamentId);
   }
 
-  useEffect(() => {
-    if (!activeTournamentId) {
-      setRosterLocked(false);
+  async function removeFromTournamentRoster(email: string) {
+    if (!can(role, "manage_players")) return;
+    if (!activeTournamentId) return;
+
+    setRosterMsg(null);
+    const { error } = await adminApi("DELETE /roster", { tournamentId: activeTournamentId, email });
+    if (error) {
+      setRosterMsg("Greška: " + error.message);
       return;
     }
-    if (typeof window === "undefined") return;
-    const v = window.localStorage.getItem(rosterKey(activeTournamentId));
-    setRosterLocked(v === "1");
-  }, [activeTournamentId]);
+    await loadRosterForTournament(activeTournamentId);
+  }
 
-  function lockRoster() {
-    if (!isAdmin(role)) return;
+  async function approveRegistration(email: string) {
+    if (!can(role, "manage_players")) return;
     if (!activeTournamentId) return;
 
-    const onlyPlayers = players.filter((p) => p.role === "player");
-    if (onlyPlayers.length < 2) {
-      setInviteMsg(null);
-      setTpMsg("Greška: treba bar 2 igrača pre zaključavanja rostera.");
+    setRosterMsg(null);
+    const { error } = await adminApi("PATCH /roster", { tournamentId: activeTournamentId, email });
+    if (error) {
+      setRosterMsg("Greška: " + error.message);
       return;
     }
+    await loadRosterForTournament(activeTournamentId);
+  }
 
-    const ok = safeConfirm(
-      "Zaključati roster? Posle ovoga (MVP) ne bi trebalo dodavati/brisati igrače za ovaj turnir."
-    );
-    if (!ok) return;
+  async function regenerateJoinCode() {
+    if (!can(role, "manage_players")) return;
+    if (!activeTournamentId) return;
+    if (activeTournament?.join_code && !safeConfirm("Napraviti novi kod? Stari link i QR prestaju da važe.")) return;
 
-    if (typeof window !== "undefined") {
-      window.localStorage.setItem(rosterKey(activeTournamentId), "1");
+    setRosterBusy(true);
+    setRosterMsg(null);
+    const { error } = await adminApi("POST /join-code", { tournamentId: activeTournamentId });
+    setRosterBusy(false);
+    if (error) {
+      setRosterMsg("Greška: " + error.message);
+      return;
     }
-    setRosterLocked(true);
-    setTpMsg("✅ Roster zaključan. Sledeće: Žreb.");
+    await loadTournaments();
   }
 
-  function unlockRoster() {
-    if (!isAdmin(role)) return;
+  async function toggleJoinRestricted(restricted: boolean) {
+    if (!can(role, "manage_tournaments")) return;
     if (!activeTournamentId) return;
 
-    const ok = safeConfirm(
-      "Otključati roster? (Dozvoliće da menjaš igrače, ali može da pokvari doslednost turnira.)"
-    );
-    if (!ok) return;
+    setRosterMsg(null);
+    const { error } = await adminApi("PATCH /tournaments", {
+      id: activeTournamentId,
+      patch: { join_restricted: restricted },
+    });
+    if (error) {
+      setRosterMsg("Greška: " + error.message);
+      return;
+    }
+    await loadTournaments();
+  }
+
+  async function copyJoinLink() {
+    if (!activeTournamentId || typeof window === "undefined") return;
+    const code = activeTournament?.join_code;
+    const link = code
+      ? joinCodeLink(window.location.origin, code)
+      : joinLink(window.location.origin, activeTournamentId);
+    try {
+      await navigator.clipboard.writeText(link);
+      setRosterMsg("✅ Link za prijavu kopiran.");
+    } catch {
+      setRosterMsg("Link za prijavu: " + link);
+    }
+  }
+
+  /* =========================
+     TOURNAMENT STATUS (roster lock, finish)
+     ========================= */
+
+  async function changeStatus(to: TournamentStatus, confirmText: string, okText: string) {
+    if (!activeTournamentId) return;
+    if (!safeConfirm(confirmText)) return;
+
+    setStatusBusy(true);
+    setTpMsg(null);
+
+    const { error } = await adminApi("POST /tournament-status", { tournamentId: activeTournamentId, status: to });
+    if (error) setTpMsg("Greška: " + error.message);
+    else setTpMsg(okText);
 
-    if (typeof window !== "undefined") {
-      window.localStorage.removeItem(rosterKey(activeTournamentId));
+    setStatusBusy(false);
+    await loadTournaments();
+  }
+
+  function lockRoster() {
+    if (!can(role, "manage_tournaments")) return;
+
+    if (roster.length < 2) {
+      setInviteMsg(null);
+      setTpMsg("Greška: treba bar 2 prijavljena igrača pre zaključavanja rostera.");
+      return;
     }
-    setRosterLocked(false);
-    setTpMsg("Roster otključan.");
+
+    changeStatus(
+      "roster_locked",
+      "Zaključati roster? Posle ovoga ne bi trebalo dodavati/brisati igrače za ovaj turnir.",
+      "✅ Roster zaključan. Sledeće: Žreb."
+    );
+  }
+
+  function unlockRoster() {
+    if (!can(role, "manage_tournaments")) return;
+    changeStatus(
+      "draft",
+      "Otključati roster? (Dozvoliće da menjaš igrače i timove.)",
+      "Roster otključan."
+    );
+  }
+
+  function finishTournament() {
+    if (!can(role, "manage_tournaments")) return;
+    changeStatus("finished", "Završiti turnir? Posle toga se rezultati više ne mogu menjati.", "✅ Turnir završen.");
+  }
+
+  function reopenTournament() {
+    if (!can(role, "manage_tournaments")) return;
+    changeStatus("in_progress", "Ponovo otvoriti turnir za izmene rezultata?", "Turnir ponovo otvoren.");
   }
 
   /* =========================
@@ -796,7 +1203,7 @@ export default function DashboardPage() {
      ========================= */
 
   async function invitePlayer(email: string) {
-  if (!isAdmin(role)) return;
+  if (!can(role, "send_invites")) return;
 
   if (!activeTournamentId) {
     setInviteMsg("Greška (invite): izaberi aktivni turnir prvo.");
@@ -807,81 +1214,94 @@ export default function DashboardPage() {
   setInvitingEmail(email);
 
   try {
-    // ✅ uzmi access token iz trenutne sesije
-    const { data: sess, error: sessErr } = await supabase.auth.getSession();
-    if (sessErr) throw sessErr;
-
-    const token = sess.session?.access_token;
-    if (!token) throw new Error("Nema session tokena (uloguj se ponovo).");
-
-    const res = await fetch("/api/admin/invite", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${token}`, // ✅ OVO JE KLJUČNO
-      },
-      body: JSON.stringify({ email, tournamentId: activeTournamentId }),
-    });
-
-    const json = await res.json().catch(() => ({}));
-    if (!res.ok) throw new Error(json?.error || "Invite failed");
+    // ✅ token + Bearer header radi adminApi
+    const { error } = await adminApi("POST /invite", { email, tournamentId: activeTournamentId });
+    if (error) throw error;
 
     setInviteMsg(`✅ Invite poslat: ${email}`);
   } catch (e: any) {
     setInviteMsg("Greška (invite): " + (e?.message ?? "unknown"));
   } finally {
     setInvitingEmail(null);
+    await loadInviteList();
+  }
+}
+
+async function revokePlayerInvite(invite: Invite) {
+  if (!can(role, "send_invites")) return;
+
+  const ok = safeConfirm(`Opozvati pozivnicu za ${invite.email}?`);
+  if (!ok) return;
+
+  setInviteMsg(null);
+  setRevokingId(invite.id);
+
+  const { error } = await adminApi("DELETE /invite", { id: invite.id });
+  setRevokingId(null);
+  if (error) {
+    setInviteMsg("Greška (opoziv): " + error.message);
+    return;
   }
+
+  setInviteMsg(`Pozivnica opozvana: ${invite.email}`);
+  await loadInviteList();
 }
 
 async function inviteAllPlayers() {
-  if (!isAdmin(role)) return;
+  if (!can(role, "send_invites")) return;
 
   if (!activeTournamentId) {
     setInviteMsg("Greška (invite): izaberi aktivni turnir prvo.");
     return;
   }
 
-  const onlyPlayers = players.filter((p) => p.role === "player");
-  if (onlyPlayers.length === 0) return;
+  const emails = roster.map((r) => r.player_email);
+  if (emails.length === 0) {
+    setInviteMsg("Roster turnira je prazan. Prvo dodaj igrače u roster.");
+    return;
+  }
 
-  const ok = safeConfirm(`Poslati invite za ${onlyPlayers.length} igrača?`);
+  const ok = safeConfirm(`Poslati invite za ${emails.length} igrača iz rostera?`);
   if (!ok) return;
 
-  setInviteMsg(null);
-  setInvitingAll(true);
-
-  try {
-    // ✅ uzmi token jednom (brže + stabilnije)
-    const { data: sess, error: sessErr } = await supabase.auth.getSession();
-    if (sessErr) throw sessErr;
+  setInviteReport(null);
+  await sendBulkInvites(emails);
+}
 
-    const token = sess.session?.access_token;
-    if (!token) throw new Error("Nema session tokena (uloguj se ponovo).");
+/** Ponovo šalje samo emailovima koji su pali u poslednjem izveštaju. */
+async function retryFailedInvites() {
+  const failed = (inviteReport ?? []).filter((r) => !r.ok).map((r) => r.email);
+  if (failed.length > 0) await sendBulkInvites(failed);
+}
 
-    for (const p of onlyPlayers) {
-      setInvitingEmail(p.email);
+async function sendBulkInvites(emails: string[]) {
+  if (!can(role, "send_invites") || !activeTournamentId) return;
 
-      const res = await fetch("/api/admin/invite", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-          Authorization: `Bearer ${token}`,
-        },
-        body: JSON.stringify({ email: p.email, tournamentId: activeTournamentId }),
-      });
+  setInviteMsg(null);
+  setInvitingAll(true);
 
-      const json = await res.json().catch(() => ({}));
-      if (!res.ok) throw new Error(`${p.email}: ${json?.error || "Invite failed"}`);
-    }
+  const { data, error } = await adminApi("POST /invite/bulk", { tournamentId: activeTournamentId, emails });
+  setInvitingAll(false);
 
-    setInviteMsg("✅ Invite batch završen.");
-  } catch (e: any) {
-    setInviteMsg("Greška (invite all): " + (e?.message ?? "unknown"));
-  } finally {
-    setInvitingAll(false);
-    setInvitingEmail(null);
+  if (error || !data) {
+    setInviteMsg("Greška (invite all): " + (error?.message ?? "unknown"));
+    return;
   }
+
+  // novi rezultat zamenjuje stari za isti email (retry), ostali ostaju
+  setInviteReport((prev) => {
+    const byEmail = new Map((prev ?? []).map((r) => [r.email, r]));
+    for (const r of data.results) byEmail.set(r.email, r);
+    return Array.from(byEmail.values());
+  });
+
+  const failed = data.results.filter((r) => !r.ok).length;
+  setInviteMsg(
+    failed === 0
+      ? `✅ Invite poslat za ${data.results.length} igrača.`
+      : `Invite: ${data.results.length - failed} poslato, ${failed} neuspelo (vidi tabelu).`
+  );
+  await loadInviteList();
 }
 
   /* =========================
@@ -904,7 +1324,9 @@ async function inviteAllPlayers() {
   async function loadTournaments() {
     const { data, error } = await supabase
       .from("tournaments")
-      .select("id, name, date, created_at")
+      .select(
+        "id, name, date, tiebreakers, tiebreak_lots, format, group_count, advance_per_group, status, join_code, join_restricted, created_at"
+      )
       .order("date", { ascending: false });
 
     if (error) {
@@ -930,7 +1352,7 @@ async function inviteAllPlayers() {
     setTeamsMsg(null);
     const { data, error } = await supabase
       .from("teams")
-      .select("id, name, logo_url, created_at")
+      .select("id, name, logo_url, rating, created_at")
       .order("name", { ascending: true });
 
     if (error) {
@@ -955,6 +1377,27 @@ async function inviteAllPlayers() {
     setTournamentTeams((data ?? []) as TournamentTeamRow[]);
   }
 
+  /** Pozivnice vidi samo ko ih šalje (`r` pri init-u, dok role još nije upisan). */
+  async function loadInviteList(r: Role | null = role) {
+    if (!can(r, "send_invites")) return;
+    try {
+      setInvites(await loadInvites(supabase));
+    } catch (e) {
+      setInviteMsg("Greška pri učitavanju pozivnica: " + errorText(e));
+    }
+  }
+
+  async function loadRosterForTournament(tournamentId: string) {
+    setRosterMsg(null);
+    try {
+      const all = await loadRoster(supabase, tournamentId);
+      setRoster(all.filter(isApproved));
+      setPendingRoster(all.filter((r) => !isApproved(r)));
+    } catch (e) {
+      setRosterMsg("Greška pri učitavanju rostera: " + errorText(e));
+    }
+  }
+
   async function loadTournamentPlayers(tournamentId: string) {
     setTpMsg(null);
     const { data, error } = await supabase
@@ -968,6 +1411,7 @@ async function inviteAllPlayers() {
       return;
     }
     setTournamentPlayers((data ?? []) as TournamentPlayerRow[]);
+    setLatestDraw(await loadLatestDraw(supabase, tournamentId).catch(() => null));
   }
 
   async function loadMatches(tournamentId: string) {
@@ -984,6 +1428,7 @@ async function inviteAllPlayers() {
       return;
     }
     setMatches((data ?? []) as MatchRow[]);
+    setMatchEvents(await loadMatchEvents(supabase, tournamentId).catch(() => []));
   }
 
   async function loadFixturesForTournament(tournamentId: string) {
@@ -991,7 +1436,7 @@ async function inviteAllPlayers() {
     setFixturesLoading(true);
     try {
       const data = await loadFixtures(supabase, tournamentId);
-      setFixtures((data ?? []) as FixtureRow[]);
+      setFixtures(data ?? []);
     } catch (e: any) {
       setFixturesError(e?.message ?? "Greška pri učitavanju fixtures.");
     } finally {
@@ -999,6 +1444,15 @@ async function inviteAllPlayers() {
     }
   }
 
+  async function loadBracketForTournament(tournamentId: string) {
+    setBracketMsg(null);
+    try {
+      setBracket(await loadBracket(supabase, tournamentId));
+    } catch (e) {
+      setBracketMsg("Greška pri učitavanju nokaut faze: " + errorText(e));
+    }
+  }
+
   async function refreshAll() {
     setPMsg(null);
     setTMsg(null);
@@ -1012,13 +1466,16 @@ async function inviteAllPlayers() {
     await loadPlayers();
     await loadTeams();
     await loadTournaments();
+    await loadInviteList();
 
     if (activeTournamentId) {
       await Promise.all([
         loadMatches(activeTournamentId),
         loadTournamentPlayers(activeTournamentId),
+        loadRosterForTournament(activeTournamentId),
         loadTournamentTeams(activeTournamentId),
         loadFixturesForTournament(activeTournamentId),
+        loadBracketForTournament(activeTournamentId),
       ]);
     }
   }
@@ -1028,7 +1485,7 @@ async function inviteAllPlayers() {
      ========================= */
 
   async function addPlayer() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_players")) return;
 
     setSavingPlayer(true);
     setPMsg(null);
@@ -1043,9 +1500,7 @@ async function inviteAllPlayers() {
       return;
     }
 
-    const { error } = await supabase
-      .from("players")
-      .upsert({ email, name, role: "player" }, { onConflict: "email" });
+    const { error } = await adminApi("POST /players", { email, name });
 
     if (error) {
       setPMsg("Greška pri dodavanju: " + error.message);
@@ -1071,7 +1526,7 @@ async function inviteAllPlayers() {
      ========================= */
 
   async function createTournament() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_tournaments")) return;
 
     setSavingTournament(true);
     setTMsg(null);
@@ -1083,11 +1538,11 @@ async function inviteAllPlayers() {
       return;
     }
 
-    const { data, error } = await supabase
-      .from("tournaments")
-      .insert({ name, date: tDate || null })
-      .select("id")
-      .single();
+    const { data, error } = await adminApi("POST /tournaments", {
+      name,
+      date: tDate || null,
+      format: tFormat,
+    });
 
     if (error) {
       setTMsg("Greška: " + error.message);
@@ -1097,6 +1552,7 @@ async function inviteAllPlayers() {
 
     setTName("");
     setTDate("");
+    setTFormat("league");
     setTMsg("✅ Turnir kreiran.");
 
     await loadTournaments();
@@ -1106,7 +1562,7 @@ async function inviteAllPlayers() {
   }
 
   async function saveTournamentRename(tournamentId: string) {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_tournaments")) return;
 
     const newName = editTournamentName.trim();
     if (!newName) {
@@ -1114,10 +1570,10 @@ async function inviteAllPlayers() {
       return;
     }
 
-    const { error } = await supabase
-      .from("tournaments")
-      .update({ name: newName })
-      .eq("id", tournamentId);
+    const { error } = await adminApi("PATCH /tournaments", {
+      id: tournamentId,
+      patch: { name: newName },
+    });
 
     if (error) {
       setTMsg("Greška pri izmeni: " + error.message);
@@ -1131,15 +1587,12 @@ async function inviteAllPlayers() {
   }
 
   async function deleteTournament(tournamentId: string) {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_tournaments")) return;
 
     const ok = safeConfirm("Da li sigurno želiš da obrišeš ovaj turnir?");
     if (!ok) return;
 
-    const { error } = await supabase
-      .from("tournaments")
-      .delete()
-      .eq("id", tournamentId);
+    const { error } = await adminApi("DELETE /tournaments", { id: tournamentId });
 
     if (error) {
       setTMsg("Greška pri brisanju: " + error.message);
@@ -1155,8 +1608,9 @@ async function inviteAllPlayers() {
       setMatches([]);
       setTournamentPlayers([]);
       setTournamentTeams([]);
+      setRoster([]);
       setFixtures([]);
-      setRosterLocked(false);
+      setBracket([]);
     }
 
     await loadTournaments();
@@ -1167,7 +1621,7 @@ async function inviteAllPlayers() {
      ========================= */
 
   async function addTeamToTournament() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_tournaments")) return;
 
     if (!activeTournamentId) {
       setTtMsg("Izaberi turnir prvo.");
@@ -1186,9 +1640,10 @@ async function inviteAllPlayers() {
 
     setTtMsg(null);
 
-    const { error } = await supabase
-      .from("tournament_teams")
-      .insert({ tournament_id: activeTournamentId, team_id: teamToAddId });
+    const { error } = await adminApi("POST /tournament-teams", {
+      tournamentId: activeTournamentId,
+      teamId: teamToAddId,
+    });
 
     if (error) {
       setTtMsg("Greška: " + error.message);
@@ -1200,13 +1655,10 @@ async function inviteAllPlayers() {
   }
 
   async function removeTeamFromTournament(rowId: string) {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_tournaments")) return;
     if (!activeTournamentId) return;
 
-    const { error } = await supabase
-      .from("tournament_teams")
-      .delete()
-      .eq("id", rowId);
+    const { error } = await adminApi("DELETE /tournament-teams", { id: rowId });
 
     if (error) {
       setTtMsg("Greška pri brisanju tima iz turnira: " + error.message);
@@ -1221,7 +1673,7 @@ async function inviteAllPlayers() {
      ========================= */
 
   async function resetDraw() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "run_draw")) return;
     if (!activeTournamentId) return;
 
     const ok = safeConfirm(
@@ -1231,10 +1683,7 @@ async function inviteAllPlayers() {
 
     setTpMsg(null);
 
-    const { error } = await supabase
-      .from("tournament_players")
-      .delete()
-      .eq("tournament_id", activeTournamentId);
+    const { error } = await adminApi("DELETE /draw", { tournamentId: activeTournamentId });
 
     if (error) {
       setTpMsg("Greška pri resetu žreba: " + error.message);
@@ -1242,114 +1691,106 @@ async function inviteAllPlayers() {
     }
 
     setTpMsg("✅ Žreb resetovan.");
-    await loadTournamentPlayers(activeTournamentId);
+    await Promise.all([loadTournamentPlayers(activeTournamentId), loadTournaments()]);
+  }
+
+  function changeDrawMode(mode: DrawMode) {
+    setDrawMode(mode);
+    setSnakePicks({});
+    if (mode === "snake" && !drawSeed.trim()) setDrawSeed(newSeed());
   }
 
   async function drawTeamsForTournament() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "run_draw")) return;
     if (!activeTournamentId) {
       setTpMsg("Nema aktivnog turnira.");
       return;
     }
 
-    // ✅ enforce safe flow
+    // ✅ enforce safe flow (server proverava isto)
     if (!rosterLocked) {
       setTpMsg("Greška: prvo pošalji invite i zaključaj roster, tek onda Žreb.");
       return;
     }
 
-    const onlyPlayers = players.filter((p) => p.role === "player");
-
-    if (onlyPlayers.length < 2) {
-      setTpMsg("Treba bar 2 igrača.");
+    if (rosterPlayers.length < 2) {
+      setTpMsg("Treba bar 2 igrača u rosteru.");
       return;
     }
 
-    if (tournamentTeams.length < onlyPlayers.length) {
+    if (tournamentTeams.length < rosterPlayers.length) {
       setTpMsg("Nema dovoljno timova u turniru (mora bar koliko i igrača).");
       return;
     }
 
-    setDrawing(true);
-    setTpMsg(null);
-
-    // 1) Obriši stari žreb
-    const { error: delErr } = await supabase
-      .from("tournament_players")
-      .delete()
-      .eq("tournament_id", activeTournamentId);
-
-    if (delErr) {
-      setTpMsg("Greška (brisanje starog žreba): " + delErr.message);
-      setDrawing(false);
+    if (drawMode === "snake" && snakeOrder.some((email) => !snakePicks[email])) {
+      setTpMsg("Svaki igrač mora izabrati tim.");
       return;
     }
 
-    // 2) Shuffle teams and assign
-    const shuffledTeams = shuffle(tournamentTeams).slice(0, onlyPlayers.length);
-
-    const rows = onlyPlayers
-      .slice(0, shuffledTeams.length)
-      .map((p, idx) => ({
-        tournament_id: activeTournamentId,
-        player_email: p.email,
-        team_id: shuffledTeams[idx].team_id,
-      }));
+    setDrawing(true);
+    setTpMsg(null);
 
-    const { error } = await supabase.from("tournament_players").insert(rows);
+    // žreb radi server (isti seed + ulaz = isti rezultat); server briše stari žreb i upisuje novi
+    const seed = drawSeed.trim() || newSeed();
+    const { data, error } = await adminApi("POST /draw", {
+      tournamentId: activeTournamentId,
+      mode: drawMode,
+      seed,
+      avoidRepeat,
+      ...(drawMode === "snake" ? { picks: snakePicks } : {}),
+      ceremony: useCeremony,
+    });
     if (error) {
       setTpMsg("Greška pri žrebu: " + error.message);
       setDrawing(false);
       return;
     }
 
-    setTpMsg("✅ Žreb završen.");
+    setTpMsg(`✅ Žreb završen (seed: ${data?.seed ?? seed}).`);
     setDrawing(false);
+    setDrawSeed("");
+    setSnakePicks({});
+
+    await Promise.all([loadTournamentPlayers(activeTournamentId), loadTournaments()]);
+    if (useCeremony) setCeremonyOpen(true);
+  }
+
+  // ceremonija: igrači na player strani prate otkrivene parove preko realtime-a
+  async function revealDrawTo(revealed: number) {
+    if (!can(role, "run_draw") || !activeTournamentId || !latestDraw) return;
+    setRevealBusy(true);
 
-    await loadTournamentPlayers(activeTournamentId);
+    // otkriveni parovi (a posle poslednjeg i dodele) stižu sa servera
+    const { error } = await adminApi("PATCH /draw", { tournamentId: activeTournamentId, revealed });
+    if (error) setTpMsg("Greška pri otkrivanju: " + error.message);
+    else await loadTournamentPlayers(activeTournamentId);
+
+    setRevealBusy(false);
   }
 
   /* =========================
      FIXTURES: save/reset/generate
      ========================= */
 
-  async function handleSaveScheduleRound1(
-    drafts: { match_number: number; home_team_id: string; away_team_id: string }[]
-  ) {
-    if (!isAdmin(role)) return;
+  async function handleSaveSchedule(opts: { legs: number; round1: Round1Override | null }) {
+    if (!can(role, "manage_schedule")) return;
     if (!activeTournamentId) return;
 
     setFixturesError(null);
-    try {
-      const cleaned = drafts
-        .map((d) => ({
-          match_number: d.match_number,
-          home_team_id: d.home_team_id || "",
-          away_team_id: d.away_team_id || "",
-        }))
-        .filter((d) => d.home_team_id && d.away_team_id);
-
-      if (cleaned.length === 0) {
-        setFixturesError("Unesi bar jedan meč u Kolo 1.");
-        return;
-      }
-
-      await saveRound1AndGenerateRound2(supabase, activeTournamentId, cleaned);
-      await loadFixturesForTournament(activeTournamentId);
-      setFixturesError(null);
-    } catch (e: any) {
-      setFixturesError(e?.message ?? "Greška pri snimanju fixtures.");
+    const { error } = await adminApi("POST /fixtures", { tournamentId: activeTournamentId, ...opts });
+    if (error) {
+      setFixturesError("Greška pri snimanju fixtures: " + error.message);
+      return;
     }
+    await loadFixturesForTournament(activeTournamentId);
   }
 
   async function resetFixtures() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_schedule")) return;
     if (!activeTournamentId) return;
 
-    const { error } = await supabase
-      .from("fixtures")
-      .delete()
-      .eq("tournament_id", activeTournamentId);
+    const { error } = await adminApi("DELETE /fixtures", { tournamentId: activeTournamentId });
 
     if (error) {
       setFixturesError("Greška pri reset fixtures: " + error.message);
@@ -1359,7 +1800,7 @@ async function inviteAllPlayers() {
   }
 
   async function generateMatchesFromFixtures() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_schedule")) return;
     if (!activeTournamentId) return;
 
     setMMsg(null);
@@ -1380,9 +1821,7 @@ async function inviteAllPlayers() {
       }
 
       const fx = await loadFixtures(supabase, activeTournamentId);
-      const list = (fx ?? []) as FixtureRow[];
-
-      const playable = list
+      const playable = fx
         .filter((f) => !f.is_bye)
         .filter((f) => f.home_team_id && f.away_team_id)
         .sort((a, b) => {
@@ -1391,22 +1830,21 @@ async function inviteAllPlayers() {
         });
 
       if (playable.length === 0) {
-        setMMsg("Nema fixtures. Prvo unesi Kolo 1.");
+        setMMsg("Nema fixtures. Prvo generiši raspored.");
         return;
       }
 
       const rows = playable.map((f) => ({
-        tournament_id: activeTournamentId,
         round: f.round_number,
         home_team_id: f.home_team_id,
         away_team_id: f.away_team_id,
       }));
 
-      const { error } = await supabase.from("matches").insert(rows);
+      const { error } = await adminApi("POST /matches", { tournamentId: activeTournamentId, rows });
       if (error) throw error;
 
       setMMsg("✅ Mečevi generisani iz fixtures.");
-      await loadMatches(activeTournamentId);
+      await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
     } catch (e: any) {
       setMMsg("Greška: " + (e?.message ?? "unknown"));
     } finally {
@@ -1419,7 +1857,7 @@ async function inviteAllPlayers() {
      ========================= */
 
   async function resetSchedule() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_schedule")) return;
     if (!activeTournamentId) return;
 
     const ok = safeConfirm(
@@ -1429,10 +1867,7 @@ async function inviteAllPlayers() {
 
     setMMsg(null);
 
-    const { error } = await supabase
-      .from("matches")
-      .delete()
-      .eq("tournament_id", activeTournamentId);
+    const { error } = await adminApi("DELETE /matches", { tournamentId: activeTournamentId });
 
     if (error) {
       setMMsg("Greška pri resetu rasporeda: " + error.message);
@@ -1440,11 +1875,11 @@ async function inviteAllPlayers() {
     }
 
     setMMsg("✅ Schedule resetovan.");
-    await loadMatches(activeTournamentId);
+    await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
   }
 
   async function generateSchedule() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_schedule")) return;
 
     if (!activeTournamentId) {
       setMMsg("Nema aktivnog turnira.");
@@ -1466,7 +1901,7 @@ async function inviteAllPlayers() {
     }
 
     type TeamIdRow = { team_id: string };
-    let teamIds = ((teamsData ?? []) as TeamIdRow[])
+    const teamIds = ((teamsData ?? []) as TeamIdRow[])
       .map((t) => t.team_id)
       .filter(Boolean);
 
@@ -1494,58 +1929,22 @@ async function inviteAllPlayers() {
       return;
     }
 
-    const BYE = "__BYE__";
-    const isOdd = teamIds.length % 2 === 1;
-    if (isOdd) teamIds = [...teamIds, BYE];
-
-    const n = teamIds.length;
-    const rounds = n - 1;
-    const half = n / 2;
-
-    let arr = [...teamIds];
-
-    const rows: Array<{
-      tournament_id: string;
-      round: number;
-      home_team_id: string | null;
-      away_team_id: string | null;
-    }> = [];
-
-    for (let r = 1; r <= rounds; r++) {
-      for (let i = 0; i < half; i++) {
-        const t1 = arr[i];
-        const t2 = arr[n - 1 - i];
-        if (t1 === BYE || t2 === BYE) continue;
-
-        const home = r % 2 === 1 ? t1 : t2;
-        const away = r % 2 === 1 ? t2 : t1;
-
-        rows.push({
-          tournament_id: activeTournamentId,
-          round: r,
-          home_team_id: home,
-          away_team_id: away,
-        });
-      }
-
-      const fixed = arr[0];
-      const rest = arr.slice(1);
-      rest.unshift(rest.pop() as string);
-      arr = [fixed, ...rest];
-    }
-
-    if (doubleRoundRobin) {
-      const offset = rounds;
-      const secondLeg = rows.map((m) => ({
-        tournament_id: m.tournament_id,
-        round: (m.round ?? 0) + offset,
-        home_team_id: m.away_team_id,
-        away_team_id: m.home_team_id,
-      }));
-      rows.push(...secondLeg);
+    let rows: MatchInsert[];
+    try {
+      rows = buildSchedule(teamIds, { legs: doubleRoundRobin ? 2 : 1 })
+        .filter((f) => !f.is_bye)
+        .map((f) => ({
+          round: f.round_number,
+          home_team_id: f.home_team_id,
+          away_team_id: f.away_team_id,
+        }));
+    } catch (e) {
+      setMMsg("Greška: " + errorText(e));
+      setGenerating(false);
+      return;
     }
 
-    const { error } = await supabase.from("matches").insert(rows);
+    const { error } = await adminApi("POST /matches", { tournamentId: activeTournamentId, rows });
     if (error) {
       setMMsg("Greška pri generisanju: " + error.message);
       setGenerating(false);
@@ -1559,7 +1958,7 @@ async function inviteAllPlayers() {
     );
     setGenerating(false);
 
-    await loadMatches(activeTournamentId);
+    await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
   }
 
   /* =========================
@@ -1567,7 +1966,7 @@ async function inviteAllPlayers() {
      ========================= */
 
   async function assignPlayersToMatches() {
-    if (!isAdmin(role)) return;
+    if (!can(role, "manage_schedule")) return;
     if (!activeTournamentId) {
       setMMsg("Nema aktivnog turnira.");
       return;
@@ -1615,13 +2014,14 @@ async function inviteAllPlayers() {
         return;
       }
 
-      for (const u of updates) {
-        const { error } = await supabase
-          .from("matches")
-          .update({ player1_email: u.player1_email, player2_email: u.player2_email })
-          .eq("id", u.id);
-        if (error) throw error;
-      }
+      const { error } = await adminApi("PATCH /matches", {
+        tournamentId: activeTournamentId,
+        updates: updates.map((u) => ({
+          id: u.id,
+          patch: { player1_email: u.player1_email, player2_email: u.player2_email },
+        })),
+      });
+      if (error) throw error;
 
       setMMsg("✅ Igrači su dodeljeni mečevima (iz žreba).");
       await loadMatches(activeTournamentId);
@@ -1636,8 +2036,24 @@ async function inviteAllPlayers() {
      MATCH RESULT
      ========================= */
 
+  function startEditMatch(m: MatchRow) {
+    setEditingMatchId(m.id);
+    setEditHomeGoals(m.player1_score === null ? "" : String(m.player1_score));
+    setEditAwayGoals(m.player2_score === null ? "" : String(m.player2_score));
+    setEditEvents(toEventDrafts(eventsByMatchId.get(m.id) ?? []));
+    setEditStats(toStatsDraft(m.stats));
+  }
+
+  function cancelEditMatch() {
+    setEditingMatchId(null);
+    setEditHomeGoals("");
+    setEditAwayGoals("");
+    setEditEvents([]);
+    setEditStats(toStatsDraft(null));
+  }
+
   async function saveMatchResult(matchId: string) {
-    if (!isAdmin(role)) return;
+    if (!can(role, "enter_results")) return;
     if (!activeTournamentId) return;
 
     const hg = editHomeGoals.trim() === "" ? null : Number(editHomeGoals);
@@ -1648,17 +2064,33 @@ async function inviteAllPlayers() {
       return;
     }
 
+    const events = fromEventDrafts(editEvents);
+    const stats = fromStatsDraft(editStats);
+    const invalid = validateEvents(events, { home: hg, away: ag }, stats);
+    if (invalid) {
+      setMMsg(invalid);
+      return;
+    }
+
     setSavingMatchId(matchId);
     setMMsg(null);
 
-    const { error } = await supabase
-      .from("matches")
-      .update({
-        player1_score: hg,
-        player2_score: ag,
-        played_at: new Date().toISOString(),
-      })
-      .eq("id", matchId);
+    const { data, error } = await adminApi("PATCH /matches", {
+      tournamentId: activeTournamentId,
+      updates: [
+        {
+          id: matchId,
+          patch: {
+            player1_score: hg,
+            player2_score: ag,
+            // ispravka starog rezultata ne pomera meč na kraj istorije rejtinga
+            played_at: matches.find((x) => x.id === matchId)?.played_at ?? new Date().toISOString(),
+            // upis admina/sudije rešava i prijavljen/sporan rezultat
+            result_status: "confirmed",
+          },
+        },
+      ],
+    });
 
     if (error) {
       setMMsg("Greška pri čuvanju rezultata: " + error.message);
@@ -1666,16 +2098,66 @@ async function inviteAllPlayers() {
       return;
     }
 
-    setEditingMatchId(null);
-    setEditHomeGoals("");
-    setEditAwayGoals("");
+    const { error: evErr } = await adminApi("POST /match-events", {
+      tournamentId: activeTournamentId,
+      matchId,
+      events,
+      stats,
+    });
+    if (evErr) setMMsg("Rezultat je sačuvan, ali detalji meča nisu: " + evErr.message);
+    else if (data?.ratingError) setMMsg(ratingErrorText(data.ratingError));
+
+    cancelEditMatch();
     setSavingMatchId(null);
 
-    await loadMatches(activeTournamentId);
+    await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
+  }
+
+  async function changeScorerScope(scope: "tournament" | "all") {
+    setScorerScope(scope);
+    setScorersMsg(null);
+    if (scope !== "all") return;
+    try {
+      setAllTimeScoring(await loadAllTimeScoring(supabase));
+    } catch (e) {
+      setScorersMsg("Greška pri učitavanju strelaca: " + errorText(e));
+    }
+  }
+
+  /** Prijavljen (ili sporan) rezultat igrača postaje važeći bez izmene. */
+  async function acceptSubmittedResult(m: MatchRow) {
+    if (!can(role, "enter_results")) return;
+    if (!activeTournamentId) return;
+
+    setSavingMatchId(m.id);
+    setMMsg(null);
+
+    const { data, error } = await adminApi("PATCH /matches", {
+      tournamentId: activeTournamentId,
+      updates: [
+        {
+          id: m.id,
+          patch: {
+            player1_score: m.player1_score,
+            player2_score: m.player2_score,
+            played_at: m.played_at ?? new Date().toISOString(),
+            result_status: "confirmed",
+          },
+        },
+      ],
+    });
+    setSavingMatchId(null);
+
+    if (error) {
+      setMMsg("Greška pri potvrdi rezultata: " + error.message);
+      return;
+    }
+    if (data?.ratingError) setMMsg(ratingErrorText(data.ratingError));
+    await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
   }
 
   async function clearMatchResult(matchId: string) {
-    if (!isAdmin(role)) return;
+    if (!can(role, "enter_results")) return;
     if (!activeTournamentId) return;
 
     const ok = safeConfirm("Obrisati rezultat (vrati na neodigrano)?");
@@ -1683,17 +2165,436 @@ async function inviteAllPlayers() {
 
     setMMsg(null);
 
-    const { error } = await supabase
-      .from("matches")
-      .update({ player1_score: null, player2_score: null, played_at: null })
-      .eq("id", matchId);
+    const { data, error } = await adminApi("PATCH /matches", {
+      tournamentId: activeTournamentId,
+      updates: [
+        {
+          id: matchId,
+          patch: {
+            player1_score: null,
+            player2_score: null,
+            played_at: null,
+            result_status: null,
+            reported_by: null,
+            dispute_note: null,
+          },
+        },
+      ],
+    });
 
     if (error) {
       setMMsg("Greška pri brisanju rezultata: " + error.message);
       return;
     }
+    if (data?.ratingError) setMMsg(ratingErrorText(data.ratingError));
+
+    // bez rezultata nema ni strelaca/kartona
+    if (eventsByMatchId.has(matchId)) {
+      await adminApi("POST /match-events", { tournamentId: activeTournamentId, matchId, events: [], stats: null });
+    }
+
+    await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
+  }
+
+  /* =========================
+     TIEBREAKERS
+     ========================= */
+
+  async function saveTiebreakers() {
+    if (!can(role, "manage_tournaments")) return;
+    if (!activeTournamentId) return;
+
+    setSavingTb(true);
+    setTbMsg(null);
+
+    const { error } = await adminApi("PATCH /tournaments", {
+      id: activeTournamentId,
+      patch: { tiebreakers: tbRules },
+    });
+
+    if (error) {
+      setTbMsg("Greška pri čuvanju pravila: " + error.message);
+      setSavingTb(false);
+      return;
+    }
+
+    setTbDraft(null);
+    setTbMsg("✅ Pravila tabele sačuvana.");
+    setSavingTb(false);
+    await loadTournaments();
+  }
+
+  async function recordCoinToss() {
+    if (!can(role, "manage_tournaments")) return;
+    if (!activeTournamentId) return;
+    if (openTies.length === 0) return;
+
+    const ok = safeConfirm(
+      "Baciti novčić za timove koji su i dalje izjednačeni? (rezultat žreba se trajno beleži)"
+    );
+    if (!ok) return;
+
+    // već izvučeni ostaju, nerešeni se dodaju na kraj u nasumičnom redosledu
+    const prev = (activeTournament?.tiebreak_lots ?? []).filter((id) =>
+      openTies.every((g) => !g.includes(id))
+    );
+    const lots = [...prev, ...openTies.flatMap((g) => shuffle(g))];
+
+    setTbMsg(null);
+
+    const { error } = await adminApi("PATCH /tournaments", {
+      id: activeTournamentId,
+      patch: { tiebreak_lots: lots },
+    });
+
+    if (error) {
+      setTbMsg("Greška pri žrebu: " + error.message);
+      return;
+    }
+
+    setTbMsg(
+      tbRules.includes("lots")
+        ? "✅ Žreb zabeležen."
+        : "✅ Žreb zabeležen, ali se ne primenjuje: pravilo „Žreb (novčić)“ nije u lancu (lanac se menja samo pre žreba)."
+    );
+    await loadTournaments();
+  }
+
+  /* =========================
+     GROUPS (format: groups_knockout)
+     ========================= */
+
+  async function updateGroupSettings(patch: { group_count?: number; advance_per_group?: number }) {
+    if (!can(role, "manage_tournaments")) return;
+    if (!activeTournamentId) return;
+
+    setGroupMsg(null);
+    const { error } = await adminApi("PATCH /tournaments", { id: activeTournamentId, patch });
+    if (error) {
+      setGroupMsg("Greška: " + error.message);
+      return;
+    }
+    await loadTournaments();
+  }
+
+  async function setTeamPot(rowId: string, pot: number | null) {
+    if (!can(role, "run_draw")) return;
+    if (!activeTournamentId) return;
+
+    const { error } = await adminApi("PATCH /tournament-teams", { id: rowId, patch: { pot } });
+    if (error) {
+      setTtMsg("Greška (šešir): " + error.message);
+      return;
+    }
+    await loadTournamentTeams(activeTournamentId);
+  }
+
+  async function drawGroupsForTournament() {
+    if (!can(role, "run_draw")) return;
+    if (!activeTournamentId) return;
+
+    if (matches.length > 0) {
+      setGroupMsg("Greška: mečevi već postoje. Prvo uradi Reset schedule.");
+      return;
+    }
+
+    const ok = safeConfirm(
+      tournamentTeams.some((t) => t.group_label)
+        ? "Ponoviti žreb grupa? (trenutni raspored se briše)"
+        : `Izvući ${groupCount} grupe po šeširima?`
+    );
+    if (!ok) return;
+
+    setGroupBusy(true);
+    setGroupMsg(null);
+
+    try {
+      const assignment = drawGroups(tournamentTeams, groupCount);
+      const { error } = await adminApi("POST /groups", {
+        tournamentId: activeTournamentId,
+        assignment: Object.fromEntries(assignment),
+      });
+      if (error) throw error;
+      setGroupMsg("✅ Grupe izvučene.");
+      await loadTournamentTeams(activeTournamentId);
+    } catch (e) {
+      setGroupMsg("Greška: " + errorText(e));
+    } finally {
+      setGroupBusy(false);
+    }
+  }
+
+  async function generateGroupMatches() {
+    if (!can(role, "manage_schedule")) return;
+    if (!activeTournamentId) return;
+
+    if (matches.length > 0) {
+      setGroupMsg("Mečevi već postoje. (Ako hoćeš ponovo, uradi Reset schedule)");
+      return;
+    }
+
+    setGroupBusy(true);
+    setGroupMsg(null);
+
+    try {
+      const rows = groupMatchRows(activeTournamentId, tournamentTeams, { double: doubleRoundRobin });
+      const { error } = await adminApi("POST /matches", { tournamentId: activeTournamentId, rows });
+      if (error) throw error;
+
+      setGroupMsg(`✅ Mečevi u grupama generisani${doubleRoundRobin ? " (2x home/away)" : ""}.`);
+      await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
+    } catch (e) {
+      setGroupMsg("Greška: " + errorText(e));
+    } finally {
+      setGroupBusy(false);
+    }
+  }
+
+  async function advanceGroupsToKnockout() {
+    if (!can(role, "manage_schedule")) return;
+    if (!activeTournamentId) return;
+
+    const seeds = knockoutSeeds(groups, advancePerGroup);
+    if (seeds.length < 2) {
+      setGroupMsg("Greška: nema dovoljno timova za nokaut fazu.");
+      return;
+    }
+
+    const ok = safeConfirm(
+      bracket.length
+        ? `Napraviti novu nokaut fazu (top ${advancePerGroup} iz svake grupe)? Postojeći bracket se briše.`
+        : `Prebaciti top ${advancePerGroup} iz svake grupe u nokaut fazu?`
+    );
+    if (!ok) return;
+
+    setGroupBusy(true);
+    setGroupMsg(null);
+
+    try {
+      const { error } = await adminApi("POST /knockout", {
+        tournamentId: activeTournamentId,
+        seeds,
+        legs: koLegs === "2" ? 2 : 1,
+      });
+      if (error) throw error;
+      setGroupMsg(`✅ Nokaut faza kreirana (${seeds.length} timova).`);
+      await loadBracketForTournament(activeTournamentId);
+    } catch (e) {
+      setGroupMsg("Greška: " + errorText(e));
+    } finally {
+      setGroupBusy(false);
+    }
+  }
+
+  /* =========================
+     SWISS (format: swiss)
+     ========================= */
+
+  async function generateNextSwissRound() {
+    if (!can(role, "manage_schedule")) return;
+    if (!activeTournamentId) return;
+
+    setGenerating(true);
+    setSwissMsg(null);
+
+    try {
+      const { round, rows, rematch } = nextSwissRoundRows(activeTournamentId, standings, matches);
+      const { error } = await adminApi("POST /matches", { tournamentId: activeTournamentId, rows });
+      if (error) throw error;
+
+      const repeat = rematch
+        ? ` ⚠️ Bez revanša nije išlo: ${rematch.map((id) => teamById.get(id)?.name ?? id).join(" – ")} igraju ponovo.`
+        : "";
+      setSwissMsg(`✅ Kolo ${round} generisano.${repeat} Sledeće: Auto-assign igrače.`);
+      await Promise.all([loadMatches(activeTournamentId), loadTournaments()]);
+    } catch (e) {
+      setSwissMsg("Greška: " + errorText(e));
+    } finally {
+      setGenerating(false);
+    }
+  }
+
+  /* =========================
+     KNOCKOUT (bracket)
+     ========================= */
+
+  async function promoteToKnockout() {
+    if (!can(role, "manage_schedule")) return;
+    if (!activeTournamentId) return;
+
+    const n = Number(koSize);
+    if (standings.length < n) {
+      setBracketMsg(`Greška: u tabeli ima samo ${standings.length} timova.`);
+      return;
+    }
+
+    const ok = safeConfirm(
+      bracket.length
+        ? `Napraviti novu nokaut fazu za top ${n}? (postojeći bracket i rezultati se brišu)`
+        : `Promovisati top ${n} iz tabele u nokaut fazu?`
+    );
+    if (!ok) return;
+
+    setPromoting(true);
+    setBracketMsg(null);
+
+    try {
+      const seeded = standings.slice(0, n).map((s) => s.team_id);
+      const { error } = await adminApi("POST /knockout", {
+        tournamentId: activeTournamentId,
+        seeds: seeded,
+        legs: koLegs === "2" ? 2 : 1,
+      });
+      if (error) throw error;
+      setBracketMsg(`✅ Nokaut faza kreirana (top ${n}).`);
+      await loadBracketForTournament(activeTournamentId);
+    } catch (e) {
+      setBracketMsg("Greška: " + errorText(e));
+    } finally {
+      setPromoting(false);
+    }
+  }
+
+  async function resetKnockout() {
+    if (!can(role, "manage_schedule")) return;
+    if (!activeTournamentId) return;
+
+    const ok = safeConfirm("Obrisati nokaut fazu? (svi parovi i rezultati)");
+    if (!ok) return;
+
+    setBracketMsg(null);
+    try {
+      const { error } = await adminApi("DELETE /knockout", { tournamentId: activeTournamentId });
+      if (error) throw error;
+      setBracketMsg("✅ Nokaut faza obrisana.");
+      await loadBracketForTournament(activeTournamentId);
+    } catch (e) {
+      setBracketMsg("Greška: " + errorText(e));
+    }
+  }
+
+  function startEditTie(t: KnockoutTieRow) {
+    const v = (n: number | null) => (n === null ? "" : String(n));
+    setEditingTieId(t.id);
+    setTieForm({
+      leg1_home: v(t.leg1_home),
+      leg1_away: v(t.leg1_away),
+      leg2_home: v(t.leg2_home),
+      leg2_away: v(t.leg2_away),
+      et_home: v(t.et_home),
+      et_away: v(t.et_away),
+      pen_home: v(t.pen_home),
+      pen_away: v(t.pen_away),
+    });
+  }
+
+  async function saveTie(tieId: string) {
+    if (!can(role, "enter_results")) return;
+    if (!activeTournamentId) return;
+
+    const n = (v: string) => (v.trim() === "" ? null : Number(v));
+    const result: TieResult = {
+      leg1_home: n(tieForm.leg1_home),
+      leg1_away: n(tieForm.leg1_away),
+      leg2_home: n(tieForm.leg2_home),
+      leg2_away: n(tieForm.leg2_away),
+      et_home: n(tieForm.et_home),
+      et_away: n(tieForm.et_away),
+      pen_home: n(tieForm.pen_home),
+      pen_away: n(tieForm.pen_away),
+    };
+
+    setSavingTieId(tieId);
+    setBracketMsg(null);
+
+    try {
+      const { data, error } = await adminApi("PATCH /knockout", {
+        tournamentId: activeTournamentId,
+        tieId,
+        result,
+      });
+      if (error || !data) throw error;
+      const { outcome } = data;
+      setEditingTieId(null);
+      setTieForm(EMPTY_TIE_FORM);
+      if (outcome.needs === "extra_time") setBracketMsg("Nerešeno posle regularnog dela – upiši produžetke.");
+      else if (outcome.needs === "penalties") setBracketMsg("Nerešeno posle produžetaka – upiši penale.");
+      await Promise.all([loadBracketForTournament(activeTournamentId), loadTournaments()]);
+    } catch (e) {
+      setBracketMsg("Greška pri čuvanju veze: " + errorText(e));
+    } finally {
+      setSavingTieId(null);
+    }
+  }
+
+  function renderTieActions(t: KnockoutTieRow) {
+    if (!can(role, "enter_results")) return null;
+    if (!t.home_team_id || !t.away_team_id) return null;
+
+    if (editingTieId !== t.id) {
+      return (
+        <div className="pl-row" style={{ marginTop: 6 }}>
+          <Button variant="ghost" onClick={() => startEditTie(t)}>
+            {tieOutcome(t).winner ? "Izmeni" : "Upiši rezultat"}
+          </Button>
+        </div>
+      );
+    }
 
-    await loadMatches(activeTournamentId);
+    const field = (key: keyof TieResult, placeholder: string) => (
+      <Input
+        value={tieForm[key]}
+        onChange={(e) => setTieForm((prev) => ({ ...prev, [key]: clampInt(e.target.value, 0, 99) }))}
+        placeholder={placeholder}
+        inputMode="numeric"
+        className="pl-mini"
+      />
+    );
+
+    return (
+      <div className="pl-stack" style={{ marginTop: 6 }}>
+        <div className="pl-row">
+          <span className="pl-muted">1. meč</span>
+          {field("leg1_home", "D")}
+          <span className="pl-muted">:</span>
+          {field("leg1_away", "G")}
+        </div>
+        {t.legs === 2 && (
+          <div className="pl-row">
+            <span className="pl-muted">Revanš</span>
+            {field("leg2_home", "D")}
+            <span className="pl-muted">:</span>
+            {field("leg2_away", "G")}
+          </div>
+        )}
+        <div className="pl-row">
+          <span className="pl-muted">Produžeci</span>
+          {field("et_home", "D")}
+          <span className="pl-muted">:</span>
+          {field("et_away", "G")}
+        </div>
+        <div className="pl-row">
+          <span className="pl-muted">Penali</span>
+          {field("pen_home", "D")}
+          <span className="pl-muted">:</span>
+          {field("pen_away", "G")}
+        </div>
+        <div className="pl-row">
+          <Button onClick={() => saveTie(t.id)} disabled={savingTieId === t.id}>
+            {savingTieId === t.id ? "Čuvam..." : "Sačuvaj"}
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setEditingTieId(null);
+              setTieForm(EMPTY_TIE_FORM);
+            }}
+          >
+            Otkaži
+          </Button>
+        </div>
+      </div>
+    );
   }
 
   /* =========================
@@ -1721,6 +2622,7 @@ async function inviteAllPlayers() {
         await loadPlayers();
         await loadTeams();
         await loadTournaments();
+        await loadInviteList(r ?? null);
 
         setLoading(false);
       } catch (e: any) {
@@ -1739,8 +2641,10 @@ async function inviteAllPlayers() {
     Promise.all([
       loadMatches(activeTournamentId),
       loadTournamentPlayers(activeTournamentId),
+      loadRosterForTournament(activeTournamentId),
       loadTournamentTeams(activeTournamentId),
       loadFixturesForTournament(activeTournamentId),
+      loadBracketForTournament(activeTournamentId),
     ]);
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTournamentId]);
@@ -1751,78 +2655,174 @@ async function inviteAllPlayers() {
     window.localStorage.setItem("activeTournamentId", activeTournamentId);
   }, [activeTournamentId]);
 
+  // uživo: promene drugih admina / sudija se uklapaju u state (bez Refresh)
+  useEffect(() => {
+    if (!activeTournamentId) return;
+    return subscribeToTournament(
+      supabase,
+      activeTournamentId,
+      ["matches", "match_events", "tournament_players", "tournament_teams", "fixtures"],
+      (batch) => {
+        setMatches((prev) =>
+          reconcileRows(
+            prev,
+            batch.matches,
+            activeTournamentId,
+            (a, b) =>
+              (a.round ?? Infinity) - (b.round ?? Infinity) || (a.created_at ?? "").localeCompare(b.created_at ?? "")
+          )
+        );
+        setMatchEvents((prev) => reconcileRows(prev, batch.match_events, activeTournamentId));
+        setTournamentPlayers((prev) => reconcileRows(prev, batch.tournament_players, activeTournamentId));
+        setTournamentTeams((prev) => reconcileRows(prev, batch.tournament_teams, activeTournamentId));
+        setFixtures((prev) =>
+          reconcileRows(
+            prev,
+            batch.fixtures,
+            activeTournamentId,
+            (a, b) => a.round_number - b.round_number || a.match_number - b.match_number
+          )
+        );
+      }
+    );
+  }, [activeTournamentId]);
+
+  // prošli timovi igrača iz rostera (ograničenje "bez prošlog tima")
+  useEffect(() => {
+    if (!activeTournamentId || !can(role, "run_draw")) return;
+    loadPreviousTeams(supabase, activeTournamentId, roster.map((r) => r.player_email))
+      .then(setPreviousTeams)
+      .catch(() => setPreviousTeams({}));
+  }, [activeTournamentId, roster, role]);
+
+  // QR za kod prijave aktivnog turnira (/join/<kod>); star QR se ne prikazuje dok se novi ne napravi
+  const joinCode = activeTournament?.join_code ?? null;
+  useEffect(() => {
+    if (!joinCode) return;
+    let cancelled = false;
+    const link = joinCodeLink(window.location.origin, joinCode);
+    QRCode.toDataURL(link, { margin: 1, width: 220 })
+      .then((dataUrl) => {
+        if (!cancelled) setJoinQr({ code: joinCode, link, dataUrl });
+      })
+      .catch(() => null);
+    return () => {
+      cancelled = true;
+    };
+  }, [joinCode]);
+  const joinQrShown = joinQr && joinQr.code === joinCode ? joinQr : null;
+
   /* =========================
      STANDINGS
      ========================= */
 
-  const standings: StandingRow[] = useMemo(() => {
-    const tourTeamIds = new Set(tournamentTeams.map((x) => x.team_id));
-    const map = new Map<string, StandingRow>();
-
-    for (const teamId of tourTeamIds) {
-      const t = teamById.get(teamId);
-      map.set(teamId, {
-        team_id: teamId,
-        team_name: t?.name ?? teamId,
-        played: 0,
-        wins: 0,
-        draws: 0,
-        losses: 0,
-        gf: 0,
-        ga: 0,
-        gd: 0,
-        pts: 0,
-      });
-    }
+  const isSwiss = activeTournament?.format === "swiss";
 
-    for (const m of matches) {
-      if (!m.home_team_id || !m.away_team_id) continue;
-      if (!isPlayed(m)) continue;
-      if (m.player1_score === null || m.player2_score === null) continue;
-
-      const home = map.get(m.home_team_id);
-      const away = map.get(m.away_team_id);
-      if (!home || !away) continue;
-
-      home.played += 1;
-      away.played += 1;
-
-      home.gf += m.player1_score;
-      home.ga += m.player2_score;
-
-      away.gf += m.player2_score;
-      away.ga += m.player1_score;
-
-      if (m.player1_score > m.player2_score) {
-        home.wins += 1;
-        away.losses += 1;
-        home.pts += 3;
-      } else if (m.player1_score < m.player2_score) {
-        away.wins += 1;
-        home.losses += 1;
-        away.pts += 3;
-      } else {
-        home.draws += 1;
-        away.draws += 1;
-        home.pts += 1;
-        away.pts += 1;
-      }
-    }
+  const tiebreakers = useMemo(
+    () =>
+      parseTiebreakers(
+        activeTournament?.tiebreakers,
+        activeTournament?.format === "swiss" ? SWISS_TIEBREAKERS : undefined
+      ),
+    [activeTournament]
+  );
 
-    const list = Array.from(map.values()).map((r) => ({ ...r, gd: r.gf - r.ga }));
-    list.sort((a, b) => {
-      if (b.pts !== a.pts) return b.pts - a.pts;
-      if (b.gd !== a.gd) return b.gd - a.gd;
-      return b.gf - a.gf;
-    });
+  const standings: StandingRow[] = useMemo(
+    () =>
+      computeStandings(matches, tournamentTeams, {
+        teamName: (id) => teamById.get(id)?.name,
+        tiebreakers,
+        lots: activeTournament?.tiebreak_lots,
+      }),
+    [matches, tournamentTeams, teamById, tiebreakers, activeTournament]
+  );
+
+  const openTies = useMemo(() => unresolvedTies(standings), [standings]);
+
+  const isGroupFormat = activeTournament?.format === "groups_knockout";
+  const groupCount = activeTournament?.group_count ?? 2;
+  const advancePerGroup = activeTournament?.advance_per_group ?? 2;
+
+  const groups = useMemo(
+    () =>
+      isGroupFormat
+        ? groupTables(matches, tournamentTeams, {
+            teamName: (id) => teamById.get(id)?.name,
+            tiebreakers,
+            lots: activeTournament?.tiebreak_lots,
+          })
+        : [],
+    [isGroupFormat, matches, tournamentTeams, teamById, tiebreakers, activeTournament]
+  );
+
+  const tbRules =
+    tbDraft && tbDraft.tournamentId === activeTournamentId
+      ? tbDraft.rules
+      : tiebreakers;
 
-    return list;
-  }, [matches, tournamentTeams, teamById]);
+  function editTbRules(next: TiebreakerRule[]) {
+    if (!activeTournamentId) return;
+    setTbDraft({ tournamentId: activeTournamentId, rules: next });
+  }
+
+  function moveTbRule(idx: number, dir: -1 | 1) {
+    const next = [...tbRules];
+    const j = idx + dir;
+    if (j < 0 || j >= next.length) return;
+    [next[idx], next[j]] = [next[j], next[idx]];
+    editTbRules(next);
+  }
 
   /* =========================
      RENDER HELPERS
      ========================= */
 
+  function renderStandingsTable(rows: StandingRow[]) {
+    return (
+      <div className="pl-table">
+        <div className={cx("pl-tr pl-th", isSwiss && "pl-tr-swiss")}>
+          <div>#</div>
+          <div>Tim</div>
+          <div className="r">P</div>
+          <div className="r">W</div>
+          <div className="r">D</div>
+          <div className="r">L</div>
+          {isSwiss && <div className="r" title="Buchholz">BH</div>}
+          {isSwiss && <div className="r" title="Sonneborn-Berger">SB</div>}
+          <div className="r">PTS</div>
+        </div>
+
+        {rows.map((s, idx) => {
+          const isMine = myTeamId && s.team_id === myTeamId;
+          return (
+            <div key={s.team_id} className={cx("pl-tr", isSwiss && "pl-tr-swiss", isMine && "pl-tr-mine")}>
+              <div className="pl-muted">{idx + 1}</div>
+              <div className={cx("b", isMine && "pl-mine")}>
+                {s.team_name}
+                {s.tiebreak ? (
+                  <span className="pl-tb" title={TIEBREAKER_LABELS[s.tiebreak]}>
+                    {TIEBREAKER_SHORT[s.tiebreak]}
+                  </span>
+                ) : s.tied ? (
+                  <span className="pl-tb pl-tb-open" title="Nerešeno posle svih pravila">
+                    =
+                  </span>
+                ) : null}
+              </div>
+              <div className="r">{s.played}</div>
+              <div className="r">{s.wins}</div>
+              <div className="r">{s.draws}</div>
+              <div className="r">{s.losses}</div>
+              {isSwiss && <div className="r">{s.buchholz}</div>}
+              {isSwiss && <div className="r">{s.sb}</div>}
+              <div className="r b">{s.pts}</div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
   function renderMatchRow(m: MatchRow) {
     const homeTeam = m.home_team_id ? teamById.get(m.home_team_id) : null;
     const awayTeam = m.away_team_id ? teamById.get(m.away_team_id) : null;
@@ -1834,13 +2834,16 @@ async function inviteAllPlayers() {
     const awayOwnerName = awayOwnerEmail ? (playerByEmail.get(awayOwnerEmail)?.name ?? awayOwnerEmail) : "—";
 
     const isEditing = editingMatchId === m.id;
+    const events = eventsByMatchId.get(m.id) ?? [];
+    const homeGoals = goalLine(events, "home");
+    const awayGoals = goalLine(events, "away");
 
     const scoreText =
       m.player1_score === null || m.player2_score === null
         ? "— : —"
         : `${m.player1_score} : ${m.player2_score}`;
 
-    return (
+    const row = (
       <div key={m.id} className="pl-item">
         <div className="pl-item-main">
           <div className="pl-row" style={{ flexWrap: "wrap" }}>
@@ -1877,7 +2880,7 @@ async function inviteAllPlayers() {
                 ) : (
                   <span className="pl-dot" />
                 )}
-                {awayTeam ? awayTeam.name : m.away_team_id ?? "—"}
+                {awayTeam ? awayTeam.name : m.away_team_id ?? "BYE"}
               </span>
             </div>
           </div>
@@ -1885,7 +2888,22 @@ async function inviteAllPlayers() {
           <div className="pl-item-sub">
             Igrači: <b>{homeOwnerName}</b> vs <b>{awayOwnerName}</b> •{" "}
             <span className="pl-muted">{isPlayed(m) ? "odigrano" : "nije odigrano"}</span>
+            {hasOpenSubmission(m) && m.result_status ? (
+              <>
+                {" "}
+                • prijavio <b>{playerByEmail.get(m.reported_by ?? "")?.name ?? m.reported_by ?? "—"}</b>,{" "}
+                <Pill tone={m.result_status === "disputed" ? "warn" : "muted"}>
+                  {RESULT_STATUS_LABELS[m.result_status]}
+                </Pill>
+                {m.dispute_note ? <> „{m.dispute_note}“</> : null}
+              </>
+            ) : null}
           </div>
+          {homeGoals || awayGoals ? (
+            <div className="pl-item-sub">
+              ⚽ {homeGoals || "—"} | {awayGoals || "—"}
+            </div>
+          ) : null}
         </div>
 
         <div className="pl-item-actions">
@@ -1893,20 +2911,19 @@ async function inviteAllPlayers() {
             <div className="pl-row">
               <div className="pl-score">{scoreText}</div>
 
-              {isAdmin(role) && (
+              {can(role, "enter_results") && m.away_team_id && (
                 <>
-                  <Button
-                    variant="ghost"
-                    onClick={() => {
-                      setEditingMatchId(m.id);
-                      setEditHomeGoals(m.player1_score === null ? "" : String(m.player1_score));
-                      setEditAwayGoals(m.player2_score === null ? "" : String(m.player2_score));
-                    }}
-                  >
+                  <Button variant="ghost" onClick={() => startEditMatch(m)}>
                     Upiši rezultat
                   </Button>
 
-                  {isPlayed(m) && (
+                  {hasOpenSubmission(m) && (
+                    <Button onClick={() => acceptSubmittedResult(m)} disabled={savingMatchId === m.id}>
+                      Prihvati
+                    </Button>
+                  )}
+
+                  {(isPlayed(m) || hasOpenSubmission(m)) && (
                     <Button variant="ghost" onClick={() => clearMatchResult(m.id)}>
                       Obriši
                     </Button>
@@ -1936,14 +2953,7 @@ async function inviteAllPlayers() {
                 {savingMatchId === m.id ? "Čuvam..." : "Sačuvaj"}
               </Button>
 
-              <Button
-                variant="outline"
-                onClick={() => {
-                  setEditingMatchId(null);
-                  setEditHomeGoals("");
-                  setEditAwayGoals("");
-                }}
-              >
+              <Button variant="outline" onClick={cancelEditMatch}>
                 Otkaži
               </Button>
             </div>
@@ -1951,6 +2961,21 @@ async function inviteAllPlayers() {
         </div>
       </div>
     );
+
+    if (!isEditing) return row;
+    return (
+      <React.Fragment key={m.id}>
+        {row}
+        <MatchDetailsEditor
+          homeName={homeTeam?.name ?? "Domaćin"}
+          awayName={awayTeam?.name ?? "Gost"}
+          events={editEvents}
+          onEventsChange={setEditEvents}
+          stats={editStats}
+          onStatsChange={setEditStats}
+        />
+      </React.Fragment>
+    );
   }
 
   /* =========================
@@ -1981,7 +3006,7 @@ async function inviteAllPlayers() {
           <div>
             <div className="pl-title">PES League</div>
             <div className="pl-sub">
-              Uloga: <b>{role ?? "—"}</b>
+              Uloga: <b>{role ? ROLE_LABELS[role] : "—"}</b>
               {myEmail ? (
                 <>
                   {" "}
@@ -2014,14 +3039,14 @@ async function inviteAllPlayers() {
                 <Pill tone="warn">nema aktivnog</Pill>
               )}
 
-              {isAdmin(role) && activeTournamentId && (
-                <Pill tone={rosterLocked ? "ok" : "warn"}>
-                  {rosterLocked ? "Roster: LOCK" : "Roster: UNLOCK"}
+              {activeTournamentId && (
+                <Pill tone={tournamentStatus === "draft" ? "warn" : tournamentStatus === "finished" ? "muted" : "ok"}>
+                  {STATUS_LABELS[tournamentStatus]}
                 </Pill>
               )}
             </div>
 
-            {!isAdmin(role) && (
+            {!can(role, "view_all_matches") && (
               <div className="pl-sub" style={{ marginTop: 10 }}>
                 Moj tim: <b>{myTeam?.name ?? "—"}</b>
               </div>
@@ -2029,6 +3054,7 @@ async function inviteAllPlayers() {
           </div>
 
           <div className="pl-row">
+            <Button variant="outline" onClick={() => router.push("/ratings")}>Rang lista</Button>
             <Button onClick={refreshAll}>Refresh</Button>
             <Button
               variant="outline"
@@ -2048,7 +3074,7 @@ async function inviteAllPlayers() {
           </Card>
         )}
 
-        {!isAdmin(role) && (
+        {!can(role, "view_all_matches") && (
           <Card
             title={
               <div>
@@ -2111,7 +3137,7 @@ async function inviteAllPlayers() {
           </Card>
         )}
 
-        {isAdmin(role) && (
+        {can(role, "manage_players") && (
           <Card
             title={<div className="pl-sec-title">Admin panel</div>}
             right={
@@ -2131,32 +3157,40 @@ async function inviteAllPlayers() {
                   disabled={
                     invitingAll ||
                     !activeTournamentId ||
-                    players.filter((p) => p.role === "player").length === 0
+                    roster.length === 0
                   }
-                  title={!activeTournamentId ? "Izaberi aktivni turnir prvo" : "Šalje invite svim playerima"}
+                  title={!activeTournamentId ? "Izaberi aktivni turnir prvo" : "Šalje invite svim igračima iz rostera"}
                 >
                   {invitingAll ? "Šaljem..." : "Invite svima"}
                 </Button>
 
-                {!rosterLocked ? (
+                {tournamentStatus === "draft" ? (
                   <Button
                     variant="solid"
                     onClick={lockRoster}
-                    disabled={!activeTournamentId}
+                    disabled={!activeTournamentId || statusBusy}
                     title={!activeTournamentId ? "Izaberi turnir" : "Zaključaj roster pa tek onda radi žreb"}
                   >
                     Lock roster
                   </Button>
-                ) : (
+                ) : tournamentStatus === "roster_locked" ? (
                   <Button
                     variant="outline"
                     onClick={unlockRoster}
-                    disabled={!activeTournamentId}
-                    title="Otključaj roster (oprez)"
+                    disabled={statusBusy}
+                    title="Otključaj roster (moguće samo pre žreba)"
                   >
                     Unlock
                   </Button>
-                )}
+                ) : tournamentStatus === "in_progress" ? (
+                  <Button variant="outline" onClick={finishTournament} disabled={statusBusy}>
+                    Završi turnir
+                  </Button>
+                ) : tournamentStatus === "finished" ? (
+                  <Button variant="outline" onClick={reopenTournament} disabled={statusBusy}>
+                    Ponovo otvori
+                  </Button>
+                ) : null}
               </div>
             }
           >
@@ -2178,6 +3212,38 @@ async function inviteAllPlayers() {
             </div>
             {pMsg && <Msg text={pMsg} />}
             {inviteMsg && <Msg text={inviteMsg} />}
+
+            {inviteReport && inviteReport.length > 0 ? (
+              <div className="pl-table">
+                <div className="pl-tr pl-tr-invites pl-th">
+                  <div>Email</div>
+                  <div>Status</div>
+                  <div>Greška</div>
+                </div>
+                {inviteReport.map((r) => (
+                  <div key={r.email} className="pl-tr pl-tr-invites">
+                    <div className="b">{playerByEmail.get(r.email)?.name ?? r.email}</div>
+                    <div>
+                      <Pill tone={r.ok ? "ok" : "warn"}>
+                        {r.ok ? (r.method === "magic_link" ? "Magic link" : "Poslato") : "Neuspelo"}
+                      </Pill>
+                    </div>
+                    <div className="pl-muted">{r.error ?? ""}</div>
+                  </div>
+                ))}
+              </div>
+            ) : null}
+
+            {inviteReport && inviteReport.some((r) => !r.ok) ? (
+              <div className="pl-row">
+                <Button variant="outline" onClick={retryFailedInvites} disabled={invitingAll}>
+                  {invitingAll ? "Šaljem..." : `Ponovi neuspele (${inviteReport.filter((r) => !r.ok).length})`}
+                </Button>
+                <Button variant="ghost" onClick={() => setInviteReport(null)} disabled={invitingAll}>
+                  Zatvori izveštaj
+                </Button>
+              </div>
+            ) : null}
             <Hint>
               Invite radi preko <b>/api/admin/invite</b> (server).
               Env: <b>SUPABASE_SERVICE_ROLE_KEY</b> + Auth Redirect URL.
@@ -2185,7 +3251,7 @@ async function inviteAllPlayers() {
           </Card>
         )}
 
-        {isAdmin(role) && (
+        {can(role, "manage_tournaments") && (
           <Card title={<div className="pl-sec-title">Kreiraj turnir</div>}>
             <div className="pl-form">
               <Input
@@ -2199,6 +3265,17 @@ async function inviteAllPlayers() {
                 onChange={(e) => setTDate(e.target.value)}
                 className="pl-date"
               />
+              <Select
+                value={tFormat}
+                onChange={(e) => setTFormat(e.target.value as TournamentFormat)}
+                className="pl-date"
+              >
+                {(Object.keys(FORMAT_LABELS) as TournamentFormat[]).map((f) => (
+                  <option key={f} value={f}>
+                    {FORMAT_LABELS[f]}
+                  </option>
+                ))}
+              </Select>
               <Button onClick={createTournament} disabled={savingTournament}>
                 {savingTournament ? "Kreiram..." : "Kreiraj"}
               </Button>
@@ -2265,7 +3342,7 @@ async function inviteAllPlayers() {
                     <div className="pl-item-actions">
                       {isActive && <Pill tone="ok">aktivni</Pill>}
 
-                      {isAdmin(role) && !isEditing && (
+                      {can(role, "manage_tournaments") && !isEditing && (
                         <>
                           <Button
                             variant="ghost"
@@ -2309,7 +3386,7 @@ async function inviteAllPlayers() {
           {teamsMsg && <Msg text={teamsMsg} />}
           {ttMsg && <Msg text={ttMsg} />}
 
-          {isAdmin(role) && (
+          {can(role, "manage_tournaments") && (
             <div className="pl-form">
               <Select
                 value={teamToAddId}
@@ -2356,26 +3433,176 @@ async function inviteAllPlayers() {
                         ) : (
                           <div className="pl-avatar" />
                         )}
-                        <div>
-                          <div className="pl-item-title">{team ? team.name : row.team_id}</div>
-                          <div className="pl-item-sub">
-                            Igrač: <b>{ownerName ?? "—"}</b>
-                          </div>
-                        </div>
+                        <div>
+                          <div className="pl-item-title">{team ? team.name : row.team_id}</div>
+                          <div className="pl-item-sub">
+                            Igrač: <b>{ownerName ?? "—"}</b>
+                            {team?.rating != null ? <> • Rejting {team.rating}</> : null}
+                            {isGroupFormat && row.group_label ? <> • Grupa {row.group_label}</> : null}
+                          </div>
+                        </div>
+                      </div>
+                    </div>
+
+                    {can(role, "manage_tournaments") && (
+                      <div className="pl-item-actions">
+                        {isGroupFormat && (
+                          <Select
+                            value={row.pot === null ? "" : String(row.pot)}
+                            onChange={(e) => setTeamPot(row.id, e.target.value ? Number(e.target.value) : null)}
+                            className="pl-select-round"
+                          >
+                            <option value="">Bez šešira</option>
+                            {[1, 2, 3, 4].map((n) => (
+                              <option key={n} value={String(n)}>{`Šešir ${n}`}</option>
+                            ))}
+                          </Select>
+                        )}
+                        <Button variant="ghost" onClick={() => removeTeamFromTournament(row.id)}>
+                          Remove
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
+        <Card
+          title={
+            <div>
+              <div className="pl-sec-title">Roster turnira</div>
+              <div className="pl-sec-sub">
+                Prijavljeni igrači ({roster.length})
+                {pendingRoster.length > 0 ? ` + ${pendingRoster.length} čeka odobrenje` : ""} • prijave otvorene dok je
+                turnir u pripremi
+              </div>
+            </div>
+          }
+          right={
+            can(role, "manage_players") && activeTournamentId ? (
+              <Button variant="outline" onClick={copyJoinLink}>
+                🔗 Link za prijavu
+              </Button>
+            ) : null
+          }
+        >
+          {rosterMsg && <Msg text={rosterMsg} />}
+
+          {!activeTournamentId ? (
+            <Hint>Izaberi aktivni turnir.</Hint>
+          ) : (
+            <>
+              {can(role, "manage_players") && tournamentStatus === "draft" ? (
+                <div className="pl-form">
+                  <Select value={rosterToAdd} onChange={(e) => setRosterToAdd(e.target.value)}>
+                    <option value="">Dodaj igrača u roster...</option>
+                    {playersOutsideRoster.map((p) => (
+                      <option key={p.email} value={p.email}>
+                        {p.name ?? p.email}
+                      </option>
+                    ))}
+                  </Select>
+                  <Button
+                    onClick={() => addToTournamentRoster([rosterToAdd])}
+                    disabled={rosterBusy || !rosterToAdd}
+                  >
+                    Dodaj
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => addToTournamentRoster(playersOutsideRoster.map((p) => p.email))}
+                    disabled={rosterBusy || playersOutsideRoster.length === 0}
+                  >
+                    Dodaj sve ({playersOutsideRoster.length})
+                  </Button>
+                </div>
+              ) : tournamentStatus !== "draft" ? (
+                <Hint>Roster je zaključan ({STATUS_LABELS[tournamentStatus]}).</Hint>
+              ) : null}
+
+              {can(role, "manage_players") && tournamentStatus === "draft" ? (
+                <div className="pl-join">
+                  {joinQrShown ? (
+                    // eslint-disable-next-line @next/next/no-img-element
+                    <img className="pl-join-qr" src={joinQrShown.dataUrl} alt={`QR: ${joinQrShown.link}`} />
+                  ) : null}
+                  <div className="pl-join-main">
+                    <div className="pl-muted">Kod za prijavu (telefon: skeniraj QR)</div>
+                    <div className="pl-join-code">{joinCode ?? "—"}</div>
+                    {joinQrShown ? <div className="pl-item-sub">{joinQrShown.link}</div> : null}
+                    <div className="pl-row">
+                      <Button variant="outline" onClick={regenerateJoinCode} disabled={rosterBusy}>
+                        {joinCode ? "Novi kod" : "Napravi kod"}
+                      </Button>
+                      {can(role, "manage_tournaments") ? (
+                        <label className="pl-check" title="Samostalne prijave čekaju odobrenje admina">
+                          <input
+                            type="checkbox"
+                            checked={Boolean(activeTournament?.join_restricted)}
+                            onChange={(e) => toggleJoinRestricted(e.target.checked)}
+                          />
+                          Prijava uz odobrenje
+                        </label>
+                      ) : null}
+                    </div>
+                  </div>
+                </div>
+              ) : null}
+
+              {pendingRoster.length > 0 ? (
+                <div className="pl-list">
+                  {pendingRoster.map((r) => (
+                    <div key={r.id} className="pl-item">
+                      <div className="pl-item-main">
+                        <div className="pl-item-title">{playerByEmail.get(r.player_email)?.name ?? r.player_email}</div>
+                        <div className="pl-item-sub">{r.player_email}</div>
+                      </div>
+                      <div className="pl-item-actions">
+                        <Pill tone="warn">čeka odobrenje</Pill>
+                        {can(role, "manage_players") && tournamentStatus === "draft" && (
+                          <>
+                            <Button variant="outline" onClick={() => approveRegistration(r.player_email)}>
+                              Odobri
+                            </Button>
+                            <Button variant="ghost" onClick={() => removeFromTournamentRoster(r.player_email)}>
+                              Odbij
+                            </Button>
+                          </>
+                        )}
                       </div>
                     </div>
+                  ))}
+                </div>
+              ) : null}
 
-                    {isAdmin(role) && (
+              {rosterPlayers.length === 0 ? (
+                <Hint>Niko još nije prijavljen.</Hint>
+              ) : (
+                <div className="pl-list">
+                  {rosterPlayers.map((r) => (
+                    <div key={r.id} className="pl-item">
+                      <div className="pl-item-main">
+                        <div className="pl-item-title">{r.name ?? r.player_email}</div>
+                        <div className="pl-item-sub">{r.player_email}</div>
+                      </div>
                       <div className="pl-item-actions">
-                        <Button variant="ghost" onClick={() => removeTeamFromTournament(row.id)}>
-                          Remove
-                        </Button>
+                        <Pill tone={r.source === "self" ? "ok" : "muted"}>
+                          {r.source === "self" ? "sam se prijavio" : "admin"}
+                        </Pill>
+                        {can(role, "manage_players") && tournamentStatus === "draft" && (
+                          <Button variant="ghost" onClick={() => removeFromTournamentRoster(r.player_email)}>
+                            Ukloni
+                          </Button>
+                        )}
                       </div>
-                    )}
-                  </div>
-                );
-              })}
-            </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </>
           )}
         </Card>
 
@@ -2385,20 +3612,41 @@ async function inviteAllPlayers() {
               <div className="pl-sec-title">Žreb timova</div>
               <div className="pl-sec-sub">
                 SAFE FLOW: Invite → Lock roster → Žreb
+                {latestDraw && tournamentPlayers.length > 0 ? (
+                  <>
+                    {" "}
+                    • {DRAW_MODE_LABELS[latestDraw.mode]} • seed <code>{latestDraw.seed}</code>
+                  </>
+                ) : null}
               </div>
             </div>
           }
           right={
-            isAdmin(role) ? (
+            can(role, "run_draw") ? (
               <div className="pl-row">
                 <Button
                   onClick={drawTeamsForTournament}
-                  disabled={drawing || !activeTournamentId || !rosterLocked}
+                  disabled={
+                    drawing ||
+                    !activeTournamentId ||
+                    !rosterLocked ||
+                    (drawMode === "snake" && snakeOrder.some((email) => !snakePicks[email]))
+                  }
                   title={!rosterLocked ? "Prvo Lock roster" : "Izvrši žreb"}
                 >
                   {drawing ? "Izvlačim..." : "🎲 Izvrši žreb"}
                 </Button>
-                <Button variant="outline" onClick={resetDraw} disabled={!activeTournamentId}>
+                {latestDraw && (tournamentPlayers.length > 0 || ceremonyInProgress(latestDraw)) ? (
+                  <Button variant="outline" onClick={() => setCeremonyOpen(true)}>
+                    🎬 Ceremonija
+                  </Button>
+                ) : null}
+                <Button
+                  variant="outline"
+                  onClick={resetDraw}
+                  disabled={!activeTournamentId || statusAtLeast(tournamentStatus, "scheduled")}
+                  title={statusAtLeast(tournamentStatus, "scheduled") ? "Prvo Reset schedule" : undefined}
+                >
                   Reset žreba
                 </Button>
               </div>
@@ -2407,12 +3655,107 @@ async function inviteAllPlayers() {
         >
           {tpMsg && <Msg text={tpMsg} />}
 
-          {!rosterLocked && isAdmin(role) && activeTournamentId ? (
+          {!rosterLocked && can(role, "run_draw") && activeTournamentId ? (
             <Hint>
               Pre žreba: pošalji invite svima i klikni <b>Lock roster</b>.
             </Hint>
           ) : null}
 
+          {can(role, "run_draw") && activeTournamentId && rosterLocked && !statusAtLeast(tournamentStatus, "scheduled") ? (
+            <div className="pl-stack">
+              <div className="pl-form">
+                <Select value={drawMode} onChange={(e) => changeDrawMode(parseDrawMode(e.target.value) ?? "random")}>
+                  {DRAW_MODES.map((m) => (
+                    <option key={m} value={m}>
+                      {DRAW_MODE_LABELS[m]}
+                    </option>
+                  ))}
+                </Select>
+                <Input
+                  value={drawSeed}
+                  onChange={(e) => {
+                    setDrawSeed(e.target.value);
+                    setSnakePicks({});
+                  }}
+                  placeholder="Seed (prazno = novi)"
+                />
+                <Button
+                  variant="ghost"
+                  onClick={() => {
+                    setDrawSeed(newSeed());
+                    setSnakePicks({});
+                  }}
+                >
+                  Novi seed
+                </Button>
+              </div>
+
+              <label className="pl-check">
+                <input type="checkbox" checked={avoidRepeat} onChange={(e) => setAvoidRepeat(e.target.checked)} />
+                Bez prošlog tima (niko ne dobija tim sa prošlog turnira)
+              </label>
+
+              <label className="pl-check">
+                <input type="checkbox" checked={useCeremony} onChange={(e) => setUseCeremony(e.target.checked)} />
+                Ceremonija uživo (parovi se otkrivaju jedan po jedan)
+              </label>
+
+              {drawMode === "pots" ? (
+                <Hint>
+                  Šeširi: ručni šešir tima ima prednost, ostali se rangiraju po rejtingu (šešir = broj igrača).
+                  Prvo se troši šešir 1.
+                </Hint>
+              ) : null}
+
+              {drawMode === "snake" && snakeOrder.length > 0 ? (
+                <div className="pl-list">
+                  {snakeOrder.map((email, idx) => {
+                    const takenBefore = new Set(
+                      snakeOrder.slice(0, idx).map((e) => snakePicks[e]).filter(Boolean)
+                    );
+                    const forbidden = avoidRepeat ? previousTeams[email] : undefined;
+                    const ready = snakeOrder.slice(0, idx).every((e) => snakePicks[e]);
+
+                    return (
+                      <div key={email} className="pl-item">
+                        <div className="pl-item-main">
+                          <div className="pl-item-title">
+                            #{idx + 1} {playerByEmail.get(email)?.name ?? email}
+                          </div>
+                          {forbidden ? (
+                            <div className="pl-item-sub">Prošli tim: {teamById.get(forbidden)?.name ?? forbidden}</div>
+                          ) : null}
+                        </div>
+                        <div className="pl-item-actions">
+                          <Select
+                            value={snakePicks[email] ?? ""}
+                            disabled={!ready}
+                            onChange={(e) => {
+                              // promena izbora poništava sve kasnije izbore
+                              const next: Record<string, string> = {};
+                              for (const prev of snakeOrder.slice(0, idx)) next[prev] = snakePicks[prev];
+                              if (e.target.value) next[email] = e.target.value;
+                              setSnakePicks(next);
+                            }}
+                          >
+                            <option value="">{ready ? "Bira tim..." : "Čeka red"}</option>
+                            {tournamentTeams
+                              .filter((t) => !takenBefore.has(t.team_id) && t.team_id !== forbidden)
+                              .map((t) => (
+                                <option key={t.team_id} value={t.team_id}>
+                                  {teamById.get(t.team_id)?.name ?? t.team_id}
+                                </option>
+                              ))}
+                          </Select>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : null}
+            </div>
+          ) : null}
+
           {tournamentPlayers.length === 0 ? (
             <Hint>Još nema žreba za ovaj turnir.</Hint>
           ) : (
@@ -2426,7 +3769,10 @@ async function inviteAllPlayers() {
                   <div key={tp.id} className="pl-item">
                     <div className="pl-item-main">
                       <div className="pl-item-title">{playerName}</div>
-                      <div className="pl-item-sub">{tp.player_email}</div>
+                      <div className="pl-item-sub">
+                        {tp.player_email}
+                        {tp.draw_note ? <> • {tp.draw_note}</> : null}
+                      </div>
                     </div>
                     <div className="pl-item-actions">
                       <div className="pl-row" style={{ gap: 10 }}>
@@ -2454,13 +3800,13 @@ async function inviteAllPlayers() {
 
         {activeTournamentId ? (
           <ScheduleCard
-            isAdminUser={isAdmin(role)}
+            canEdit={can(role, "manage_schedule")}
             tournamentId={activeTournamentId}
             teamOptions={tournamentTeamOptions}
             fixtures={fixtures}
             fixturesLoading={fixturesLoading}
             fixturesError={fixturesError}
-            onSaveRound1={handleSaveScheduleRound1}
+            onSaveSchedule={handleSaveSchedule}
             onResetFixtures={resetFixtures}
             onGenerateMatchesFromFixtures={generateMatchesFromFixtures}
           />
@@ -2470,13 +3816,30 @@ async function inviteAllPlayers() {
           </Card>
         )}
 
+        {can(role, "enter_results") && disputedMatches.length > 0 ? (
+          <Card
+            title={
+              <div>
+                <div className="pl-sec-title">Sporni rezultati</div>
+                <div className="pl-sec-sub">
+                  Igrač je osporio rezultat protivnika • Prihvati, upiši tačan rezultat ili obriši prijavu
+                </div>
+              </div>
+            }
+            right={<Pill tone="warn">{disputedMatches.length}</Pill>}
+          >
+            <div className="pl-list">{disputedMatches.map((m) => renderMatchRow(m))}</div>
+          </Card>
+        ) : null}
+
         <Card
           title={
             <div>
               <div className="pl-sec-title">Mečevi</div>
               <div className="pl-sec-sub">
-                Ukupno: <b>{isAdmin(role) ? matches.length : filteredVisibleMatches.length}</b>
-                {!isAdmin(role) ? <> (samo moji mečevi)</> : null}
+                Ukupno: <b>{can(role, "view_all_matches") ? matches.length : filteredVisibleMatches.length}</b>
+                {!can(role, "view_all_matches") ? <> (samo moji mečevi)</> : null}
+                {pendingResultCount > 0 ? <> • čeka potvrdu igrača: <b>{pendingResultCount}</b></> : null}
               </div>
             </div>
           }
@@ -2494,7 +3857,7 @@ async function inviteAllPlayers() {
                 ))}
               </Select>
 
-              {isAdmin(role) ? (
+              {can(role, "manage_schedule") ? (
                 <>
                   <label className="pl-check">
                     <input
@@ -2524,13 +3887,13 @@ async function inviteAllPlayers() {
           {!activeTournamentId ? <Hint>Izaberi aktivni turnir.</Hint> : null}
           {mMsg && <Msg text={mMsg} />}
 
-          {!isAdmin(role) && activeTournamentId && !myTeamId ? (
+          {!can(role, "view_all_matches") && activeTournamentId && !myTeamId ? (
             <Hint>Nemaš dodeljen tim u ovom turniru (ili još nema žreba).</Hint>
           ) : null}
 
-          {activeTournamentId && (isAdmin(role) ? matches.length : filteredVisibleMatches.length) > 0 ? (
+          {activeTournamentId && (can(role, "view_all_matches") ? matches.length : filteredVisibleMatches.length) > 0 ? (
             <div className="pl-list">
-              {(isAdmin(role) ? matches : filteredVisibleMatches)
+              {(can(role, "view_all_matches") ? matches : filteredVisibleMatches)
                 .filter((m) => {
                   if (roundFilter === "all") return true;
                   const rf = Number(roundFilter);
@@ -2541,7 +3904,7 @@ async function inviteAllPlayers() {
             </div>
           ) : null}
 
-          {!isAdmin(role) && activeTournamentId && filteredVisibleMatches.length === 0 ? (
+          {!can(role, "view_all_matches") && activeTournamentId && filteredVisibleMatches.length === 0 ? (
             <Hint>Nema mečeva za izabrani filter.</Hint>
           ) : null}
         </Card>
@@ -2558,42 +3921,333 @@ async function inviteAllPlayers() {
             <Hint>Izaberi aktivni turnir.</Hint>
           ) : tournamentTeams.length === 0 ? (
             <Hint>Dodaj timove u turnir prvo.</Hint>
+          ) : isGroupFormat && groups.length > 0 ? (
+            <div className="pl-stack">
+              {groups.map((g) => (
+                <div key={g.label}>
+                  <div className="pl-subtitle">Grupa {g.label}</div>
+                  {renderStandingsTable(g.rows)}
+                </div>
+              ))}
+            </div>
+          ) : (
+            renderStandingsTable(standings)
+          )}
+
+          {activeTournamentId && tournamentTeams.length > 0 ? (
+            <Hint>
+              Izjednačeni po bodovima: {tiebreakers.map((r) => TIEBREAKER_LABELS[r]).join(" → ") || "bez pravila"}
+              {openTies.length > 0 ? " • ima nerešenih (=)" : ""}
+            </Hint>
+          ) : null}
+
+          {can(role, "manage_tournaments") && activeTournamentId ? (
+            <div className="pl-col" style={{ marginTop: 12 }}>
+              <div className="pl-subtitle">Pravila za izjednačene (redom)</div>
+              <div className="pl-stack">
+                {tbRules.map((r, idx) => (
+                  <div key={r} className="pl-tb-rule">
+                    <span className="pl-muted">{idx + 1}.</span>
+                    <span className="b">{TIEBREAKER_LABELS[r]}</span>
+                    <div className="pl-row" style={{ marginLeft: "auto" }}>
+                      <Button variant="ghost" onClick={() => moveTbRule(idx, -1)} disabled={idx === 0}>
+                        ↑
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        onClick={() => moveTbRule(idx, 1)}
+                        disabled={idx === tbRules.length - 1}
+                      >
+                        ↓
+                      </Button>
+                      <Button variant="ghost" onClick={() => editTbRules(tbRules.filter((x) => x !== r))}>
+                        Ukloni
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+
+              <div className="pl-row" style={{ marginTop: 10 }}>
+                {ALL_TIEBREAKERS.filter((r) => !tbRules.includes(r)).map((r) => (
+                  <Button key={r} variant="outline" onClick={() => editTbRules([...tbRules, r])}>
+                    + {TIEBREAKER_LABELS[r]}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="pl-row" style={{ marginTop: 10 }}>
+                <Button
+                  onClick={saveTiebreakers}
+                  disabled={savingTb || structureLocked || tbDraft?.tournamentId !== activeTournamentId}
+                  title={structureLocked ? "Pravila se menjaju samo pre žreba" : undefined}
+                >
+                  {savingTb ? "Čuvam..." : "Sačuvaj pravila"}
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={recordCoinToss}
+                  disabled={openTies.length === 0}
+                  title={openTies.length === 0 ? "Nema nerešenih izjednačenja" : "Baci novčić za nerešene"}
+                >
+                  🪙 Baci novčić
+                </Button>
+              </div>
+
+              {tbMsg && <Msg text={tbMsg} />}
+            </div>
+          ) : null}
+        </Card>
+
+        <Card
+          title={
+            <div>
+              <div className="pl-sec-title">Strelci</div>
+              <div className="pl-sec-sub">
+                Zlatna kopačka • {scorerScope === "all" ? "svi turniri" : "ovaj turnir"} • klik na kolonu sortira
+              </div>
+            </div>
+          }
+          right={
+            <div className="pl-row" style={{ flexWrap: "wrap" }}>
+              <Select
+                value={scorerScope}
+                onChange={(e) => changeScorerScope(e.target.value === "all" ? "all" : "tournament")}
+                className="pl-select-round"
+              >
+                <option value="tournament">Ovaj turnir</option>
+                <option value="all">Svi turniri</option>
+              </Select>
+              <Select
+                value={scorerView}
+                onChange={(e) => setScorerView(e.target.value === "humans" ? "humans" : "footballers")}
+                className="pl-select-round"
+              >
+                <option value="footballers">Fudbaleri</option>
+                <option value="humans">Igrači</option>
+              </Select>
+            </div>
+          }
+        >
+          {scorersMsg && <Msg text={scorersMsg} />}
+
+          {scorerRows.length === 0 ? (
+            <Hint>Još nema upisanih strelaca (detalji meča uz rezultat).</Hint>
           ) : (
             <div className="pl-table">
-              <div className="pl-tr pl-th">
+              <div className="pl-tr pl-tr-scorers pl-th">
                 <div>#</div>
-                <div>Tim</div>
-                <div className="r">P</div>
-                <div className="r">W</div>
-                <div className="r">D</div>
-                <div className="r">L</div>
-                <div className="r">PTS</div>
+                {(["name", "goals", "assists", "total"] as const).map((col) => (
+                  <button
+                    key={col}
+                    className={cx("pl-th-sort", col !== "name" && "r", scorerSort === col && "pl-th-active")}
+                    onClick={() => setScorerSort(col)}
+                  >
+                    {col === "name" ? (scorerView === "humans" ? "Igrač" : "Fudbaler") : SCORER_SORT_LABELS[col]}
+                    {scorerSort === col ? " ▾" : ""}
+                  </button>
+                ))}
               </div>
 
-              {standings.map((s, idx) => {
-                const isMine = myTeamId && s.team_id === myTeamId;
-                return (
-                  <div key={s.team_id} className={cx("pl-tr", isMine && "pl-tr-mine")}>
-                    <div className="pl-muted">{idx + 1}</div>
-                    <div className={cx("b", isMine && "pl-mine")}>{s.team_name}</div>
-                    <div className="r">{s.played}</div>
-                    <div className="r">{s.wins}</div>
-                    <div className="r">{s.draws}</div>
-                    <div className="r">{s.losses}</div>
-                    <div className="r b">{s.pts}</div>
+              {scorerRows.map((r, idx) => (
+                <div
+                  key={r.key}
+                  className={cx("pl-tr pl-tr-scorers", myEmail && r.owners.concat(r.key).includes(myEmail) && "pl-tr-mine")}
+                >
+                  <div className="pl-muted">{idx + 1}</div>
+                  <div>
+                    <span className="b">{scorerName(r)}</span>
+                    {scorerView === "footballers" && (r.team_ids.length > 0 || r.owners.length > 0) ? (
+                      <div className="pl-item-sub">
+                        {r.team_ids.map((id) => teamById.get(id)?.name ?? id).join(", ")}
+                        {r.owners.length > 0 ? (
+                          <> • {r.owners.map((e) => playerByEmail.get(e)?.name ?? e).join(", ")}</>
+                        ) : null}
+                      </div>
+                    ) : null}
                   </div>
-                );
-              })}
+                  <div className="r b">{r.goals}</div>
+                  <div className="r">{r.assists}</div>
+                  <div className="r">{r.goals + r.assists}</div>
+                </div>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        {isSwiss ? (
+          <Card
+            title={
+              <div>
+                <div className="pl-sec-title">Swiss kola</div>
+                <div className="pl-sec-sub">
+                  Kolo {currentSwissRound(matches)} / preporuka {recommendedSwissRounds(tournamentTeams.length)} •
+                  parovi po bodovima, bez revanša
+                </div>
+              </div>
+            }
+            right={
+              can(role, "manage_schedule") ? (
+                <Button
+                  onClick={generateNextSwissRound}
+                  disabled={generating || tournamentTeams.length < 2}
+                  title="Novo kolo tek kad su svi rezultati prethodnog upisani"
+                >
+                  {generating ? "Generišem..." : `Generiši kolo ${currentSwissRound(matches) + 1}`}
+                </Button>
+              ) : null
+            }
+          >
+            {swissMsg && <Msg text={swissMsg} />}
+            <Hint>
+              Neparan broj timova → BYE (pobeda bez golova) najslabije rangiranom timu koji ga još nije imao.
+              Tabela: bodovi → {tiebreakers.map((r) => TIEBREAKER_SHORT[r]).join(" → ")}.
+            </Hint>
+          </Card>
+        ) : null}
+
+        {isGroupFormat ? (
+          <Card
+            title={
+              <div>
+                <div className="pl-sec-title">Grupe</div>
+                <div className="pl-sec-sub">
+                  Žreb po šeširima → round robin u grupi → top {advancePerGroup} u nokaut
+                </div>
+              </div>
+            }
+            right={
+              can(role, "manage_tournaments") ? (
+                <div className="pl-row" style={{ flexWrap: "wrap" }}>
+                  <Select
+                    value={String(groupCount)}
+                    onChange={(e) => updateGroupSettings({ group_count: Number(e.target.value) })}
+                    className="pl-select-round"
+                    disabled={structureLocked}
+                  >
+                    {GROUP_LABELS.map((_, i) => i + 1)
+                      .filter((n) => n >= 2)
+                      .map((n) => (
+                        <option key={n} value={String(n)}>{`${n} grupe`}</option>
+                      ))}
+                  </Select>
+                  <Select
+                    value={String(advancePerGroup)}
+                    onChange={(e) => updateGroupSettings({ advance_per_group: Number(e.target.value) })}
+                    className="pl-select-round"
+                    disabled={structureLocked}
+                  >
+                    {[1, 2, 3, 4].map((n) => (
+                      <option key={n} value={String(n)}>{`Prolazi ${n}`}</option>
+                    ))}
+                  </Select>
+                </div>
+              ) : null
+            }
+          >
+            {groupMsg && <Msg text={groupMsg} />}
+
+            {can(role, "manage_schedule") && (
+              <div className="pl-row" style={{ flexWrap: "wrap" }}>
+                <Button onClick={drawGroupsForTournament} disabled={groupBusy || tournamentTeams.length < 4}>
+                  🎲 Žreb grupa
+                </Button>
+                <Button
+                  variant="outline"
+                  onClick={generateGroupMatches}
+                  disabled={groupBusy || groups.length === 0 || matches.length > 0}
+                >
+                  Generiši mečeve u grupama
+                </Button>
+                <Button variant="outline" onClick={advanceGroupsToKnockout} disabled={groupBusy || groups.length === 0}>
+                  Prebaci u nokaut
+                </Button>
+              </div>
+            )}
+
+            {groups.length === 0 ? (
+              <Hint>Grupe još nisu izvučene. Podesi šešire u „Timovi za turnir“ pa klikni Žreb grupa.</Hint>
+            ) : (
+              <div className="pl-grid" style={{ marginTop: 10 }}>
+                {groups.map((g) => (
+                  <div key={g.label} className="pl-col">
+                    <div className="pl-subtitle">Grupa {g.label}</div>
+                    <div className="pl-stack">
+                      {g.rows.map((r, idx) => (
+                        <div key={r.team_id} className="pl-line">
+                          <span className="pl-muted">{idx + 1}.</span> <b>{r.team_name}</b>
+                          {idx < advancePerGroup ? <span className="pl-tb">prolazi</span> : null}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        ) : null}
+
+        <Card
+          title={
+            <div>
+              <div className="pl-sec-title">Nokaut faza</div>
+              <div className="pl-sec-sub">Top N iz tabele → single-elimination bracket</div>
             </div>
+          }
+          right={
+            can(role, "manage_schedule") && activeTournamentId ? (
+              <div className="pl-row" style={{ flexWrap: "wrap" }}>
+                <Select value={koSize} onChange={(e) => setKoSize(e.target.value)} className="pl-select-round">
+                  {BRACKET_SIZES.filter((n) => n <= Math.max(2, standings.length)).map((n) => (
+                    <option key={n} value={String(n)}>{`Top ${n}`}</option>
+                  ))}
+                </Select>
+                <Select
+                  value={koLegs}
+                  onChange={(e) => setKoLegs(e.target.value === "2" ? "2" : "1")}
+                  className="pl-select-round"
+                >
+                  <option value="1">1 meč</option>
+                  <option value="2">2 meča (revanš)</option>
+                </Select>
+                <Button onClick={promoteToKnockout} disabled={promoting || standings.length < 2}>
+                  {promoting ? "Kreiram..." : "Promoviši top N"}
+                </Button>
+                {bracket.length > 0 && (
+                  <Button variant="outline" onClick={resetKnockout}>
+                    Reset
+                  </Button>
+                )}
+              </div>
+            ) : null
+          }
+        >
+          {bracketMsg && <Msg text={bracketMsg} />}
+
+          {!activeTournamentId ? (
+            <Hint>Izaberi aktivni turnir.</Hint>
+          ) : bracket.length === 0 ? (
+            <Hint>Nokaut faza još nije kreirana.</Hint>
+          ) : (
+            <BracketTree
+              ties={bracket}
+              teamName={(id) => (id ? teamById.get(id)?.name ?? id : "—")}
+              highlightTeamId={myTeamId}
+              renderActions={renderTieActions}
+            />
           )}
+
+          {can(role, "enter_results") && bracket.length > 0 ? (
+            <Hint>Finale je uvek jedan meč. Nerešeno → produžeci → penali.</Hint>
+          ) : null}
         </Card>
 
         <Card
           title={<div className="pl-sec-title">Igrači</div>}
           right={
-            isAdmin(role) ? (
+            can(role, "send_invites") ? (
               <Pill tone="muted">
-                Invite: {invitingEmail ? `šaljem ${invitingEmail}` : "spreman"}
+                Invite: {invitingAll ? "šaljem roster" : invitingEmail ? `šaljem ${invitingEmail}` : "spreman"}
               </Pill>
             ) : null
           }
@@ -2606,6 +4260,8 @@ async function inviteAllPlayers() {
             <div className="pl-list">
               {players.map((p) => {
                 const isMe = myEmail && p.email === myEmail;
+                const invite = inviteByEmail.get(p.email) ?? null;
+                const invState = invite ? inviteStatus(invite) : null;
                 return (
                   <div key={p.email} className={cx("pl-item", isMe && "pl-item-me")}>
                     <div className="pl-item-main">
@@ -2613,12 +4269,26 @@ async function inviteAllPlayers() {
                         {p.name ?? "(bez imena)"} {isMe ? <span className="pl-me-tag">• ja</span> : null}
                       </div>
                       <div className="pl-item-sub">{p.email}</div>
+                      {invite && can(role, "send_invites") ? (
+                        <div className="pl-item-sub">
+                          {invite.method === "magic_link" ? "Magic link" : "Invite"} •{" "}
+                          {(invite.accepted_at ?? invite.sent_at).slice(0, 16).replace("T", " ")}
+                          {invite.send_count > 1 ? ` • poslato ${invite.send_count}×` : ""}
+                          {invite.invited_by ? ` • ${invite.invited_by}` : ""}
+                        </div>
+                      ) : null}
                     </div>
 
                     <div className="pl-item-actions">
-                      <Pill tone={p.role === "admin" ? "ok" : "muted"}>{p.role}</Pill>
+                      <Pill tone={atLeast(parseRole(p.role), "admin") ? "ok" : "muted"}>{p.role}</Pill>
 
-                      {isAdmin(role) && p.role === "player" && (
+                      {invState && can(role, "send_invites") ? (
+                        <Pill tone={invState === "accepted" ? "ok" : invState === "pending" ? "muted" : "warn"}>
+                          {INVITE_STATUS_LABELS[invState]}
+                        </Pill>
+                      ) : null}
+
+                      {can(role, "send_invites") && p.role === "player" && invState !== "accepted" && (
                         <Button
                           variant="outline"
                           disabled={invitingAll || invitingEmail === p.email || !activeTournamentId}
@@ -2626,9 +4296,23 @@ async function inviteAllPlayers() {
                             e.stopPropagation?.();
                             invitePlayer(p.email);
                           }}
-                          title={!activeTournamentId ? "Izaberi aktivni turnir prvo" : "Pošalji magic link invite na email"}
+                          title={!activeTournamentId ? "Izaberi aktivni turnir prvo" : "Pošalji invite (postojeći nalog dobija magic link)"}
+                        >
+                          {invitingEmail === p.email ? "Šaljem..." : invite ? "Pošalji ponovo" : "Invite"}
+                        </Button>
+                      )}
+
+                      {can(role, "send_invites") && invite && (invState === "pending" || invState === "expired") && (
+                        <Button
+                          variant="ghost"
+                          disabled={revokingId === invite.id}
+                          onClick={(e) => {
+                            e.stopPropagation?.();
+                            revokePlayerInvite(invite);
+                          }}
+                          title="Pozivnica više ne važi kod nas (link iz emaila Supabase ne poništava)"
                         >
-                          {invitingEmail === p.email ? "Šaljem..." : "Invite"}
+                          {revokingId === invite.id ? "..." : "Opozovi"}
                         </Button>
                       )}
                     </div>
@@ -2641,6 +4325,42 @@ async function inviteAllPlayers() {
 
         <div className="pl-footer">Sledeće: BYE, yearly stats, export CSV.</div>
 
+        {ceremonyOpen && latestDraw ? (
+          <DrawCeremony
+            record={latestDraw}
+            playerName={(email) => playerByEmail.get(email)?.name ?? email}
+            team={(id) => teamById.get(id) ?? null}
+            onClose={() => setCeremonyOpen(false)}
+            controls={
+              can(role, "run_draw") ? (
+                <>
+                  <Button
+                    onClick={() => revealDrawTo(latestDraw.revealed + 1)}
+                    disabled={revealBusy || latestDraw.revealed >= drawSize(latestDraw)}
+                  >
+                    Otkrij sledeći
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => revealDrawTo(drawSize(latestDraw))}
+                    disabled={revealBusy || latestDraw.revealed >= drawSize(latestDraw)}
+                  >
+                    Otkrij sve
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    onClick={() => revealDrawTo(0)}
+                    // posle poslednjeg para žreb je upisan; ponovo se gleda samo iz zapisa
+                    disabled={revealBusy || latestDraw.revealed === 0 || Boolean(latestDraw.seed)}
+                  >
+                    Ispočetka
+                  </Button>
+                </>
+              ) : null
+            }
+          />
+        ) : null}
+
         <GlobalStyles />
       </div>
     </ErrorBoundary>
@@ -2977,6 +4697,16 @@ body {
 
       .pl-check { display: inline-flex; gap: 8px; align-items: center; color: var(--muted); font-size: 13px; }
 
+      .pl-join { display: flex; gap: 14px; align-items: center; flex-wrap: wrap; padding: 12px; border: 1px dashed var(--bd2); border-radius: 14px; background: rgba(0, 0, 0, 0.12); }
+      .pl-join-qr { width: 140px; height: 140px; border-radius: 10px; background: #fff; padding: 6px; }
+      .pl-join-main { display: grid; gap: 6px; min-width: 0; }
+      .pl-join-code { font-size: 28px; font-weight: 900; letter-spacing: 4px; font-family: ui-monospace, monospace; }
+
+      .pl-details { display: grid; gap: 8px; padding: 12px; margin-top: -4px; border: 1px dashed var(--bd2); border-radius: 14px; background: rgba(0, 0, 0, 0.16); }
+      .pl-details-title { font-weight: 900; font-size: 13px; color: var(--muted); }
+      .pl-details-row { display: flex; gap: 8px; align-items: center; flex-wrap: wrap; }
+      .pl-details-stats { display: flex; gap: 10px; align-items: center; flex-wrap: wrap; font-size: 13px; }
+
       .pl-match { display: inline-flex; gap: 10px; align-items: center; flex-wrap: wrap; }
       .pl-team { display: inline-flex; gap: 8px; align-items: center; font-weight: 900; }
 
@@ -2996,13 +4726,72 @@ body {
         border-top: 1px solid rgba(255, 255, 255, 0.08);
         background: rgba(0, 0, 0, 0.06);
       }
+      .pl-tr-swiss { grid-template-columns: 34px 1fr 40px 40px 40px 40px 44px 44px 56px; }
       .pl-tr-mine { background: var(--mine); border-top-color: rgba(124, 255, 194, 0.16); }
+      .pl-tr-scorers { grid-template-columns: 34px 1fr 64px 64px 52px; }
+      .pl-tr-invites { grid-template-columns: 1.2fr 110px 1fr; }
+      .pl-th-sort { background: none; border: none; padding: 0; color: inherit; font: inherit; cursor: pointer; }
+      .pl-th-active { color: var(--txt); font-weight: 900; }
+
+      .pl-tb {
+        margin-left: 8px;
+        font-size: 10px;
+        font-weight: 800;
+        padding: 2px 6px;
+        border-radius: 999px;
+        border: 1px solid rgba(255, 255, 255, 0.16);
+        color: var(--muted);
+        vertical-align: middle;
+      }
+      .pl-tb-open { color: var(--warn); border-color: rgba(255, 211, 124, 0.28); }
+
+      .pl-tb-rule {
+        display: flex;
+        gap: 10px;
+        align-items: center;
+        padding: 8px 10px;
+        border: 1px solid rgba(255, 255, 255, 0.10);
+        border-radius: 12px;
+        background: rgba(0, 0, 0, 0.08);
+      }
       .pl-mine { color: rgba(124, 255, 194, 0.95); }
       .pl-th { border-top: none; background: rgba(255, 255, 255, 0.06); color: var(--muted); font-size: 13px; }
 
       .r { text-align: right; }
       .b { font-weight: 900; }
 
+      .pl-bracket {
+        display: grid;
+        grid-auto-flow: column;
+        grid-auto-columns: minmax(200px, 1fr);
+        gap: 14px;
+        overflow-x: auto;
+        padding-bottom: 6px;
+      }
+      .pl-bracket-col { display: flex; flex-direction: column; min-width: 0; }
+      .pl-bracket-round { font-weight: 900; font-size: 12px; color: var(--muted); margin-bottom: 10px; text-transform: uppercase; }
+      .pl-bracket-ties { display: flex; flex-direction: column; justify-content: space-around; gap: 12px; flex: 1; }
+      .pl-bracket-tie {
+        padding: 8px;
+        border: 1px solid rgba(255, 255, 255, 0.10);
+        border-radius: 12px;
+        background: rgba(0, 0, 0, 0.10);
+      }
+      .pl-bracket-team {
+        display: grid;
+        grid-template-columns: 18px 1fr auto;
+        gap: 8px;
+        align-items: center;
+        padding: 4px 2px;
+        color: var(--muted);
+      }
+      .pl-bracket-win { color: var(--txt); font-weight: 900; }
+      .pl-bracket-mine .pl-bracket-name { color: rgba(124, 255, 194, 0.95); }
+      .pl-bracket-seed { font-size: 11px; color: var(--muted2); }
+      .pl-bracket-name { overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+      .pl-bracket-score { display: inline-flex; gap: 8px; font-weight: 900; }
+      .pl-bracket-note { margin-top: 4px; font-size: 11px; color: var(--muted); min-height: 0; }
+
       .pl-footer { margin: 14px 0 22px; color: var(--muted); font-size: 13px; text-align: center; }
     `}</style>
   );
@@ -0,0 +1,551 @@
+"use client";
+
+/**
+ * HEAD-TO-HEAD (PES League)
+ * - /h2h?a=<email>&b=<email> – međusobni duel dva igrača kroz sve turnire
+ * - W/D/L i golovi iz ugla igrača A, lista svih mečeva
+ * - linkovi sa player strane (žreb, tabela)
+ */
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabase";
+import { h2hHref, loadHeadToHead } from "@/lib/h2h";
+
+/* =========================
+   UI PRIMITIVES
+   ========================= */
+
+function cx(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function Card({
+  title,
+  right,
+  children,
+}: {
+  title?: React.ReactNode;
+  right?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="pl-card">
+      {(title || right) && (
+        <div className="pl-card-h">
+          <div className="pl-card-title">{title}</div>
+          <div>{right}</div>
+        </div>
+      )}
+      <div className="pl-card-b">{children}</div>
+    </section>
+  );
+}
+
+function Select({
+  value,
+  onChange,
+  children,
+}: {
+  value: string;
+  onChange: React.ChangeEventHandler<HTMLSelectElement>;
+  children: React.ReactNode;
+}) {
+  return (
+    <select value={value} onChange={onChange} className="pl-select">
+      {children}
+    </select>
+  );
+}
+
+function Pill({
+  children,
+  tone = "muted",
+}: {
+  children: React.ReactNode;
+  tone?: "muted" | "ok" | "warn";
+}) {
+  return (
+    <span
+      className={cx(
+        "pl-pill",
+        tone === "ok" && "pl-pill-ok",
+        tone === "warn" && "pl-pill-warn"
+      )}
+    >
+      {children}
+    </span>
+  );
+}
+
+function Hint({ children }: { children: React.ReactNode }) {
+  return <p className="pl-hint">{children}</p>;
+}
+
+function Msg({ text }: { text: string }) {
+  const isErr = text.toLowerCase().startsWith("greška");
+  return <p className={cx("pl-msg", isErr && "pl-msg-err")}>{text}</p>;
+}
+
+/* =========================
+   TYPES
+   ========================= */
+
+type PlayerRow = { email: string; name: string | null };
+type TournamentRow = { id: string; name: string; date: string | null };
+type TeamRow = { id: string; name: string };
+type H2H = Awaited<ReturnType<typeof loadHeadToHead>>;
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return "(bez datuma)";
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr);
+  if (!m) return dateStr;
+  return `${m[3]}.${m[2]}.${m[1]}`;
+}
+
+/* =========================
+   PAGE
+   ========================= */
+
+export default function HeadToHeadPage() {
+  const router = useRouter();
+
+  const [players, setPlayers] = useState<PlayerRow[]>([]);
+  const [tournaments, setTournaments] = useState<TournamentRow[]>([]);
+  const [teams, setTeams] = useState<TeamRow[]>([]);
+
+  const [emailA, setEmailA] = useState("");
+  const [emailB, setEmailB] = useState("");
+  const [h2h, setH2h] = useState<H2H | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const nameOf = useMemo(() => {
+    const m = new Map(players.map((p) => [p.email.toLowerCase(), p.name]));
+    return (email: string) => m.get(email.toLowerCase()) || email;
+  }, [players]);
+
+  const tournamentById = useMemo(
+    () => new Map(tournaments.map((t) => [t.id, t])),
+    [tournaments]
+  );
+  const teamById = useMemo(() => new Map(teams.map((t) => [t.id, t])), [teams]);
+
+  useEffect(() => {
+    const run = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+
+      const sp = new URLSearchParams(window.location.search);
+      choose(sp.get("a") ?? data.session.user.email?.toLowerCase() ?? "", sp.get("b") ?? "");
+
+      const [p, t, tm] = await Promise.all([
+        supabase.from("players").select("email, name").order("name", { ascending: true }),
+        supabase.from("tournaments").select("id, name, date"),
+        supabase.from("teams").select("id, name"),
+      ]);
+      if (p.error || t.error || tm.error) {
+        setMsg("Greška pri učitavanju: " + (p.error ?? t.error ?? tm.error)?.message);
+        return;
+      }
+      setPlayers((p.data ?? []) as PlayerRow[]);
+      setTournaments((t.data ?? []) as TournamentRow[]);
+      setTeams((tm.data ?? []) as TeamRow[]);
+    };
+
+    run();
+  }, [router]);
+
+  const requestRef = useRef(0);
+
+  async function choose(a: string, b: string) {
+    setEmailA(a);
+    setEmailB(b);
+    setH2h(null);
+    setMsg(null);
+    if (!a || !b || a === b) return;
+
+    // link ostaje deljiv (?a=&b=)
+    window.history.replaceState(null, "", h2hHref(a, b));
+
+    const request = ++requestRef.current;
+    setBusy(true);
+    try {
+      const res = await loadHeadToHead(supabase, a, b);
+      if (request === requestRef.current) setH2h(res);
+    } catch (e: unknown) {
+      if (request === requestRef.current) setMsg("Greška: " + (e instanceof Error ? e.message : String(e)));
+    } finally {
+      if (request === requestRef.current) setBusy(false);
+    }
+  }
+
+  const stats = h2h?.stats ?? null;
+  const games = h2h ? [...h2h.games].reverse() : [];
+
+  return (
+    <div className="pl-wrap">
+      <div className="pl-bg-base" aria-hidden="true" />
+
+      <div className="pl-content">
+        <div className="pl-hero">
+          <div className="pl-hero-top">
+            <div>
+              <div className="pl-brand">MEĐUSOBNI DUEL</div>
+              <div className="pl-brand-sub">Svi turniri • iz ugla prvog igrača</div>
+            </div>
+            <button className="pl-btn pl-btn-outline" onClick={() => router.push("/player")}>
+              ← Nazad
+            </button>
+          </div>
+
+          <div className="pl-h2h-pick">
+            <Select value={emailA} onChange={(e) => choose(e.target.value, emailB === e.target.value ? "" : emailB)}>
+              <option value="">Izaberi igrača…</option>
+              {players.map((p) => (
+                <option key={p.email} value={p.email.toLowerCase()}>
+                  {p.name || p.email}
+                </option>
+              ))}
+            </Select>
+            <span className="pl-muted b">vs</span>
+            <Select value={emailB} onChange={(e) => choose(emailA, e.target.value)}>
+              <option value="">Izaberi protivnika…</option>
+              {players
+                .filter((p) => p.email.toLowerCase() !== emailA)
+                .map((p) => (
+                  <option key={p.email} value={p.email.toLowerCase()}>
+                    {p.name || p.email}
+                  </option>
+                ))}
+            </Select>
+          </div>
+        </div>
+
+        {msg && <Msg text={msg} />}
+
+        <Card
+          title={
+            <div>
+              <div className="pl-sec-title">Učinak</div>
+              <div className="pl-sec-sub">
+                {emailA && emailB ? `${nameOf(emailA)} protiv ${nameOf(emailB)}` : "Izaberi dva igrača"}
+              </div>
+            </div>
+          }
+          right={busy ? <Pill tone="muted">učitavanje…</Pill> : null}
+        >
+          {!stats ? (
+            <Hint>Izaberi oba igrača.</Hint>
+          ) : stats.played === 0 ? (
+            <Hint>Još nema međusobnih mečeva.</Hint>
+          ) : (
+            <>
+              <div className="pl-h2h-score">
+                <div>
+                  <div className="pl-h2h-num">{stats.wins}</div>
+                  <div className="pl-muted">{nameOf(emailA)}</div>
+                </div>
+                <div>
+                  <div className="pl-h2h-num pl-muted">{stats.draws}</div>
+                  <div className="pl-muted">nerešeno</div>
+                </div>
+                <div>
+                  <div className="pl-h2h-num">{stats.losses}</div>
+                  <div className="pl-muted">{nameOf(emailB)}</div>
+                </div>
+              </div>
+
+              <div className="pl-row" style={{ gap: 10, flexWrap: "wrap", marginTop: 12 }}>
+                <Pill tone="muted">Mečeva: {stats.played}</Pill>
+                <Pill tone="muted">
+                  Golovi: {stats.gf}:{stats.ga}
+                </Pill>
+                <Pill tone="ok">Pobede: {stats.winPct}%</Pill>
+                {stats.biggestWin ? (
+                  <Pill tone="muted">
+                    Najveća pobeda: {stats.biggestWin.gf}:{stats.biggestWin.ga}
+                  </Pill>
+                ) : null}
+              </div>
+            </>
+          )}
+        </Card>
+
+        <Card
+          title={
+            <div>
+              <div className="pl-sec-title">Mečevi</div>
+              <div className="pl-sec-sub">Najnoviji prvi</div>
+            </div>
+          }
+        >
+          {games.length === 0 ? (
+            <Hint>Nema mečeva.</Hint>
+          ) : (
+            <div className="pl-list">
+              {games.map((g) => {
+                const t = tournamentById.get(g.tournament_id);
+                return (
+                  <div key={g.match_id} className="pl-item">
+                    <div style={{ minWidth: 0 }}>
+                      <div className="pl-item-title">
+                        {teamById.get(g.team_id ?? "")?.name ?? "—"} –{" "}
+                        {teamById.get(g.opponent_team_id ?? "")?.name ?? "—"}
+                      </div>
+                      <div className="pl-item-sub">
+                        {t ? `${t.name} • ${formatDate(t.date)}` : formatDate(g.played_at)}
+                      </div>
+                    </div>
+                    <div className={cx("pl-h2h-result", `pl-h2h-${g.outcome}`)}>
+                      {g.gf}:{g.ga}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </Card>
+
+        <div className="pl-footer">PES Liga • Head-to-head</div>
+      </div>
+
+      <GlobalStyles />
+    </div>
+  );
+}
+
+/* =========================
+   STYLES
+   ========================= */
+
+function GlobalStyles() {
+  return (
+    <style jsx global>{`
+      :root {
+        --bg: #0b0d12;
+        --card: rgba(255, 255, 255, 0.06);
+        --bd: rgba(255, 255, 255, 0.12);
+        --bd2: rgba(255, 255, 255, 0.16);
+        --txt: rgba(255, 255, 255, 0.92);
+        --muted: rgba(255, 255, 255, 0.68);
+        --ok: #7cffc2;
+        --warn: #ffd37c;
+        --danger: #ff7c9b;
+      }
+
+      body {
+        background: transparent !important;
+        color: var(--txt);
+      }
+
+      .pl-bg-base {
+        position: fixed;
+        inset: 0;
+        pointer-events: none;
+        background: var(--bg);
+        z-index: 0;
+      }
+      .pl-wrap {
+        position: relative;
+        padding: 18px;
+        max-width: 520px;
+        margin: 0 auto;
+        z-index: 0;
+      }
+      .pl-content {
+        position: relative;
+        z-index: 2;
+      }
+
+      .pl-hero {
+        border: 1px solid var(--bd);
+        border-radius: 18px;
+        background: linear-gradient(
+          180deg,
+          rgba(255, 255, 255, 0.08),
+          rgba(255, 255, 255, 0.03)
+        );
+        padding: 14px;
+        margin-bottom: 14px;
+      }
+      .pl-hero-top {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 12px;
+      }
+      .pl-brand {
+        font-weight: 950;
+        font-size: 22px;
+        letter-spacing: 0.6px;
+      }
+      .pl-brand-sub {
+        margin-top: 6px;
+        color: var(--muted);
+        font-size: 13px;
+      }
+
+      .pl-h2h-pick {
+        display: grid;
+        grid-template-columns: 1fr auto 1fr;
+        gap: 10px;
+        align-items: center;
+        margin-top: 12px;
+        padding-top: 12px;
+        border-top: 1px solid rgba(255, 255, 255, 0.08);
+      }
+      .pl-h2h-score {
+        display: grid;
+        grid-template-columns: 1fr 1fr 1fr;
+        text-align: center;
+        font-size: 12px;
+      }
+      .pl-h2h-num {
+        font-weight: 950;
+        font-size: 34px;
+      }
+      .pl-h2h-result {
+        font-weight: 950;
+        font-size: 18px;
+        white-space: nowrap;
+      }
+      .pl-h2h-W {
+        color: var(--ok);
+      }
+      .pl-h2h-L {
+        color: var(--danger);
+      }
+
+      .pl-card {
+        border: 1px solid var(--bd);
+        border-radius: 16px;
+        background: var(--card);
+        overflow: hidden;
+        margin-bottom: 14px;
+      }
+      .pl-card-h {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        padding: 12px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+      }
+      .pl-card-title {
+        font-weight: 900;
+      }
+      .pl-card-b {
+        padding: 14px;
+      }
+      .pl-sec-title {
+        font-weight: 950;
+        font-size: 15px;
+      }
+      .pl-sec-sub {
+        margin-top: 6px;
+        color: var(--muted);
+        font-size: 12px;
+      }
+      .pl-row {
+        display: flex;
+        gap: 10px;
+        align-items: center;
+      }
+      .pl-muted {
+        color: var(--muted);
+      }
+      .pl-select {
+        height: 40px;
+        padding: 0 12px;
+        border-radius: 12px;
+        border: 1px solid var(--bd2);
+        background: rgba(0, 0, 0, 0.18);
+        color: var(--txt);
+        outline: none;
+        min-width: 0;
+        width: 100%;
+      }
+      .pl-btn {
+        height: 40px;
+        padding: 0 12px;
+        border-radius: 12px;
+        border: 1px solid transparent;
+        cursor: pointer;
+        font-weight: 900;
+        color: var(--txt);
+        white-space: nowrap;
+      }
+      .pl-btn-outline {
+        background: transparent;
+        border-color: rgba(255, 255, 255, 0.18);
+      }
+      .pl-pill {
+        font-size: 12px;
+        padding: 5px 10px;
+        border-radius: 999px;
+        border: 1px solid rgba(255, 255, 255, 0.16);
+        color: var(--muted);
+        background: rgba(0, 0, 0, 0.12);
+      }
+      .pl-pill-ok {
+        color: var(--ok);
+        border-color: rgba(124, 255, 194, 0.28);
+      }
+      .pl-pill-warn {
+        color: var(--warn);
+        border-color: rgba(255, 211, 124, 0.28);
+      }
+      .pl-hint {
+        margin: 10px 0 0;
+        color: var(--muted);
+        font-size: 13px;
+      }
+      .pl-msg {
+        margin: 10px 0 0;
+        font-size: 13px;
+        color: var(--muted);
+      }
+      .pl-msg-err {
+        color: var(--danger);
+      }
+      .pl-list {
+        display: grid;
+        gap: 10px;
+      }
+      .pl-item {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        padding: 12px;
+        border: 1px solid rgba(255, 255, 255, 0.1);
+        border-radius: 14px;
+        background: rgba(0, 0, 0, 0.1);
+      }
+      .pl-item-title {
+        font-weight: 950;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .pl-item-sub {
+        margin-top: 4px;
+        color: var(--muted);
+        font-size: 13px;
+      }
+      .pl-footer {
+        margin: 14px 0 8px;
+        color: var(--muted);
+        font-size: 12px;
+        text-align: center;
+      }
+      .b {
+        font-weight: 950;
+      }
+    `}</style>
+  );
+}
@@ -0,0 +1,71 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { useParams, useRouter } from "next/navigation";
+import { authedRequest } from "@/lib/adminApi";
+
+type JoinResult = { ok: true; tournamentId: string; name: string; status: "approved" | "pending" };
+
+/**
+ * /join/<kod> (link ili QR sa dashboarda).
+ * proxy.ts prvo traži prijavu (?next= vraća ovde), pa se igrač odmah upisuje u roster
+ * i ide na /player?join=<id>; kod turnira sa odobrenjem ostaje ovde uz poruku da
+ * prijava čeka admina.
+ */
+export default function JoinPage() {
+  const router = useRouter();
+  const { code } = useParams<{ code: string }>();
+  const [msg, setMsg] = useState("Prijavljujem te na turnir...");
+  const [failed, setFailed] = useState(false);
+  const [pendingHref, setPendingHref] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function run() {
+      const { data, error } = await authedRequest<JoinResult>("/api/roster", "POST", { code });
+      if (cancelled) return;
+
+      if (error || !data) {
+        setFailed(true);
+        setMsg(error?.message ?? "Prijava nije uspela.");
+        return;
+      }
+
+      const target = `/player?join=${encodeURIComponent(data.tournamentId)}`;
+      if (data.status === "pending") {
+        setPendingHref(target);
+        setMsg(`Prijava za "${data.name}" je poslata i čeka odobrenje admina.`);
+        return;
+      }
+
+      setMsg(`✅ Prijavljen si na "${data.name}".`);
+      router.replace(target);
+    }
+
+    run();
+    return () => {
+      cancelled = true;
+    };
+  }, [code, router]);
+
+  return (
+    <div style={{ maxWidth: 420, margin: "40px auto", padding: 16 }}>
+      <h1 style={{ fontSize: 22, fontWeight: 900, marginBottom: 10 }}>Prijava na turnir</h1>
+      <div style={{ opacity: 0.8, marginBottom: 10 }}>
+        Kod: <b style={{ letterSpacing: 2 }}>{code}</b>
+      </div>
+
+      <p style={{ color: failed ? "crimson" : undefined }}>{failed ? "Greška: " + msg : msg}</p>
+
+      {failed || pendingHref ? (
+        <button
+          onClick={() => router.replace(pendingHref ?? "/player")}
+          style={{ padding: "10px 14px", borderRadius: 8, border: "1px solid #111", cursor: "pointer", marginTop: 12 }}
+        >
+          Na moju stranu
+        </button>
+      ) : null}
+    </div>
+  );
+}
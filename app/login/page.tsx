@@ -1,23 +1,62 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useRouter } from "next/navigation";
+import { safeNextPath } from "@/lib/redirects";
 import { supabase } from "@/lib/supabase";
 
+type Mode = "password" | "otp";
+
+const CALLBACK_ERRORS: Record<string, string> = {
+  no_session: "Link nije prijavio nalog (možda je istekao). Pošalji novi.",
+  callback: "Link za prijavu nije važeći ili je već iskorišćen.",
+  other_browser: "Link je otvoren u drugom browseru od onog u kom je zatražen. Zatraži novi ovde ili upiši kod.",
+};
+
+function nextPath() {
+  return safeNextPath(new URLSearchParams(window.location.search).get("next"), window.location.origin);
+}
+
 export default function LoginPage() {
   const router = useRouter();
+  const [mode, setMode] = useState<Mode>("password");
   const [email, setEmail] = useState("");
   const [password, setPassword] = useState("");
+  const [code, setCode] = useState("");
+  const [codeSent, setCodeSent] = useState(false);
   const [loading, setLoading] = useState(false);
   const [msg, setMsg] = useState<string | null>(null);
+  const [info, setInfo] = useState<string | null>(null);
+
+  useEffect(() => {
+    const err = new URLSearchParams(window.location.search).get("err");
+    if (err) setMsg(CALLBACK_ERRORS[err] ?? err);
+  }, []);
+
+  const cleanEmail = email.trim().toLowerCase();
+
+  function done() {
+    // proxy.ts šalje dalje po ulozi (igrač -> /player); ?next= vraća na traženu stranu
+    router.replace(nextPath() ?? "/dashboard");
+  }
 
-  async function handleLogin() {
+  async function run(action: () => Promise<void>) {
     setLoading(true);
     setMsg(null);
-
+    setInfo(null);
     try {
+      await action();
+    } catch (e: any) {
+      setMsg(e?.message || "Failed to fetch (network/config).");
+    } finally {
+      setLoading(false);
+    }
+  }
+
+  const handleLogin = () =>
+    run(async () => {
       const { data, error } = await supabase.auth.signInWithPassword({
-        email: email.trim().toLowerCase(),
+        email: cleanEmail,
         password,
       });
 
@@ -31,50 +70,196 @@ export default function LoginPage() {
         return;
       }
 
-      router.replace("/dashboard");
-    } catch (e: any) {
-      setMsg(e?.message || "Failed to fetch (network/config).");
-    } finally {
-      setLoading(false);
-    }
-  }
+      done();
+    });
+
+  /**
+   * Jedan email sadrži i magic link (ide na /auth/callback) i 6-cifreni kod.
+   * Nov nalog se pravi samo za prijavu na turnir kodom (next=/join/<kod>), i to na
+   * serveru: /api/join proverava kod i novom emailu šalje Supabase invite (samo link).
+   * Odavde se nalog nikad ne pravi.
+   */
+  const sendCode = () =>
+    run(async () => {
+      const callback = new URL("/auth/callback", window.location.origin);
+      const next = nextPath();
+      if (next) callback.searchParams.set("next", next);
+
+      const joinCode = next?.startsWith("/join/") ? new URL(next, window.location.origin).pathname.split("/")[2] : null;
+      if (joinCode) {
+        const res = await fetch("/api/join", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ email: cleanEmail, code: decodeURIComponent(joinCode) }),
+        });
+        const json = await res.json().catch(() => ({}));
+        if (!res.ok) {
+          setMsg(json?.error || `Prijava kodom nije uspela (${res.status}).`);
+          return;
+        }
+        if (json?.invited) {
+          setInfo("Poslali smo ti email: klikni na link da potvrdiš nalog i prijaviš se na turnir.");
+          return;
+        }
+      }
+
+      const { error } = await supabase.auth.signInWithOtp({
+        email: cleanEmail,
+        options: { emailRedirectTo: callback.toString(), shouldCreateUser: false },
+      });
+      if (error) {
+        setMsg(error.message);
+        return;
+      }
+
+      setCodeSent(true);
+      setInfo("Poslali smo ti email: klikni na link ili ovde upiši kod iz poruke.");
+    });
+
+  const verifyCode = () =>
+    run(async () => {
+      const { data, error } = await supabase.auth.verifyOtp({
+        email: cleanEmail,
+        token: code.trim(),
+        type: "email",
+      });
+      if (error) {
+        setMsg(error.message);
+        return;
+      }
+      if (!data.session) {
+        setMsg("Kod je prihvaćen, ali Auth nije vratio session.");
+        return;
+      }
+
+      done();
+    });
+
+  const forgotPassword = () =>
+    run(async () => {
+      const { error } = await supabase.auth.resetPasswordForEmail(cleanEmail, {
+        redirectTo: new URL("/reset", window.location.origin).toString(),
+      });
+      if (error) {
+        setMsg(error.message);
+        return;
+      }
+      setInfo("Poslali smo ti link za novu lozinku (otvara /reset).");
+    });
+
+  const inputStyle = { flex: 1, padding: 10, border: "1px solid #ddd", borderRadius: 8 };
+  const buttonStyle = (disabled: boolean) => ({
+    padding: "10px 14px",
+    borderRadius: 8,
+    border: "1px solid #111",
+    cursor: disabled ? "not-allowed" : "pointer",
+  });
+  const linkStyle = {
+    background: "none",
+    border: "none",
+    padding: 0,
+    textDecoration: "underline",
+    cursor: "pointer",
+    opacity: 0.8,
+    color: "inherit",
+    font: "inherit",
+  };
 
   return (
     <div style={{ maxWidth: 420, margin: "40px auto", padding: 16 }}>
       <h1 style={{ fontSize: 28, fontWeight: 700 }}>Login</h1>
-      <p style={{ opacity: 0.8, marginTop: 8 }}>Unesi email i lozinku za prijavu.</p>
+      <p style={{ opacity: 0.8, marginTop: 8 }}>
+        {mode === "password"
+          ? "Unesi email i lozinku za prijavu."
+          : "Bez lozinke: pošaljemo ti link i 6-cifreni kod na email. Ako si došao preko koda za turnir, nalog se pravi sam."}
+      </p>
+
+      <div style={{ display: "flex", gap: 8, marginTop: 16 }}>
+        {(["password", "otp"] as const).map((m) => (
+          <button
+            key={m}
+            onClick={() => {
+              setMode(m);
+              setMsg(null);
+              setInfo(null);
+            }}
+            style={{
+              ...buttonStyle(false),
+              flex: 1,
+              fontWeight: mode === m ? 700 : 400,
+              opacity: mode === m ? 1 : 0.6,
+            }}
+          >
+            {m === "password" ? "Lozinka" : "Link ili kod"}
+          </button>
+        ))}
+      </div>
 
       <div style={{ display: "flex", flexDirection: "column", gap: 10, marginTop: 16 }}>
         <input
           type="email"
           placeholder="tvoj@email.com"
           value={email}
-          onChange={(e) => setEmail(e.target.value)}
-          style={{ flex: 1, padding: 10, border: "1px solid #ddd", borderRadius: 8 }}
+          onChange={(e) => {
+            setEmail(e.target.value);
+            setCodeSent(false);
+          }}
+          style={inputStyle}
         />
 
-        <input
-          type="password"
-          placeholder="Lozinka"
-          value={password}
-          onChange={(e) => setPassword(e.target.value)}
-          style={{ flex: 1, padding: 10, border: "1px solid #ddd", borderRadius: 8 }}
-        />
+        {mode === "password" ? (
+          <>
+            <input
+              type="password"
+              placeholder="Lozinka"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              style={inputStyle}
+            />
 
-        <button
-          onClick={handleLogin}
-          disabled={!email || !password || loading}
-          style={{
-            padding: "10px 14px",
-            borderRadius: 8,
-            border: "1px solid #111",
-            cursor: !email || loading ? "not-allowed" : "pointer",
-          }}
-        >
-          {loading ? "Prijavljujem..." : "Prijavi se"}
-        </button>
+            <button
+              onClick={handleLogin}
+              disabled={!email || !password || loading}
+              style={buttonStyle(!email || loading)}
+            >
+              {loading ? "Prijavljujem..." : "Prijavi se"}
+            </button>
+
+            <button onClick={forgotPassword} disabled={!email || loading} style={{ ...linkStyle, alignSelf: "flex-start" }}>
+              Zaboravljena lozinka? (upiši email pa klikni)
+            </button>
+          </>
+        ) : (
+          <>
+            <button onClick={sendCode} disabled={!email || loading} style={buttonStyle(!email || loading)}>
+              {loading && !codeSent ? "Šaljem..." : codeSent ? "Pošalji ponovo" : "Pošalji link i kod"}
+            </button>
+
+            {codeSent ? (
+              <>
+                <input
+                  inputMode="numeric"
+                  autoComplete="one-time-code"
+                  placeholder="6-cifreni kod"
+                  maxLength={6}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value.replace(/\D/g, ""))}
+                  style={{ ...inputStyle, letterSpacing: 6, fontSize: 18 }}
+                />
+                <button
+                  onClick={verifyCode}
+                  disabled={code.length !== 6 || loading}
+                  style={buttonStyle(code.length !== 6 || loading)}
+                >
+                  {loading ? "Proveravam..." : "Prijavi se kodom"}
+                </button>
+              </>
+            ) : null}
+          </>
+        )}
       </div>
 
+      {info && <p style={{ marginTop: 12, opacity: 0.85 }}>{info}</p>}
       {msg && <p style={{ marginTop: 12, color: "crimson" }}>Greška: {msg}</p>}
     </div>
   );
@@ -17,6 +17,43 @@ import React, { useEffect, useMemo, useRef, useState } from "react";
 import { useRouter } from "next/navigation";
 import { supabase } from "@/lib/supabase";
 import { getRole } from "@/lib/getRole";
+import { can } from "@/lib/roles";
+import {
+  computeStandings,
+  isPlayed,
+  parseTiebreakers,
+  teamRecord,
+  TIEBREAKER_LABELS,
+  TIEBREAKER_SHORT,
+  type MatchRow,
+  type StandingRow,
+  type TiebreakerRule,
+} from "@/lib/standings";
+import { loadBracket, type KnockoutTieRow } from "@/lib/bracket";
+import { BracketTree } from "@/components/bracket-tree";
+import { groupTables } from "@/lib/groups";
+import type { TournamentFormat } from "@/lib/formats";
+import { SWISS_TIEBREAKERS } from "@/lib/swiss";
+import { inferStatus, parseStatus, STATUS_LABELS, type TournamentStatus } from "@/lib/lifecycle";
+import { isApproved, loadRoster, type RosterEntry } from "@/lib/roster";
+import { authedRequest } from "@/lib/adminApi";
+import {
+  ceremonyInProgress,
+  DRAW_MODE_LABELS,
+  drawSize,
+  loadLatestDraw,
+  subscribeToDraws,
+  verifyDraw,
+  type DrawRecord,
+} from "@/lib/draw";
+import { DrawCeremony } from "@/components/draw-ceremony";
+import { reconcileRows, subscribeToTournament } from "@/lib/realtime";
+import { awaitsMyConfirmation, RESULT_STATUS_LABELS, sideFromOwners } from "@/lib/results";
+import { eventsByMatch, goalLine, hasStats, loadMatchEvents, type MatchEvent } from "@/lib/events";
+import { buildTeamOwners, computeScorers, loadAllTimeScoring, sortScorers } from "@/lib/scorers";
+import { careerTotals, loadCareer, TROPHY_LABELS, type Career } from "@/lib/history";
+import { h2hHref } from "@/lib/h2h";
+import { computePlayerStats, STRENGTH_LABELS, winPct, type TeamStrength } from "@/lib/playerStats";
 
 /* =========================
    UI PRIMITIVES (NO DEPS)
@@ -148,44 +185,31 @@ function Msg({ text }: { text: string }) {
    ========================= */
 
 type PlayerRow = { email: string; name: string | null; role: string };
-type TournamentRow = { id: string; name: string; date: string | null };
+type TournamentRow = {
+  id: string;
+  name: string;
+  date: string | null;
+  tiebreakers: TiebreakerRule[] | null;
+  tiebreak_lots: string[] | null;
+  format: TournamentFormat | null;
+  status: TournamentStatus | null;
+};
 type TeamRow = { id: string; name: string; logo_url: string | null };
-type TournamentTeamRow = { id: string; tournament_id: string; team_id: string };
-type TournamentPlayerRow = {
+type TournamentTeamRow = {
   id: string;
   tournament_id: string;
-  player_email: string;
   team_id: string;
+  pot: number | null;
+  group_label: string | null;
 };
-type MatchRow = {
+type TournamentPlayerRow = {
   id: string;
   tournament_id: string;
-  round: number | null;
-  home_team_id: string | null;
-  away_team_id: string | null;
-  player1_email: string | null;
-  player2_email: string | null;
-  player1_score: number | null;
-  player2_score: number | null;
-  played_at: string | null;
-};
-
-type StandingRow = {
+  player_email: string;
   team_id: string;
-  team_name: string;
-  played: number;
-  wins: number;
-  draws: number;
-  losses: number;
-  gf: number;
-  ga: number;
-  gd: number;
-  pts: number;
+  draw_note: string | null;
 };
-
-function isPlayed(m: MatchRow) {
-  return Boolean(m.played_at);
-}
+const GOAL_OPTIONS = Array.from({ length: 16 }, (_, i) => i);
 
 function formatDate(dateStr: string | null) {
   if (!dateStr) return "(bez datuma)";
@@ -228,6 +252,33 @@ function PlayerPage() {
   const [tournamentPlayers, setTournamentPlayers] =
     useState<TournamentPlayerRow[]>([]);
   const [matches, setMatches] = useState<MatchRow[]>([]);
+  const [bracket, setBracket] = useState<KnockoutTieRow[]>([]);
+  const [roster, setRoster] = useState<RosterEntry[]>([]);
+  const [latestDraw, setLatestDraw] = useState<DrawRecord | null>(null);
+  const [drawCheck, setDrawCheck] = useState<string | null>(null);
+  const [ceremonyOpen, setCeremonyOpen] = useState(false);
+  const [matchEvents, setMatchEvents] = useState<MatchEvent[]>([]);
+  const [scorerScope, setScorerScope] = useState<"tournament" | "all">(
+    "tournament"
+  );
+  const [scorerView, setScorerView] = useState<"footballers" | "humans">(
+    "footballers"
+  );
+  const [allTimeScoring, setAllTimeScoring] =
+    useState<ReturnType<typeof computeScorers> | null>(null);
+  const [career, setCareer] = useState<Career | null>(null);
+  const [profileView, setProfileView] = useState<"career" | "tournament">(
+    "career"
+  );
+  const [careerOpenId, setCareerOpenId] = useState<string | null>(null);
+
+  const [reportingMatchId, setReportingMatchId] = useState<string | null>(null);
+  const [reportHome, setReportHome] = useState("0");
+  const [reportAway, setReportAway] = useState("0");
+  const [resultBusy, setResultBusy] = useState(false);
+  const [resultMsg, setResultMsg] = useState<string | null>(null);
+  const [joinBusy, setJoinBusy] = useState(false);
+  const [joinMsg, setJoinMsg] = useState<string | null>(null);
 
   const [msg, setMsg] = useState<string | null>(null);
 
@@ -245,18 +296,58 @@ function PlayerPage() {
     [tournaments, activeTournamentId]
   );
 
+  const tournamentStatus: TournamentStatus = useMemo(
+    () =>
+      parseStatus(activeTournament?.status) ??
+      inferStatus({
+        hasDraw: tournamentPlayers.length > 0,
+        hasMatches: matches.length > 0,
+        hasResults: matches.some((m) => m.away_team_id && isPlayed(m)),
+      }),
+    [activeTournament, tournamentPlayers, matches]
+  );
+
+  const myRegistration = useMemo(
+    () => (myEmail ? roster.find((r) => r.player_email === myEmail.toLowerCase()) ?? null : null),
+    [roster, myEmail]
+  );
+  const amRegistered = Boolean(myRegistration);
+  // turnir sa odobrenjem: prijava postoji, ali je admin još nije prihvatio
+  const amPending = Boolean(myRegistration && !isApproved(myRegistration));
+
   const teamById = useMemo(() => {
     const m = new Map<string, TeamRow>();
     for (const t of teams) m.set(t.id, t);
     return m;
   }, [teams]);
 
+  const eventsByMatchId = useMemo(() => eventsByMatch(matchEvents), [matchEvents]);
+
+  const teamOwner = useMemo(
+    () => new Map(tournamentPlayers.map((tp) => [tp.team_id, tp.player_email.toLowerCase()])),
+    [tournamentPlayers]
+  );
+
   const playerByEmail = useMemo(() => {
     const m = new Map<string, PlayerRow>();
     for (const p of players) m.set(p.email, p);
     return m;
   }, [players]);
 
+  const topScorers = useMemo(() => {
+    const source =
+      scorerScope === "all"
+        ? allTimeScoring
+        : computeScorers(matchEvents, matches, buildTeamOwners(tournamentPlayers));
+    return sortScorers(source ? source[scorerView] : [], "goals").slice(0, 5);
+  }, [scorerScope, scorerView, allTimeScoring, matchEvents, matches, tournamentPlayers]);
+
+  const careerSum = useMemo(() => careerTotals(career?.entries ?? []), [career]);
+  const careerStats = useMemo(
+    () => computePlayerStats(career?.games ?? []),
+    [career]
+  );
+
   const myPlayer = useMemo(() => {
     if (!myEmail) return null;
     return playerByEmail.get(myEmail) ?? null;
@@ -293,115 +384,40 @@ function PlayerPage() {
     return myMatches.filter((m) => (m.round ?? -1) === r);
   }, [myMatches, roundFilter]);
 
-  const myStats = useMemo(() => {
-    if (!myTeamId)
-      return { played: 0, wins: 0, draws: 0, losses: 0, pts: 0, gf: 0, ga: 0 };
-
-    let played = 0,
-      wins = 0,
-      draws = 0,
-      losses = 0,
-      pts = 0,
-      gf = 0,
-      ga = 0;
-
-    for (const m of matches) {
-      if (!m.home_team_id || !m.away_team_id) continue;
-      if (!isPlayed(m)) continue;
-      if (m.player1_score === null || m.player2_score === null) continue;
-
-      const isHome = m.home_team_id === myTeamId;
-      const isAway = m.away_team_id === myTeamId;
-      if (!isHome && !isAway) continue;
-
-      played += 1;
-
-      const myGoals = isHome ? m.player1_score : m.player2_score;
-      const oppGoals = isHome ? m.player2_score : m.player1_score;
+  const myStats = useMemo(() => teamRecord(matches, myTeamId), [matches, myTeamId]);
 
-      gf += myGoals;
-      ga += oppGoals;
-
-      if (myGoals > oppGoals) {
-        wins += 1;
-        pts += 3;
-      } else if (myGoals < oppGoals) {
-        losses += 1;
-      } else {
-        draws += 1;
-        pts += 1;
-      }
-    }
-
-    return { played, wins, draws, losses, pts, gf, ga };
-  }, [matches, myTeamId]);
+  const isSwiss = activeTournament?.format === "swiss";
 
-  const standings: StandingRow[] = useMemo(() => {
-    const tourTeamIds = new Set(tournamentTeams.map((x) => x.team_id));
-    const map = new Map<string, StandingRow>();
-
-    for (const teamId of tourTeamIds) {
-      const t = teamById.get(teamId);
-      map.set(teamId, {
-        team_id: teamId,
-        team_name: t?.name ?? teamId,
-        played: 0,
-        wins: 0,
-        draws: 0,
-        losses: 0,
-        gf: 0,
-        ga: 0,
-        gd: 0,
-        pts: 0,
-      });
-    }
-
-    for (const m of matches) {
-      if (!m.home_team_id || !m.away_team_id) continue;
-      if (!isPlayed(m)) continue;
-      if (m.player1_score === null || m.player2_score === null) continue;
-
-      const home = map.get(m.home_team_id);
-      const away = map.get(m.away_team_id);
-      if (!home || !away) continue;
-
-      home.played += 1;
-      away.played += 1;
-
-      home.gf += m.player1_score;
-      home.ga += m.player2_score;
-
-      away.gf += m.player2_score;
-      away.ga += m.player1_score;
-
-      if (m.player1_score > m.player2_score) {
-        home.wins += 1;
-        away.losses += 1;
-        home.pts += 3;
-      } else if (m.player1_score < m.player2_score) {
-        away.wins += 1;
-        home.losses += 1;
-        away.pts += 3;
-      } else {
-        home.draws += 1;
-        away.draws += 1;
-        home.pts += 1;
-        away.pts += 1;
-      }
-    }
+  const tiebreakers = useMemo(
+    () =>
+      parseTiebreakers(
+        activeTournament?.tiebreakers,
+        activeTournament?.format === "swiss" ? SWISS_TIEBREAKERS : undefined
+      ),
+    [activeTournament]
+  );
 
-    const list = Array.from(map.values()).map((r) => ({
-      ...r,
-      gd: r.gf - r.ga,
-    }));
-    list.sort((a, b) => {
-      if (b.pts !== a.pts) return b.pts - a.pts;
-      if (b.gd !== a.gd) return b.gd - a.gd;
-      return b.gf - a.gf;
-    });
+  const standings: StandingRow[] = useMemo(
+    () =>
+      computeStandings(matches, tournamentTeams, {
+        teamName: (id) => teamById.get(id)?.name,
+        tiebreakers,
+        lots: activeTournament?.tiebreak_lots,
+      }),
+    [matches, tournamentTeams, teamById, tiebreakers, activeTournament]
+  );
 
-    return list;
-  }, [matches, tournamentTeams, teamById]);
+  const groups = useMemo(
+    () =>
+      activeTournament?.format === "groups_knockout"
+        ? groupTables(matches, tournamentTeams, {
+            teamName: (id) => teamById.get(id)?.name,
+            tiebreakers,
+            lots: activeTournament?.tiebreak_lots,
+          })
+        : [],
+    [matches, tournamentTeams, teamById, tiebreakers, activeTournament]
+  );
 
   const lastPlayedGlobal = useMemo(() => {
     const played = matches.filter(
@@ -441,7 +457,7 @@ function PlayerPage() {
   async function loadTournaments() {
     const { data, error } = await supabase
       .from("tournaments")
-      .select("id, name, date")
+      .select("id, name, date, tiebreakers, tiebreak_lots, format, status")
       .order("date", { ascending: false });
     if (error) throw error;
 
@@ -453,9 +469,16 @@ function PlayerPage() {
         ? window.localStorage.getItem("playerActiveTournamentId")
         : null;
 
+    // link za prijavu (/player?join=<id>) ima prednost
+    const join =
+      typeof window !== "undefined"
+        ? new URLSearchParams(window.location.search).get("join")
+        : null;
+
     // postavi default samo ako još nema aktivnog
     setActiveTournamentId((prev) => {
       if (prev) return prev;
+      if (join && list.some((x) => x.id === join)) return join;
       if (stored && list.some((x) => x.id === stored)) return stored;
       return list.length ? list[0].id : null;
     });
@@ -497,7 +520,101 @@ function PlayerPage() {
       loadTournamentTeams(tournamentId),
       loadTournamentPlayers(tournamentId),
       loadMatches(tournamentId),
+      loadBracket(supabase, tournamentId).then(setBracket),
+      loadRoster(supabase, tournamentId).then(setRoster),
+      loadMatchEvents(supabase, tournamentId)
+        .catch(() => [])
+        .then(setMatchEvents),
+      loadLatestDraw(supabase, tournamentId)
+        .catch(() => null)
+        .then((d) => {
+          setLatestDraw(d);
+          if (ceremonyInProgress(d)) setCeremonyOpen(true);
+        }),
     ]);
+    setDrawCheck(null);
+  }
+
+  /* =========================
+     RESULTS: prijava / potvrda (lib/results)
+     ========================= */
+
+  async function submitResult(matchId: string) {
+    setResultBusy(true);
+    setResultMsg(null);
+
+    const { error } = await authedRequest("/api/results", "POST", {
+      matchId,
+      homeGoals: Number(reportHome),
+      awayGoals: Number(reportAway),
+    });
+    setResultBusy(false);
+
+    if (error) {
+      setResultMsg("Greška: " + error.message);
+      return;
+    }
+    setResultMsg("✅ Rezultat prijavljen – čeka potvrdu protivnika.");
+    setReportingMatchId(null);
+    if (activeTournamentId) await loadMatches(activeTournamentId).catch(() => {});
+  }
+
+  async function respondToResult(matchId: string, action: "confirm" | "dispute") {
+    let note: string | undefined;
+    if (action === "dispute") {
+      if (typeof window === "undefined") return;
+      const input = window.prompt("Zašto osporavaš rezultat? (vidi admin)");
+      if (input === null) return;
+      note = input;
+    }
+
+    setResultBusy(true);
+    setResultMsg(null);
+
+    const { data, error } = await authedRequest<{ ok: true; ratingError: string | null }>("/api/results", "PATCH", {
+      matchId,
+      action,
+      note,
+    });
+    setResultBusy(false);
+
+    if (error) {
+      setResultMsg("Greška: " + error.message);
+      return;
+    }
+    if (data?.ratingError) {
+      setResultMsg("✅ Rezultat potvrđen, ali rejting nije preračunat (admin ga može preračunati na rang listi).");
+    } else setResultMsg(action === "confirm" ? "✅ Rezultat potvrđen." : "Rezultat osporen – admin će ga pregledati.");
+    if (activeTournamentId) await loadMatches(activeTournamentId).catch(() => {});
+  }
+
+  function checkDraw() {
+    if (!latestDraw) return;
+    try {
+      setDrawCheck(
+        verifyDraw(latestDraw, tournamentPlayers)
+          ? `✅ Žreb se poklapa sa seed-om ${latestDraw.seed}.`
+          : "⚠️ Žreb se NE poklapa sa zapisanim seed-om."
+      );
+    } catch (e) {
+      setDrawCheck("Greška pri proveri: " + (e instanceof Error ? e.message : String(e)));
+    }
+  }
+
+  async function toggleRegistration(join: boolean) {
+    if (!activeTournamentId) return;
+    setJoinBusy(true);
+    setJoinMsg(null);
+
+    const { data, error } = await authedRequest<{ status?: string }>("/api/roster", join ? "POST" : "DELETE", {
+      tournamentId: activeTournamentId,
+    });
+    if (error) setJoinMsg("Greška: " + error.message);
+    else if (!join) setJoinMsg("Odjavljen si sa turnira.");
+    else setJoinMsg(data?.status === "pending" ? "Prijava je poslata, čeka odobrenje admina." : "✅ Prijavljen si na turnir.");
+
+    setJoinBusy(false);
+    setRoster(await loadRoster(supabase, activeTournamentId).catch(() => roster));
   }
 
   /* =========================
@@ -521,10 +638,10 @@ function PlayerPage() {
         const email = data.session.user.email ?? null;
         setMyEmail(email);
 
-        // admin -> dashboard
+        // admin / sudija -> dashboard
         try {
           const role = await getRole();
-          if (role === "admin") {
+          if (can(role, "open_dashboard")) {
             router.replace("/dashboard");
             return;
           }
@@ -532,6 +649,10 @@ function PlayerPage() {
           // ignoriši ako getRole pukne
         }
 
+        // došao preko pozivnice (magic link -> /player?join=<id>): poziv je prihvaćen
+        const join = new URLSearchParams(window.location.search).get("join");
+        if (join) void authedRequest("/api/invites", "POST", { tournamentId: join });
+
         await Promise.all([loadPlayers(), loadTeams(), loadTournaments()]);
         setLoading(false);
       } catch (e: unknown) {
@@ -557,16 +678,156 @@ function PlayerPage() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [activeTournamentId]);
 
+  async function changeScorerScope(scope: "tournament" | "all") {
+    setScorerScope(scope);
+    if (scope !== "all") return;
+    try {
+      setAllTimeScoring(await loadAllTimeScoring(supabase));
+    } catch (e: unknown) {
+      const m =
+        e instanceof Error ? e.message : typeof e === "string" ? e : "unknown";
+      setMsg("Greška pri učitavanju strelaca: " + m);
+    }
+  }
+
+  useEffect(() => {
+    if (!myEmail) return;
+    loadCareer(supabase, myEmail)
+      .then(setCareer)
+      .catch((e: unknown) => {
+        const m =
+          e instanceof Error ? e.message : typeof e === "string" ? e : "unknown";
+        setMsg("Greška pri učitavanju istorije: " + m);
+      });
+  }, [myEmail]);
+
   useEffect(() => {
     if (!activeTournamentId) return;
     if (typeof window === "undefined") return;
     window.localStorage.setItem("playerActiveTournamentId", activeTournamentId);
   }, [activeTournamentId]);
 
+  // uživo: rezultati, žreb i timovi turnira (tabela se računa iz matches)
+  useEffect(() => {
+    if (!activeTournamentId) return;
+    return subscribeToTournament(
+      supabase,
+      activeTournamentId,
+      ["matches", "match_events", "tournament_players", "tournament_teams"],
+      (batch) => {
+        setMatches((prev) =>
+          reconcileRows(
+            prev,
+            batch.matches,
+            activeTournamentId,
+            (a, b) => (a.round ?? Infinity) - (b.round ?? Infinity) || a.id.localeCompare(b.id)
+          )
+        );
+        setMatchEvents((prev) => reconcileRows(prev, batch.match_events, activeTournamentId));
+        setTournamentPlayers((prev) => reconcileRows(prev, batch.tournament_players, activeTournamentId));
+        setTournamentTeams((prev) => reconcileRows(prev, batch.tournament_teams, activeTournamentId));
+      }
+    );
+  }, [activeTournamentId]);
+
+  // ceremonija žreba uživo: nov žreb otvara ekran, svaki otkriven par stiže preko realtime-a
+  useEffect(() => {
+    if (!activeTournamentId) return;
+    return subscribeToDraws(supabase, activeTournamentId, (record, isNew) => {
+      setLatestDraw(record);
+      setDrawCheck(null);
+      if (isNew && ceremonyInProgress(record)) setCeremonyOpen(true);
+      if (record.revealed >= drawSize(record)) loadTournamentPlayers(activeTournamentId).catch(() => {});
+    });
+  }, [activeTournamentId]);
+
   /* =========================
      RENDER HELPERS
      ========================= */
 
+  function renderStandingsTable(
+    rows: StandingRow[],
+    opts: { swiss?: boolean; mineTeamId?: string | null; owners?: Map<string, string> | null } = {}
+  ) {
+    const swiss = opts.swiss ?? isSwiss;
+    const mineTeamId = opts.mineTeamId !== undefined ? opts.mineTeamId : myTeamId;
+    const owners = opts.owners !== undefined ? opts.owners : teamOwner;
+    return (
+      <div className="pl-table">
+        <div className={cx("pl-tr pl-th", swiss && "pl-tr-swiss")}>
+          <div>#</div>
+          <div>Tim</div>
+          <div className="r">P</div>
+          <div className="r">W</div>
+          <div className="r">D</div>
+          <div className="r">L</div>
+          {swiss && (
+            <div className="r" title="Buchholz">
+              BH
+            </div>
+          )}
+          {swiss && (
+            <div className="r" title="Sonneborn-Berger">
+              SB
+            </div>
+          )}
+          <div className="r">PTS</div>
+        </div>
+
+        {rows.map((s, idx) => {
+          const isMine = mineTeamId && s.team_id === mineTeamId;
+          const owner = owners?.get(s.team_id) ?? null;
+          return (
+            <div
+              key={s.team_id}
+              className={cx(
+                "pl-tr",
+                swiss && "pl-tr-swiss",
+                isMine && "pl-tr-mine"
+              )}
+            >
+              <div className="pl-muted">{idx + 1}</div>
+              <div className={cx("b", isMine && "pl-mine")}>
+                {s.team_name}
+                {s.tiebreak ? (
+                  <span
+                    className="pl-tb"
+                    title={TIEBREAKER_LABELS[s.tiebreak]}
+                  >
+                    {TIEBREAKER_SHORT[s.tiebreak]}
+                  </span>
+                ) : s.tied ? (
+                  <span
+                    className="pl-tb pl-tb-open"
+                    title="Nerešeno posle svih pravila"
+                  >
+                    =
+                  </span>
+                ) : null}
+                {owner && myEmail && !isMine ? (
+                  <button
+                    className="pl-h2h-link"
+                    title="Međusobni duel"
+                    onClick={() => router.push(h2hHref(myEmail, owner))}
+                  >
+                    ⚔
+                  </button>
+                ) : null}
+              </div>
+              <div className="r">{s.played}</div>
+              <div className="r">{s.wins}</div>
+              <div className="r">{s.draws}</div>
+              <div className="r">{s.losses}</div>
+              {swiss && <div className="r">{s.buchholz}</div>}
+              {swiss && <div className="r">{s.sb}</div>}
+              <div className="r b">{s.pts}</div>
+            </div>
+          );
+        })}
+      </div>
+    );
+  }
+
   function matchLine(m: MatchRow) {
     const home = m.home_team_id ? teamById.get(m.home_team_id) : null;
     const away = m.away_team_id ? teamById.get(m.away_team_id) : null;
@@ -575,6 +836,16 @@ function PlayerPage() {
     const ag = m.player2_score;
     const score = hg === null || ag === null ? "— : —" : `${hg} : ${ag}`;
 
+    const events = eventsByMatchId.get(m.id) ?? [];
+    const homeGoals = goalLine(events, "home");
+    const awayGoals = goalLine(events, "away");
+
+    const side = myEmail ? sideFromOwners(m, myEmail, (teamId) => teamOwner.get(teamId) ?? null) : null;
+    const canReport =
+      Boolean(side && m.away_team_id && !m.played_at) &&
+      (tournamentStatus === "scheduled" || tournamentStatus === "in_progress") &&
+      (!m.result_status || (m.result_status === "pending" && m.reported_by === myEmail?.toLowerCase()));
+
     return (
       <div key={m.id} className="pl-item pl-item-tight">
         <div className="pl-item-main">
@@ -612,18 +883,100 @@ function PlayerPage() {
                 ) : (
                   <span className="pl-dot" />
                 )}
-                {away ? away.name : m.away_team_id ?? "—"}
+                {away ? away.name : m.away_team_id ?? "BYE"}
               </span>
             </div>
           </div>
 
           <div className="pl-item-sub">
-            Status: <b>{isPlayed(m) ? "odigrano" : "nije odigrano"}</b>
+            Status:{" "}
+            <b>
+              {isPlayed(m)
+                ? "odigrano"
+                : m.result_status && m.result_status !== "confirmed"
+                  ? RESULT_STATUS_LABELS[m.result_status]
+                  : "nije odigrano"}
+            </b>
+            {m.result_status === "pending" && m.reported_by ? (
+              <> • prijavio {m.reported_by === myEmail?.toLowerCase() ? "ti" : playerByEmail.get(m.reported_by)?.name ?? m.reported_by}</>
+            ) : null}
+            {m.result_status === "disputed" ? <> • čeka odluku admina</> : null}
           </div>
+          {homeGoals || awayGoals ? (
+            <div className="pl-item-sub">
+              ⚽ {homeGoals || "—"} | {awayGoals || "—"}
+            </div>
+          ) : null}
+          {hasStats(m.stats) ? (
+            <div className="pl-item-sub">
+              {m.stats.home_possession !== null ? (
+                <>
+                  Posed {m.stats.home_possession}% : {100 - m.stats.home_possession}%{" "}
+                </>
+              ) : null}
+              {m.stats.home_shots !== null || m.stats.away_shots !== null ? (
+                <>
+                  • Šutevi {m.stats.home_shots ?? "—"}
+                  {m.stats.home_shots_on_target !== null ? ` (${m.stats.home_shots_on_target})` : ""} :{" "}
+                  {m.stats.away_shots ?? "—"}
+                  {m.stats.away_shots_on_target !== null ? ` (${m.stats.away_shots_on_target})` : ""}
+                </>
+              ) : null}
+            </div>
+          ) : null}
         </div>
 
         <div className="pl-item-actions">
-          <div className="pl-score">{score}</div>
+          {reportingMatchId === m.id ? (
+            <div className="pl-row">
+              <Select value={reportHome} onChange={(e) => setReportHome(e.target.value)} className="pl-select-goals">
+                {GOAL_OPTIONS.map((g) => (
+                  <option key={g} value={String(g)}>
+                    {g}
+                  </option>
+                ))}
+              </Select>
+              <span className="pl-muted">:</span>
+              <Select value={reportAway} onChange={(e) => setReportAway(e.target.value)} className="pl-select-goals">
+                {GOAL_OPTIONS.map((g) => (
+                  <option key={g} value={String(g)}>
+                    {g}
+                  </option>
+                ))}
+              </Select>
+              <Button onClick={() => submitResult(m.id)} disabled={resultBusy}>
+                {resultBusy ? "Šaljem..." : "Pošalji"}
+              </Button>
+              <Button variant="ghost" onClick={() => setReportingMatchId(null)}>
+                Otkaži
+              </Button>
+            </div>
+          ) : (
+            <div className="pl-row" style={{ flexWrap: "wrap", justifyContent: "flex-end" }}>
+              <div className="pl-score">{score}</div>
+              {awaitsMyConfirmation(m, myEmail, side) ? (
+                <>
+                  <Button onClick={() => respondToResult(m.id, "confirm")} disabled={resultBusy}>
+                    Potvrdi
+                  </Button>
+                  <Button variant="danger" onClick={() => respondToResult(m.id, "dispute")} disabled={resultBusy}>
+                    Ospori
+                  </Button>
+                </>
+              ) : canReport ? (
+                <Button
+                  variant="outline"
+                  onClick={() => {
+                    setReportingMatchId(m.id);
+                    setReportHome(String(m.player1_score ?? 0));
+                    setReportAway(String(m.player2_score ?? 0));
+                  }}
+                >
+                  {m.result_status === "pending" ? "Izmeni" : "Prijavi rezultat"}
+                </Button>
+              ) : null}
+            </div>
+          )}
         </div>
       </div>
     );
@@ -677,6 +1030,9 @@ function PlayerPage() {
             </div>
 
             <div className="pl-row">
+              <Button variant="outline" onClick={() => router.push("/ratings")}>
+                Rang
+              </Button>
               <Button
                 variant="outline"
                 onClick={async () => {
@@ -798,6 +1154,43 @@ function PlayerPage() {
           </Card>
         )}
 
+        {activeTournament && (tournamentStatus === "draft" || amRegistered) ? (
+          <Card
+            title={
+              <div>
+                <div className="pl-sec-title">Prijava za turnir</div>
+                <div className="pl-sec-sub">
+                  {activeTournament.name} • prijavljeno: {roster.filter(isApproved).length}
+                </div>
+              </div>
+            }
+            right={
+              tournamentStatus === "draft" ? (
+                amRegistered ? (
+                  <Button variant="outline" onClick={() => toggleRegistration(false)} disabled={joinBusy}>
+                    {amPending ? "Povuci prijavu" : "Odjavi se"}
+                  </Button>
+                ) : (
+                  <Button onClick={() => toggleRegistration(true)} disabled={joinBusy}>
+                    {joinBusy ? "Prijavljujem..." : "Prijavi se"}
+                  </Button>
+                )
+              ) : null
+            }
+          >
+            {joinMsg && <Msg text={joinMsg} />}
+            <Hint>
+              {amPending
+                ? "Prijava čeka odobrenje admina."
+                : amRegistered
+                ? tournamentStatus === "draft"
+                  ? "Prijavljen si. Čeka se zaključavanje rostera i žreb."
+                  : "Igraš na ovom turniru."
+                : "Prijave su otvorene dok admin ne zaključa roster."}
+            </Hint>
+          </Card>
+        ) : null}
+
         {/* 2 kartice */}
         <div className="pl-two">
           <Card
@@ -811,7 +1204,7 @@ function PlayerPage() {
                 </div>
               </div>
             }
-            right={<Pill tone="muted">status</Pill>}
+            right={<Pill tone="muted">{STATUS_LABELS[tournamentStatus]}</Pill>}
             className="pl-card-mini"
           >
             {!activeTournamentId ? (
@@ -879,6 +1272,83 @@ function PlayerPage() {
               </div>
             )}
           </Card>
+
+          <Card
+            title={
+              <div>
+                <div className="pl-sec-title">Strelci</div>
+                <div className="pl-sec-sub">
+                  Top 5 • {scorerScope === "all" ? "svi turniri" : "ovaj turnir"}
+                </div>
+              </div>
+            }
+            right={
+              <div className="pl-row">
+                <Select
+                  value={scorerScope}
+                  onChange={(e) =>
+                    changeScorerScope(
+                      e.target.value === "all" ? "all" : "tournament"
+                    )
+                  }
+                  className="pl-select-round"
+                >
+                  <option value="tournament">Turnir</option>
+                  <option value="all">Svi</option>
+                </Select>
+                <Select
+                  value={scorerView}
+                  onChange={(e) =>
+                    setScorerView(
+                      e.target.value === "humans" ? "humans" : "footballers"
+                    )
+                  }
+                  className="pl-select-round"
+                >
+                  <option value="footballers">Fudbaleri</option>
+                  <option value="humans">Igrači</option>
+                </Select>
+              </div>
+            }
+            className="pl-card-mini pl-two-wide"
+          >
+            {topScorers.length === 0 ? (
+              <Hint>Još nema upisanih strelaca.</Hint>
+            ) : (
+              <div className="pl-mini-table">
+                <div className="pl-mini-tr pl-mini-scorers pl-muted">
+                  <div>#</div>
+                  <div>{scorerView === "humans" ? "Igrač" : "Fudbaler"}</div>
+                  <div className="r">G</div>
+                  <div className="r">A</div>
+                </div>
+                {topScorers.map((r, idx) => {
+                  const me = myEmail?.toLowerCase() ?? null;
+                  const isMine = Boolean(
+                    me && (r.key === me || r.owners.includes(me))
+                  );
+                  return (
+                    <div
+                      key={r.key}
+                      className={cx(
+                        "pl-mini-tr pl-mini-scorers",
+                        isMine && "pl-mini-mine"
+                      )}
+                    >
+                      <div className="pl-muted">{idx + 1}</div>
+                      <div className={cx("pl-mini-name", isMine && "pl-mine")}>
+                        {scorerView === "humans"
+                          ? playerByEmail.get(r.key)?.name ?? r.key
+                          : r.name}
+                      </div>
+                      <div className="r b">{r.goals}</div>
+                      <div className="r">{r.assists}</div>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </Card>
         </div>
 
         {/* Moj profil */}
@@ -888,13 +1358,113 @@ function PlayerPage() {
               <div>
                 <div className="pl-sec-title">Moj profil</div>
                 <div className="pl-sec-sub">
-                  Brza statistika (iz odigranih mečeva)
+                  {profileView === "career"
+                    ? "Moja statistika kroz sve turnire (bez obzira na tim)"
+                    : "Statistika mog tima u ovom turniru"}
                 </div>
               </div>
             }
-            right={<Pill tone="muted">player</Pill>}
+            right={
+              <Select
+                value={profileView}
+                onChange={(e) =>
+                  setProfileView(
+                    e.target.value === "tournament" ? "tournament" : "career"
+                  )
+                }
+                className="pl-select-round"
+              >
+                <option value="career">Karijera</option>
+                <option value="tournament">Ovaj turnir</option>
+              </Select>
+            }
           >
-            {!activeTournamentId ? (
+            {profileView === "career" ? (
+              !career ? (
+                <Hint>Učitavanje…</Hint>
+              ) : careerStats.played === 0 ? (
+                <Hint>Još nemaš odigranih mečeva.</Hint>
+              ) : (
+                <>
+                  <div className="pl-row" style={{ gap: 10, flexWrap: "wrap" }}>
+                    <Pill tone="muted">P: {careerStats.played}</Pill>
+                    <Pill tone="ok">W: {careerStats.wins}</Pill>
+                    <Pill tone="muted">D: {careerStats.draws}</Pill>
+                    <Pill tone="warn">L: {careerStats.losses}</Pill>
+                    <Pill tone="ok">Pobede: {careerStats.winPct}%</Pill>
+                    <Pill tone="muted">
+                      GF/GA po meču: {careerStats.gfPerGame}/
+                      {careerStats.gaPerGame}
+                    </Pill>
+                  </div>
+
+                  <div className="pl-profile-grid">
+                    <div className="pl-profile-box">
+                      <div className="pl-muted">Forma (poslednjih 5)</div>
+                      <div className="pl-row" style={{ marginTop: 6 }}>
+                        {careerStats.form.map((o, i) => (
+                          <span key={i} className={cx("pl-form", `pl-form-${o}`)}>
+                            {o}
+                          </span>
+                        ))}
+                      </div>
+                    </div>
+
+                    <div className="pl-profile-box">
+                      <div className="pl-muted">Nizovi</div>
+                      <div className="pl-profile-val">
+                        {careerStats.current
+                          ? `Trenutno ${careerStats.current.length}× ${careerStats.current.outcome}`
+                          : "—"}
+                      </div>
+                      <div className="pl-item-sub">
+                        Najduži: {careerStats.longestWinStreak} pobeda •{" "}
+                        {careerStats.longestUnbeaten} bez poraza
+                      </div>
+                    </div>
+
+                    <div className="pl-profile-box">
+                      <div className="pl-muted">Najveća pobeda</div>
+                      {careerStats.biggestWin ? (
+                        <>
+                          <div className="pl-profile-val">
+                            {careerStats.biggestWin.gf}:{careerStats.biggestWin.ga}
+                          </div>
+                          <div className="pl-item-sub">
+                            {teamById.get(careerStats.biggestWin.team_id ?? "")
+                              ?.name ?? "—"}{" "}
+                            protiv{" "}
+                            {teamById.get(
+                              careerStats.biggestWin.opponent_team_id ?? ""
+                            )?.name ?? "—"}
+                          </div>
+                        </>
+                      ) : (
+                        <div className="pl-profile-val">—</div>
+                      )}
+                    </div>
+
+                    {(["strong", "weak"] as TeamStrength[]).map((k) => {
+                      const r = careerStats.byStrength[k];
+                      return (
+                        <div key={k} className="pl-profile-box">
+                          <div className="pl-muted">{STRENGTH_LABELS[k]}</div>
+                          <div className="pl-profile-val">
+                            {r.played ? `${winPct(r)}% pobeda` : "—"}
+                          </div>
+                          <div className="pl-item-sub">
+                            {r.wins}-{r.draws}-{r.losses} • {r.gf}:{r.ga}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  <Hint>
+                    Jak/slab tim: gornja/donja polovina turnira po rejtingu tima.
+                  </Hint>
+                </>
+              )
+            ) : !activeTournamentId ? (
               <Hint>Izaberi aktivni turnir.</Hint>
             ) : !myTeamId ? (
               <Hint>Nemaš dodeljen tim (još nema žreba ili nisi u žrebu).</Hint>
@@ -922,7 +1492,7 @@ function PlayerPage() {
             title={
               <div>
                 <div className="pl-sec-title">Rezultati</div>
-                <div className="pl-sec-sub">Moji mečevi</div>
+                <div className="pl-sec-sub">Moji mečevi • rezultat prijavljuješ ti, protivnik ga potvrđuje</div>
               </div>
             }
             right={
@@ -943,6 +1513,7 @@ function PlayerPage() {
               </div>
             }
           >
+            {resultMsg && <Msg text={resultMsg} />}
             {!activeTournamentId ? (
               <Hint>Izaberi aktivni turnir.</Hint>
             ) : !myTeamId ? (
@@ -968,54 +1539,84 @@ function PlayerPage() {
             <Hint>Izaberi aktivni turnir.</Hint>
           ) : tournamentTeams.length === 0 ? (
             <Hint>U turniru nema timova.</Hint>
-          ) : (
-            <div className="pl-table">
-              <div className="pl-tr pl-th">
-                <div>#</div>
-                <div>Tim</div>
-                <div className="r">P</div>
-                <div className="r">W</div>
-                <div className="r">D</div>
-                <div className="r">L</div>
-                <div className="r">PTS</div>
-              </div>
-
-              {standings.map((s, idx) => {
-                const isMine = myTeamId && s.team_id === myTeamId;
-                return (
-                  <div
-                    key={s.team_id}
-                    className={cx("pl-tr", isMine && "pl-tr-mine")}
-                  >
-                    <div className="pl-muted">{idx + 1}</div>
-                    <div className={cx("b", isMine && "pl-mine")}>
-                      {s.team_name}
-                    </div>
-                    <div className="r">{s.played}</div>
-                    <div className="r">{s.wins}</div>
-                    <div className="r">{s.draws}</div>
-                    <div className="r">{s.losses}</div>
-                    <div className="r b">{s.pts}</div>
-                  </div>
-                );
-              })}
+          ) : groups.length > 0 ? (
+            <div className="pl-list">
+              {groups.map((g) => (
+                <div key={g.label}>
+                  <div className="pl-group-title">Grupa {g.label}</div>
+                  {renderStandingsTable(g.rows)}
+                </div>
+              ))}
             </div>
+          ) : (
+            renderStandingsTable(standings)
           )}
+          {activeTournamentId && tournamentTeams.length > 0 ? (
+            <Hint>
+              Izjednačeni po bodovima:{" "}
+              {tiebreakers.map((r) => TIEBREAKER_LABELS[r]).join(" → ") ||
+                "bez pravila"}
+            </Hint>
+          ) : null}
         </Card>
 
+        {/* Nokaut faza */}
+        {activeTournamentId && bracket.length > 0 ? (
+          <Card
+            title={
+              <div>
+                <div className="pl-sec-title">Nokaut faza</div>
+                <div className="pl-sec-sub">Bracket posle ligaškog dela</div>
+              </div>
+            }
+            right={<Pill tone="muted">read-only</Pill>}
+          >
+            <BracketTree
+              ties={bracket}
+              teamName={(id) => (id ? teamById.get(id)?.name ?? id : "—")}
+              highlightTeamId={myTeamId}
+            />
+          </Card>
+        ) : null}
+
         {/* Žreb */}
         <div ref={secDrawRef}>
           <Card
             title={
               <div>
                 <div className="pl-sec-title">Žreb timova</div>
-                <div className="pl-sec-sub">Ko je dobio koji tim</div>
+                <div className="pl-sec-sub">
+                  Ko je dobio koji tim
+                  {latestDraw && tournamentPlayers.length > 0 ? (
+                    <>
+                      {" "}
+                      • {DRAW_MODE_LABELS[latestDraw.mode]}
+                      {latestDraw.avoid_repeat ? " • bez prošlog tima" : ""} • seed <code>{latestDraw.seed}</code>
+                    </>
+                  ) : null}
+                </div>
               </div>
             }
-            right={<Pill tone="muted">read-only</Pill>}
+            right={
+              latestDraw && tournamentPlayers.length > 0 ? (
+                <Button variant="outline" onClick={checkDraw}>
+                  Proveri žreb
+                </Button>
+              ) : (
+                <Pill tone="muted">read-only</Pill>
+              )
+            }
           >
+            {drawCheck && <Msg text={drawCheck} />}
             {!activeTournamentId ? (
               <Hint>Izaberi aktivni turnir.</Hint>
+            ) : ceremonyInProgress(latestDraw) ? (
+              <div className="pl-row" style={{ justifyContent: "space-between", flexWrap: "wrap" }}>
+                <Hint>
+                  Žreb je u toku – otkriveno {latestDraw!.revealed} / {drawSize(latestDraw!)}.
+                </Hint>
+                <Button onClick={() => setCeremonyOpen(true)}>🎬 Gledaj žreb uživo</Button>
+              </div>
             ) : tournamentPlayers.length === 0 ? (
               <Hint>Još nema žreba za ovaj turnir.</Hint>
             ) : (
@@ -1036,7 +1637,10 @@ function PlayerPage() {
                           {playerName}{" "}
                           {isMe ? <span className="pl-me-tag">• ja</span> : null}
                         </div>
-                        <div className="pl-item-sub">{tp.player_email}</div>
+                        <div className="pl-item-sub">
+                          {tp.player_email}
+                          {tp.draw_note ? <> • {tp.draw_note}</> : null}
+                        </div>
                       </div>
                       <div className="pl-item-actions">
                         <div className="pl-row" style={{ gap: 10 }}>
@@ -1055,6 +1659,17 @@ function PlayerPage() {
                           <div className="pl-muted">
                             {team ? team.name : tp.team_id}
                           </div>
+                          {!isMe && myEmail ? (
+                            <button
+                              className="pl-h2h-link"
+                              title="Međusobni duel"
+                              onClick={() =>
+                                router.push(h2hHref(myEmail, tp.player_email))
+                              }
+                            >
+                              ⚔
+                            </button>
+                          ) : null}
                         </div>
                       </div>
                     </div>
@@ -1072,16 +1687,104 @@ function PlayerPage() {
               <div>
                 <div className="pl-sec-title">Istorija</div>
                 <div className="pl-sec-sub">
-                  Sezona / arhiva (sledeća iteracija)
+                  Svi moji turniri • klik na turnir otvara konačnu tabelu
                 </div>
               </div>
             }
-            right={<Pill tone="muted">coming soon</Pill>}
+            right={
+              <Pill tone={careerSum.titles > 0 ? "ok" : "muted"}>
+                🏆 {careerSum.titles}
+              </Pill>
+            }
           >
-            <Hint>
-              Ovde posle: prethodni turniri, godišnja statistika, hall of fame,
-              export…
-            </Hint>
+            {!career ? (
+              <Hint>Učitavanje…</Hint>
+            ) : career.entries.length === 0 ? (
+              <Hint>Još nisi igrao ni na jednom turniru.</Hint>
+            ) : (
+              <>
+                <div className="pl-row" style={{ gap: 10, flexWrap: "wrap" }}>
+                  <Pill tone="muted">Turniri: {careerSum.tournaments}</Pill>
+                  <Pill tone="muted">P: {careerSum.played}</Pill>
+                  <Pill tone="ok">W: {careerSum.wins}</Pill>
+                  <Pill tone="muted">D: {careerSum.draws}</Pill>
+                  <Pill tone="warn">L: {careerSum.losses}</Pill>
+                  <Pill tone="muted">
+                    Golovi: {careerSum.gf}:{careerSum.ga}
+                  </Pill>
+                </div>
+
+                <div className="pl-list" style={{ marginTop: 12 }}>
+                  {career.entries.map((c) => {
+                    const open = careerOpenId === c.tournament_id;
+                    return (
+                      <div key={c.tournament_id}>
+                        <button
+                          className={cx(
+                            "pl-item pl-history-item",
+                            open && "pl-item-me"
+                          )}
+                          onClick={() =>
+                            setCareerOpenId(open ? null : c.tournament_id)
+                          }
+                        >
+                          <div style={{ minWidth: 0 }}>
+                            <div className="pl-item-title">{c.name}</div>
+                            <div className="pl-item-sub">
+                              {formatDate(c.date)} •{" "}
+                              {teamById.get(c.team_id)?.name ?? "—"}
+                              {c.group ? <> • Grupa {c.group}</> : null}
+                              {c.stage ? <> • {c.stage}</> : null}
+                              {c.record ? (
+                                <>
+                                  {" "}
+                                  • {c.record.wins}-{c.record.draws}-
+                                  {c.record.losses} • {c.record.gf}:
+                                  {c.record.ga}
+                                </>
+                              ) : null}
+                              {c.status && c.status !== "finished" ? (
+                                <> • {STATUS_LABELS[c.status]}</>
+                              ) : null}
+                            </div>
+                            {c.trophies.length > 0 ? (
+                              <div className="pl-row" style={{ marginTop: 6 }}>
+                                {c.trophies.map((t) => (
+                                  <Pill key={t} tone="ok">
+                                    {TROPHY_LABELS[t]}
+                                  </Pill>
+                                ))}
+                              </div>
+                            ) : null}
+                          </div>
+                          <div className="pl-history-pos">
+                            {c.position ? `${c.position}.` : "—"}
+                            <span className="pl-muted">/{c.teams}</span>
+                          </div>
+                        </button>
+
+                        {open ? (
+                          <div style={{ marginTop: 8 }}>
+                            {renderStandingsTable(
+                              c.table.map((r) => ({
+                                ...r,
+                                team_name:
+                                  teamById.get(r.team_id)?.name ?? r.team_name,
+                              })),
+                              {
+                                swiss: c.format === "swiss",
+                                mineTeamId: c.team_id,
+                                owners: null,
+                              }
+                            )}
+                          </div>
+                        ) : null}
+                      </div>
+                    );
+                  })}
+                </div>
+              </>
+            )}
           </Card>
         </div>
 
@@ -1106,6 +1809,16 @@ function PlayerPage() {
         <div className="pl-footer">PES Liga • Player UI • v1</div>
       </div>
 
+      {ceremonyOpen && latestDraw ? (
+        <DrawCeremony
+          record={latestDraw}
+          playerName={(email) => playerByEmail.get(email)?.name ?? email}
+          team={(id) => teamById.get(id) ?? null}
+          highlightEmail={myEmail}
+          onClose={() => setCeremonyOpen(false)}
+        />
+      ) : null}
+
       <GlobalStyles />
     </div>
   );
@@ -1331,6 +2044,9 @@ function GlobalStyles() {
         grid-template-columns: 1fr 1fr;
         gap: 12px;
       }
+      .pl-two-wide {
+        grid-column: 1 / -1;
+      }
       @media (max-width: 520px) {
         .pl-two {
           grid-template-columns: 1fr;
@@ -1403,6 +2119,10 @@ function GlobalStyles() {
       .pl-select-round {
         min-width: 120px;
       }
+      .pl-select-goals {
+        min-width: 64px;
+        width: 64px;
+      }
 
       .pl-btn {
         height: 40px;
@@ -1510,6 +2230,65 @@ function GlobalStyles() {
         font-size: 13px;
       }
 
+      .pl-profile-grid {
+        display: grid;
+        grid-template-columns: repeat(auto-fill, minmax(150px, 1fr));
+        gap: 10px;
+        margin-top: 12px;
+      }
+      .pl-profile-box {
+        padding: 10px;
+        border: 1px solid rgba(255, 255, 255, 0.1);
+        border-radius: 12px;
+        background: rgba(0, 0, 0, 0.08);
+        font-size: 12px;
+      }
+      .pl-profile-val {
+        margin-top: 4px;
+        font-weight: 950;
+        font-size: 16px;
+      }
+      .pl-form {
+        display: inline-grid;
+        place-items: center;
+        width: 22px;
+        height: 22px;
+        border-radius: 6px;
+        font-weight: 950;
+        font-size: 12px;
+      }
+      .pl-form-W {
+        background: rgba(124, 255, 194, 0.25);
+      }
+      .pl-form-D {
+        background: rgba(255, 255, 255, 0.14);
+      }
+      .pl-form-L {
+        background: rgba(255, 120, 120, 0.25);
+      }
+      .pl-h2h-link {
+        margin-left: 6px;
+        padding: 0 6px;
+        border: 1px solid rgba(255, 255, 255, 0.16);
+        border-radius: 8px;
+        background: transparent;
+        color: var(--muted);
+        cursor: pointer;
+        font-size: 12px;
+      }
+      .pl-history-item {
+        width: 100%;
+        color: inherit;
+        font: inherit;
+        text-align: left;
+        cursor: pointer;
+      }
+      .pl-history-pos {
+        font-weight: 950;
+        font-size: 18px;
+        white-space: nowrap;
+      }
+
       .pl-avatar {
         width: 22px;
         height: 22px;
@@ -1559,9 +2338,31 @@ function GlobalStyles() {
         border-top: 1px solid rgba(255, 255, 255, 0.08);
         background: rgba(0, 0, 0, 0.06);
       }
+      .pl-tr-swiss {
+        grid-template-columns: 26px 1fr 30px 30px 30px 30px 36px 36px 40px;
+        gap: 6px;
+      }
       .pl-tr-mine {
         background: var(--mine);
       }
+      .pl-group-title {
+        font-weight: 950;
+        margin-bottom: 8px;
+      }
+      .pl-tb {
+        margin-left: 8px;
+        font-size: 10px;
+        font-weight: 900;
+        padding: 2px 6px;
+        border-radius: 999px;
+        border: 1px solid rgba(255, 255, 255, 0.16);
+        color: var(--muted);
+        vertical-align: middle;
+      }
+      .pl-tb-open {
+        color: var(--warn);
+        border-color: rgba(255, 211, 124, 0.28);
+      }
       .pl-mine {
         color: rgba(124, 255, 194, 0.95);
       }
@@ -1578,6 +2379,74 @@ function GlobalStyles() {
         font-weight: 950;
       }
 
+      .pl-bracket {
+        display: grid;
+        grid-auto-flow: column;
+        grid-auto-columns: minmax(180px, 1fr);
+        gap: 12px;
+        overflow-x: auto;
+        padding-bottom: 6px;
+      }
+      .pl-bracket-col {
+        display: flex;
+        flex-direction: column;
+        min-width: 0;
+      }
+      .pl-bracket-round {
+        font-weight: 950;
+        font-size: 12px;
+        color: var(--muted);
+        margin-bottom: 10px;
+        text-transform: uppercase;
+      }
+      .pl-bracket-ties {
+        display: flex;
+        flex-direction: column;
+        justify-content: space-around;
+        gap: 12px;
+        flex: 1;
+      }
+      .pl-bracket-tie {
+        padding: 8px;
+        border: 1px solid rgba(255, 255, 255, 0.1);
+        border-radius: 12px;
+        background: rgba(0, 0, 0, 0.1);
+      }
+      .pl-bracket-team {
+        display: grid;
+        grid-template-columns: 16px 1fr auto;
+        gap: 8px;
+        align-items: center;
+        padding: 4px 2px;
+        color: var(--muted);
+      }
+      .pl-bracket-win {
+        color: var(--txt);
+        font-weight: 950;
+      }
+      .pl-bracket-mine .pl-bracket-name {
+        color: rgba(124, 255, 194, 0.95);
+      }
+      .pl-bracket-seed {
+        font-size: 11px;
+        color: var(--muted);
+      }
+      .pl-bracket-name {
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+      }
+      .pl-bracket-score {
+        display: inline-flex;
+        gap: 8px;
+        font-weight: 950;
+      }
+      .pl-bracket-note {
+        margin-top: 4px;
+        font-size: 11px;
+        color: var(--muted);
+      }
+
       .pl-mini-table {
         display: grid;
         gap: 8px;
@@ -1595,6 +2464,9 @@ function GlobalStyles() {
       .pl-mini-mine {
         background: var(--mine);
       }
+      .pl-mini-scorers {
+        grid-template-columns: 22px 1fr 36px 36px;
+      }
       .pl-mini-name {
         font-weight: 950;
         overflow: hidden;
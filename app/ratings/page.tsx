@@ -0,0 +1,496 @@
+"use client";
+
+/**
+ * RANG LISTA (PES League)
+ * - Elo rejting igrača (lib/elo), najbolji prvi
+ * - klik na igrača -> istorija promena po meču
+ * - admin/sudija može da preračuna rejting iz svih mečeva
+ */
+
+import React, { useEffect, useMemo, useState } from "react";
+import { useRouter } from "next/navigation";
+import { supabase } from "@/lib/supabase";
+import { getRole } from "@/lib/getRole";
+import { can, type Role } from "@/lib/roles";
+import { adminApi } from "@/lib/adminApi";
+import {
+  ELO_OPTIONS,
+  ELO_START,
+  loadRatingHistory,
+  loadRatings,
+  type PlayerRating,
+  type RatingHistoryRow,
+} from "@/lib/elo";
+import { h2hHref } from "@/lib/h2h";
+
+/* =========================
+   UI PRIMITIVES
+   ========================= */
+
+function cx(...xs: Array<string | false | null | undefined>) {
+  return xs.filter(Boolean).join(" ");
+}
+
+function Card({
+  title,
+  right,
+  children,
+}: {
+  title?: React.ReactNode;
+  right?: React.ReactNode;
+  children: React.ReactNode;
+}) {
+  return (
+    <section className="pl-card">
+      {(title || right) && (
+        <div className="pl-card-h">
+          <div className="pl-card-title">{title}</div>
+          <div>{right}</div>
+        </div>
+      )}
+      <div className="pl-card-b">{children}</div>
+    </section>
+  );
+}
+
+function Hint({ children }: { children: React.ReactNode }) {
+  return <p className="pl-hint">{children}</p>;
+}
+
+function Msg({ text }: { text: string }) {
+  const isErr = text.toLowerCase().startsWith("greška");
+  return <p className={cx("pl-msg", isErr && "pl-msg-err")}>{text}</p>;
+}
+
+/* =========================
+   TYPES
+   ========================= */
+
+type PlayerRow = { email: string; name: string | null };
+
+function formatDate(dateStr: string | null) {
+  if (!dateStr) return "(bez datuma)";
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(dateStr);
+  if (!m) return dateStr;
+  return `${m[3]}.${m[2]}.${m[1]}`;
+}
+
+function signed(n: number) {
+  return n > 0 ? `+${n}` : String(n);
+}
+
+/* =========================
+   PAGE
+   ========================= */
+
+export default function RatingsPage() {
+  const router = useRouter();
+
+  const [role, setRole] = useState<Role | null>(null);
+  const [myEmail, setMyEmail] = useState<string | null>(null);
+  const [players, setPlayers] = useState<PlayerRow[]>([]);
+  const [ratings, setRatings] = useState<PlayerRating[]>([]);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [history, setHistory] = useState<RatingHistoryRow[]>([]);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<string | null>(null);
+
+  const nameOf = useMemo(() => {
+    const m = new Map(players.map((p) => [p.email.toLowerCase(), p.name]));
+    return (email: string) => m.get(email.toLowerCase()) || email;
+  }, [players]);
+
+  async function loadAll() {
+    const [p, r] = await Promise.all([
+      supabase.from("players").select("email, name"),
+      loadRatings(supabase),
+    ]);
+    if (p.error) throw p.error;
+    setPlayers((p.data ?? []) as PlayerRow[]);
+    setRatings(r);
+  }
+
+  useEffect(() => {
+    const run = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+      setMyEmail(data.session.user.email?.toLowerCase() ?? null);
+      setRole(await getRole().catch(() => null));
+
+      try {
+        await loadAll();
+      } catch (e: unknown) {
+        setMsg("Greška pri učitavanju: " + ((e as { message?: string } | null)?.message ?? "unknown"));
+      }
+    };
+
+    run();
+  }, [router]);
+
+  async function selectPlayer(email: string) {
+    if (selected === email) {
+      setSelected(null);
+      return;
+    }
+    setSelected(email);
+    setHistory([]);
+    try {
+      setHistory(await loadRatingHistory(supabase, email));
+    } catch (e: unknown) {
+      setMsg("Greška pri učitavanju istorije: " + ((e as { message?: string } | null)?.message ?? "unknown"));
+    }
+  }
+
+  async function recompute() {
+    setBusy(true);
+    setMsg(null);
+    const { data, error } = await adminApi("POST /ratings", {});
+    if (error) setMsg("Greška: " + error.message);
+    else if (data && !data.applied) setMsg("Rejting je u međuvremenu preračunat novijim rezultatima.");
+    else if (data) setMsg(`✅ Preračunato: ${data.players} igrača, ${data.matches} mečeva.`);
+
+    await loadAll().catch(() => {});
+    if (selected) setHistory(await loadRatingHistory(supabase, selected).catch(() => []));
+    setBusy(false);
+  }
+
+  return (
+    <div className="pl-wrap">
+      <div className="pl-bg-base" aria-hidden="true" />
+
+      <div className="pl-content">
+        <div className="pl-hero">
+          <div className="pl-hero-top">
+            <div>
+              <div className="pl-brand">RANG LISTA</div>
+              <div className="pl-brand-sub">
+                Elo rejting igrača • start {ELO_START}
+                {ELO_OPTIONS.adjustForTeams ? " • uračunata jačina timova" : ""}
+              </div>
+            </div>
+            <button
+              className="pl-btn pl-btn-outline"
+              onClick={() => router.push(can(role, "open_dashboard") ? "/dashboard" : "/player")}
+            >
+              ← Nazad
+            </button>
+          </div>
+        </div>
+
+        {msg && <Msg text={msg} />}
+
+        <Card
+          title={
+            <div>
+              <div className="pl-sec-title">Elo</div>
+              <div className="pl-sec-sub">Klik na igrača prikazuje promene po meču</div>
+            </div>
+          }
+          right={
+            can(role, "enter_results") ? (
+              <button className="pl-btn pl-btn-outline" onClick={recompute} disabled={busy}>
+                {busy ? "Računam…" : "Preračunaj"}
+              </button>
+            ) : null
+          }
+        >
+          {ratings.length === 0 ? (
+            <Hint>Još nema rejtinga (računa se iz potvrđenih mečeva).</Hint>
+          ) : (
+            <div className="pl-table">
+              <div className="pl-tr pl-th">
+                <div>#</div>
+                <div>Igrač</div>
+                <div className="r">Elo</div>
+                <div className="r">M</div>
+                <div className="r">Max</div>
+              </div>
+              {ratings.map((r, idx) => (
+                <React.Fragment key={r.player_email}>
+                  <button
+                    className={cx(
+                      "pl-tr pl-tr-btn",
+                      r.player_email === myEmail && "pl-tr-mine",
+                      selected === r.player_email && "pl-tr-open"
+                    )}
+                    onClick={() => selectPlayer(r.player_email)}
+                  >
+                    <div className="pl-muted">{idx + 1}</div>
+                    <div className="b">{nameOf(r.player_email)}</div>
+                    <div className="r b">{r.rating}</div>
+                    <div className="r">{r.played}</div>
+                    <div className="r pl-muted">{r.peak}</div>
+                  </button>
+
+                  {selected === r.player_email ? (
+                    <div className="pl-history">
+                      {history.length === 0 ? (
+                        <Hint>Nema promena.</Hint>
+                      ) : (
+                        [...history].reverse().map((h) => (
+                          <div key={h.match_id} className="pl-history-row">
+                            <div className="pl-muted">{formatDate(h.played_at)}</div>
+                            <div>
+                              protiv {nameOf(h.opponent_email)}
+                              {myEmail && h.player_email === myEmail ? (
+                                <button
+                                  className="pl-h2h-link"
+                                  title="Međusobni duel"
+                                  onClick={() => router.push(h2hHref(myEmail, h.opponent_email))}
+                                >
+                                  ⚔
+                                </button>
+                              ) : null}
+                            </div>
+                            <div className={cx("r b", h.delta > 0 ? "pl-up" : h.delta < 0 ? "pl-down" : "pl-muted")}>
+                              {signed(h.delta)}
+                            </div>
+                            <div className="r">{h.rating_after}</div>
+                          </div>
+                        ))
+                      )}
+                    </div>
+                  ) : null}
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+        </Card>
+
+        <div className="pl-footer">PES Liga • Rang lista</div>
+      </div>
+
+      <GlobalStyles />
+    </div>
+  );
+}
+
+/* =========================
+   STYLES
+   ========================= */
+
+function GlobalStyles() {
+  return (
+    <style jsx global>{`
+      :root {
+        --bg: #0b0d12;
+        --card: rgba(255, 255, 255, 0.06);
+        --bd: rgba(255, 255, 255, 0.12);
+        --bd2: rgba(255, 255, 255, 0.16);
+        --txt: rgba(255, 255, 255, 0.92);
+        --muted: rgba(255, 255, 255, 0.68);
+        --ok: #7cffc2;
+        --warn: #ffd37c;
+        --danger: #ff7c9b;
+        --mine: rgba(124, 255, 194, 0.1);
+      }
+
+      body {
+        background: transparent !important;
+        color: var(--txt);
+      }
+
+      .pl-bg-base {
+        position: fixed;
+        inset: 0;
+        pointer-events: none;
+        background: var(--bg);
+        z-index: 0;
+      }
+      .pl-wrap {
+        position: relative;
+        padding: 18px;
+        max-width: 520px;
+        margin: 0 auto;
+        z-index: 0;
+      }
+      .pl-content {
+        position: relative;
+        z-index: 2;
+      }
+
+      .pl-hero {
+        border: 1px solid var(--bd);
+        border-radius: 18px;
+        background: linear-gradient(
+          180deg,
+          rgba(255, 255, 255, 0.08),
+          rgba(255, 255, 255, 0.03)
+        );
+        padding: 14px;
+        margin-bottom: 14px;
+      }
+      .pl-hero-top {
+        display: flex;
+        justify-content: space-between;
+        align-items: flex-start;
+        gap: 12px;
+      }
+      .pl-brand {
+        font-weight: 950;
+        font-size: 22px;
+        letter-spacing: 0.6px;
+      }
+      .pl-brand-sub {
+        margin-top: 6px;
+        color: var(--muted);
+        font-size: 13px;
+      }
+
+      .pl-table {
+        border: 1px solid rgba(255, 255, 255, 0.1);
+        border-radius: 14px;
+        overflow: hidden;
+      }
+      .pl-tr {
+        display: grid;
+        grid-template-columns: 28px 1fr 56px 40px 56px;
+        gap: 10px;
+        width: 100%;
+        padding: 12px;
+        align-items: center;
+        border: none;
+        border-top: 1px solid rgba(255, 255, 255, 0.08);
+        background: rgba(0, 0, 0, 0.06);
+        color: inherit;
+        font: inherit;
+        text-align: left;
+      }
+      .pl-th {
+        border-top: none;
+        color: var(--muted);
+        font-size: 12px;
+        font-weight: 900;
+      }
+      .pl-tr-btn {
+        cursor: pointer;
+      }
+      .pl-tr-mine {
+        background: var(--mine);
+      }
+      .pl-tr-open {
+        background: rgba(255, 255, 255, 0.08);
+      }
+      .pl-history {
+        padding: 6px 12px 12px;
+        background: rgba(0, 0, 0, 0.12);
+      }
+      .pl-history-row {
+        display: grid;
+        grid-template-columns: 84px 1fr 44px 52px;
+        gap: 10px;
+        padding: 6px 0;
+        font-size: 13px;
+        align-items: center;
+      }
+      .pl-up {
+        color: var(--ok);
+      }
+      .pl-down {
+        color: var(--danger);
+      }
+      .pl-h2h-link {
+        margin-left: 6px;
+        padding: 0 6px;
+        border: 1px solid rgba(255, 255, 255, 0.16);
+        border-radius: 8px;
+        background: transparent;
+        color: var(--muted);
+        cursor: pointer;
+        font-size: 12px;
+      }
+      .pl-btn:disabled {
+        cursor: not-allowed;
+        opacity: 0.55;
+      }
+      .pl-card {
+        border: 1px solid var(--bd);
+        border-radius: 16px;
+        background: var(--card);
+        overflow: hidden;
+        margin-bottom: 14px;
+      }
+      .pl-card-h {
+        display: flex;
+        justify-content: space-between;
+        align-items: center;
+        gap: 12px;
+        padding: 12px;
+        border-bottom: 1px solid rgba(255, 255, 255, 0.08);
+      }
+      .pl-card-title {
+        font-weight: 900;
+      }
+      .pl-card-b {
+        padding: 14px;
+      }
+      .pl-sec-title {
+        font-weight: 950;
+        font-size: 15px;
+      }
+      .pl-sec-sub {
+        margin-top: 6px;
+        color: var(--muted);
+        font-size: 12px;
+      }
+      .pl-row {
+        display: flex;
+        gap: 10px;
+        align-items: center;
+      }
+      .pl-muted {
+        color: var(--muted);
+      }
+      .pl-select {
+        height: 40px;
+        padding: 0 12px;
+        border-radius: 12px;
+        border: 1px solid var(--bd2);
+        background: rgba(0, 0, 0, 0.18);
+        color: var(--txt);
+        outline: none;
+        min-width: 0;
+        width: 100%;
+      }
+      .pl-btn {
+        height: 40px;
+        padding: 0 12px;
+        border-radius: 12px;
+        border: 1px solid transparent;
+        cursor: pointer;
+        font-weight: 900;
+        color: var(--txt);
+        white-space: nowrap;
+      }
+      .pl-btn-outline {
+        background: transparent;
+        border-color: rgba(255, 255, 255, 0.18);
+      }
+      .pl-hint {
+        margin: 10px 0 0;
+        color: var(--muted);
+        font-size: 13px;
+      }
+      .pl-msg {
+        margin: 10px 0 0;
+        font-size: 13px;
+        color: var(--muted);
+      }
+      .pl-msg-err {
+        color: var(--danger);
+      }
+      .pl-footer {
+        margin: 14px 0 8px;
+        color: var(--muted);
+        font-size: 12px;
+        text-align: center;
+      }
+      .b {
+        font-weight: 950;
+      }
+    `}</style>
+  );
+}
@@ -3,58 +3,86 @@ export const revalidate = 0;
 
 import React, { useEffect, useState } from "react";
 import { useRouter, useSearchParams } from "next/navigation";
+import type { UrlSessionFailure } from "@/lib/supabase";
 
 export const dynamic = "force-dynamic";
 
+const RESET_ERRORS: Record<UrlSessionFailure, string> = {
+  callback: "Link nije važeći ili je već iskorišćen. Zatraži novi na /login.",
+  other_browser: "Link je otvoren u drugom browseru od onog u kom je zatražen. Otvori ga tamo ili zatraži novi.",
+  no_session: "Nedostaje reset token u linku. Zatraži novi link na /login.",
+};
+
 export default function ResetPage() {
   const router = useRouter();
   const sp = useSearchParams();
 
   const [status, setStatus] = useState<"idle" | "working" | "ok" | "error">("idle");
   const [msg, setMsg] = useState<string>("");
+  const [password, setPassword] = useState("");
+  const [password2, setPassword2] = useState("");
+  const [saving, setSaving] = useState(false);
+  const [saved, setSaved] = useState(false);
+
+  async function savePassword() {
+    if (password.length < 6) {
+      setMsg("Lozinka mora imati bar 6 znakova.");
+      return;
+    }
+    if (password !== password2) {
+      setMsg("Lozinke se ne poklapaju.");
+      return;
+    }
+
+    setSaving(true);
+    const { supabase } = await import("@/lib/supabase");
+    const { error } = await supabase.auth.updateUser({ password });
+    setSaving(false);
+
+    if (error) {
+      setMsg("Greška: " + error.message);
+      return;
+    }
+    setSaved(true);
+    setMsg("✅ Nova lozinka je sačuvana.");
+
+    // pozivnica za turnir (/reset?t=<id>): pravo na stranu turnira, gde je prijava
+    const t = sp.get("t");
+    if (t) router.replace(`/player?join=${encodeURIComponent(t)}`);
+  }
 
   useEffect(() => {
     let cancelled = false;
 
+    // link iz pozivnice (/reset?t=<turnir>): posle potvrđene sesije poziv je prihvaćen
+    async function acceptInvite() {
+      const t = sp.get("t");
+      if (!t) return;
+      const { authedRequest } = await import("@/lib/adminApi");
+      await authedRequest("/api/invites", "POST", { tournamentId: t });
+    }
+
     async function run() {
       try {
         setStatus("working");
         setMsg("Pripremam reset...");
 
-        const mod = await import("../../lib/supabase");
-        const supabase = (mod as any).supabase;
-
-        if (!supabase) throw new Error("Supabase nije inicijalizovan (proveri Vercel env varijable).");
-
-        const code = sp.get("code");
-        if (code) {
-          const { error } = await supabase.auth.exchangeCodeForSession(code);
-          if (error) throw error;
-
-          if (!cancelled) {
-            setStatus("ok");
-            setMsg("Reset link je potvrđen. Možeš da postaviš novu lozinku.");
-          }
-          return;
-        }
-
-        const access_token = sp.get("access_token");
-        const refresh_token = sp.get("refresh_token");
-
-        if (access_token && refresh_token) {
-          const { error } = await supabase.auth.setSession({ access_token, refresh_token });
-          if (error) throw error;
+        // ?code razmenjuje sam Supabase klijent (PKCE), #access_token stiže iz invite emaila
+        const { sessionFromUrl } = await import("@/lib/supabase");
+        const result = await sessionFromUrl();
 
+        if (!result.session) {
           if (!cancelled) {
-            setStatus("ok");
-            setMsg("Sesija postavljena. Možeš da postaviš novu lozinku.");
+            setStatus("error");
+            setMsg(RESET_ERRORS[result.failure]);
           }
           return;
         }
 
+        await acceptInvite();
         if (!cancelled) {
-          setStatus("error");
-          setMsg("Nedostaje reset token u linku (code ili access_token).");
+          setStatus("ok");
+          setMsg("Link je potvrđen. Možeš da postaviš novu lozinku.");
         }
       } catch (e: any) {
         if (!cancelled) {
@@ -97,6 +125,39 @@ export default function ResetPage() {
 
         <div style={{ opacity: 0.9 }}>{msg}</div>
 
+        {status === "ok" && !saved ? (
+          <div style={{ display: "flex", flexDirection: "column", gap: 10, marginTop: 14 }}>
+            <input
+              type="password"
+              placeholder="Nova lozinka"
+              value={password}
+              onChange={(e) => setPassword(e.target.value)}
+              style={{ padding: 10, borderRadius: 12, border: "1px solid rgba(255,255,255,0.18)" }}
+            />
+            <input
+              type="password"
+              placeholder="Ponovi lozinku"
+              value={password2}
+              onChange={(e) => setPassword2(e.target.value)}
+              style={{ padding: 10, borderRadius: 12, border: "1px solid rgba(255,255,255,0.18)" }}
+            />
+            <button
+              onClick={savePassword}
+              disabled={!password || saving}
+              style={{
+                padding: "10px 12px",
+                borderRadius: 12,
+                border: "1px solid rgba(255,255,255,0.18)",
+                background: "rgba(255,255,255,0.10)",
+                cursor: !password || saving ? "not-allowed" : "pointer",
+                fontWeight: 700,
+              }}
+            >
+              {saving ? "Čuvam…" : "Sačuvaj lozinku"}
+            </button>
+          </div>
+        ) : null}
+
         <div style={{ display: "flex", gap: 10, marginTop: 14 }}>
           <button
             onClick={() => router.push("/login")}
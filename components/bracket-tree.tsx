@@ -0,0 +1,118 @@
+"use client";
+
+import React from "react";
+import { roundName, tieOutcome, type KnockoutTieRow } from "@/lib/bracket";
+
+/**
+ * Knockout tree (kolone po rundama). Stil (pl-bracket-*) je u GlobalStyles
+ * stranice koja ga koristi (dashboard / player).
+ */
+export function BracketTree({
+  ties,
+  teamName,
+  highlightTeamId,
+  renderActions,
+}: {
+  ties: KnockoutTieRow[];
+  teamName: (id: string | null) => string;
+  highlightTeamId?: string | null;
+  renderActions?: (tie: KnockoutTieRow) => React.ReactNode;
+}) {
+  const totalRounds = ties.reduce((mx, t) => Math.max(mx, t.round), 0);
+  const rounds = Array.from({ length: totalRounds }, (_, i) =>
+    ties.filter((t) => t.round === i + 1).sort((a, b) => a.slot - b.slot)
+  );
+
+  return (
+    <div className="pl-bracket">
+      {rounds.map((list, i) => (
+        <div key={i} className="pl-bracket-col">
+          <div className="pl-bracket-round">{roundName(i + 1, totalRounds)}</div>
+          <div className="pl-bracket-ties">
+            {list.map((t) => (
+              <TieBox
+                key={t.id}
+                tie={t}
+                teamName={teamName}
+                highlightTeamId={highlightTeamId}
+                actions={renderActions?.(t)}
+              />
+            ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+function TieBox({
+  tie,
+  teamName,
+  highlightTeamId,
+  actions,
+}: {
+  tie: KnockoutTieRow;
+  teamName: (id: string | null) => string;
+  highlightTeamId?: string | null;
+  actions?: React.ReactNode;
+}) {
+  const o = tieOutcome(tie);
+  const legs =
+    tie.legs === 2
+      ? [
+          [tie.leg1_home, tie.leg1_away],
+          [tie.leg2_home, tie.leg2_away],
+        ]
+      : [[tie.leg1_home, tie.leg1_away]];
+
+  const side = (teamId: string | null, seed: number | null, isHome: boolean) => {
+    const isWinner = o.winner !== null && o.winner === teamId;
+    const isMine = Boolean(highlightTeamId && teamId === highlightTeamId);
+    return (
+      <div
+        className={
+          "pl-bracket-team" +
+          (isWinner ? " pl-bracket-win" : "") +
+          (isMine ? " pl-bracket-mine" : "")
+        }
+      >
+        <span className="pl-bracket-seed">{seed ?? ""}</span>
+        <span className="pl-bracket-name">
+          {teamId ? teamName(teamId) : tie.round === 1 ? "bye" : "?"}
+        </span>
+        <span className="pl-bracket-score">
+          {legs.map((l, i) => (
+            <span key={i}>{(isHome ? l[0] : l[1]) ?? "–"}</span>
+          ))}
+          {tie.et_home !== null && tie.et_away !== null ? (
+            <span title="produžeci">{isHome ? tie.et_home : tie.et_away}</span>
+          ) : null}
+          {tie.pen_home !== null && tie.pen_away !== null ? (
+            <span title="penali">({isHome ? tie.pen_home : tie.pen_away})</span>
+          ) : null}
+        </span>
+      </div>
+    );
+  };
+
+  return (
+    <div className="pl-bracket-tie">
+      {side(tie.home_team_id, tie.home_seed, true)}
+      {side(tie.away_team_id, tie.away_seed, false)}
+      <div className="pl-bracket-note">
+        {o.decidedBy === "extra_time"
+          ? "posle produžetaka"
+          : o.decidedBy === "penalties"
+          ? "posle penala"
+          : o.needs === "extra_time"
+          ? "nerešeno → produžeci"
+          : o.needs === "penalties"
+          ? "nerešeno → penali"
+          : tie.legs === 2 && o.decidedBy === "aggregate"
+          ? `ukupno ${o.homeTotal}:${o.awayTotal}`
+          : null}
+      </div>
+      {actions}
+    </div>
+  );
+}
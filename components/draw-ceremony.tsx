@@ -0,0 +1,224 @@
+"use client";
+
+import React from "react";
+import { DRAW_MODE_LABELS, drawSize, revealedPairs, type DrawRecord } from "@/lib/draw";
+
+type TeamInfo = { name: string; logo_url: string | null };
+
+/**
+ * Ceremonija žreba preko celog ekrana: parovi igrač – tim se otkrivaju jedan po jedan
+ * (record.revealed). Prikazuju se samo već otkriveni parovi iz zapisa; ostatak je skriven
+ * od igrača do poslednjeg otkrivanja. Boje (--card, --bd...) dolaze iz stranice.
+ */
+export function DrawCeremony({
+  record,
+  playerName,
+  team,
+  highlightEmail,
+  controls,
+  onClose,
+}: {
+  record: DrawRecord;
+  playerName: (email: string) => string;
+  team: (id: string) => TeamInfo | null;
+  highlightEmail?: string | null;
+  controls?: React.ReactNode;
+  onClose: () => void;
+}) {
+  const total = drawSize(record);
+  const shown = revealedPairs(record);
+  const last = shown.length ? shown[shown.length - 1] : null;
+  const lastTeam = last ? team(last.team_id) : null;
+
+  return (
+    <div className="pl-ceremony" role="dialog" aria-modal="true">
+      <div className="pl-ceremony-head">
+        <div>
+          <div className="pl-ceremony-title">🎲 Žreb uživo</div>
+          <div className="pl-ceremony-sub">
+            {DRAW_MODE_LABELS[record.mode]} •{" "}
+            {record.seed ? (
+              <>
+                seed <code>{record.seed}</code>
+              </>
+            ) : (
+              "seed se objavljuje na kraju"
+            )}{" "}
+            • {record.revealed} / {total}
+          </div>
+        </div>
+        <button className="pl-ceremony-close" onClick={onClose} aria-label="Zatvori">
+          ✕
+        </button>
+      </div>
+
+      <div className="pl-ceremony-stage">
+        {last ? (
+          <div key={shown.length} className="pl-ceremony-card">
+            <div className="pl-ceremony-player">{playerName(last.player_email)}</div>
+            <div className="pl-ceremony-arrow">↓</div>
+            <div className="pl-ceremony-team">
+              {lastTeam?.logo_url ? (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={lastTeam.logo_url} alt={lastTeam.name} width={64} height={64} />
+              ) : null}
+              <span>{lastTeam?.name ?? last.team_id}</span>
+            </div>
+            <div className="pl-ceremony-note">{last.draw_note}</div>
+          </div>
+        ) : (
+          <div className="pl-ceremony-wait">Žreb uskoro počinje...</div>
+        )}
+      </div>
+
+      <div className="pl-ceremony-list">
+        {Array.from({ length: total }, (_, idx) => {
+          const p = shown[idx];
+          return (
+            <div
+              key={idx}
+              className={[
+                "pl-ceremony-row",
+                p ? "pl-ceremony-open" : "",
+                p && p.player_email === highlightEmail ? "pl-ceremony-me" : "",
+              ].join(" ")}
+            >
+              <span className="pl-ceremony-num">{idx + 1}</span>
+              <span>{p ? playerName(p.player_email) : "?"}</span>
+              <span className="pl-ceremony-row-team">{p ? (team(p.team_id)?.name ?? p.team_id) : "?"}</span>
+            </div>
+          );
+        })}
+      </div>
+
+      {controls ? <div className="pl-ceremony-controls">{controls}</div> : null}
+
+      <style jsx>{`
+        .pl-ceremony {
+          position: fixed;
+          inset: 0;
+          z-index: 50;
+          display: flex;
+          flex-direction: column;
+          gap: 16px;
+          padding: 22px;
+          overflow-y: auto;
+          background: rgba(6, 8, 12, 0.96);
+        }
+        .pl-ceremony-head {
+          display: flex;
+          justify-content: space-between;
+          align-items: flex-start;
+          gap: 12px;
+        }
+        .pl-ceremony-title {
+          font-size: 22px;
+          font-weight: 950;
+        }
+        .pl-ceremony-sub {
+          font-size: 13px;
+          color: var(--muted);
+          margin-top: 4px;
+        }
+        .pl-ceremony-close {
+          border: 1px solid var(--bd);
+          background: transparent;
+          color: var(--txt);
+          border-radius: 10px;
+          padding: 6px 10px;
+          cursor: pointer;
+        }
+        .pl-ceremony-stage {
+          flex: 1;
+          min-height: 260px;
+          display: grid;
+          place-items: center;
+        }
+        .pl-ceremony-card {
+          text-align: center;
+          padding: 26px 34px;
+          border-radius: 22px;
+          border: 1px solid var(--bd2);
+          background: var(--card);
+          animation: pl-reveal 0.7s ease-out;
+        }
+        .pl-ceremony-player {
+          font-size: 26px;
+          font-weight: 950;
+        }
+        .pl-ceremony-arrow {
+          margin: 10px 0;
+          font-size: 22px;
+          color: var(--muted);
+        }
+        .pl-ceremony-team {
+          display: flex;
+          align-items: center;
+          justify-content: center;
+          gap: 14px;
+          font-size: 32px;
+          font-weight: 950;
+          color: var(--ok);
+        }
+        .pl-ceremony-team img {
+          border-radius: 12px;
+        }
+        .pl-ceremony-note {
+          margin-top: 10px;
+          font-size: 13px;
+          color: var(--muted);
+        }
+        .pl-ceremony-wait {
+          font-size: 20px;
+          color: var(--muted);
+        }
+        .pl-ceremony-list {
+          display: grid;
+          grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+          gap: 8px;
+        }
+        .pl-ceremony-row {
+          display: grid;
+          grid-template-columns: 22px 1fr auto;
+          gap: 8px;
+          padding: 8px 10px;
+          border-radius: 12px;
+          border: 1px solid rgba(255, 255, 255, 0.08);
+          color: var(--muted);
+          font-size: 13px;
+        }
+        .pl-ceremony-open {
+          color: var(--txt);
+          border-color: var(--bd2);
+        }
+        .pl-ceremony-me {
+          background: var(--me);
+          border-color: var(--mebd);
+        }
+        .pl-ceremony-num {
+          font-weight: 950;
+          color: var(--muted);
+        }
+        .pl-ceremony-row-team {
+          font-weight: 900;
+        }
+        .pl-ceremony-controls {
+          display: flex;
+          justify-content: center;
+          gap: 10px;
+          flex-wrap: wrap;
+        }
+        @keyframes pl-reveal {
+          from {
+            opacity: 0;
+            transform: scale(0.85) translateY(12px);
+          }
+          to {
+            opacity: 1;
+            transform: none;
+          }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,166 @@
+import { supabase } from "@/lib/supabase";
+import type { TieResult, TieOutcome } from "@/lib/bracket";
+import type { DrawMode } from "@/lib/draw";
+import type { MatchEventInput, MatchStats } from "@/lib/events";
+import type { Round1Override } from "@/lib/fixtures";
+import type { TournamentFormat } from "@/lib/formats";
+import type { InviteMethod, InviteResult } from "@/lib/invites";
+import type { TournamentStatus } from "@/lib/lifecycle";
+import type { ResultStatus, TiebreakerRule } from "@/lib/standings";
+
+/**
+ * Tipovi za /api/admin/* (dele ih dashboard i rute).
+ * Ključ je "METOD /putanja", vrednost je body zahteva i odgovor.
+ */
+
+export type TournamentPatch = {
+  name?: string;
+  tiebreakers?: TiebreakerRule[];
+  tiebreak_lots?: string[];
+  group_count?: number;
+  advance_per_group?: number;
+  join_restricted?: boolean;
+};
+
+export type MatchInsert = {
+  round: number;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  played_at?: string | null;
+};
+
+export type MatchPatch = {
+  player1_email?: string | null;
+  player2_email?: string | null;
+  player1_score?: number | null;
+  player2_score?: number | null;
+  played_at?: string | null;
+  result_status?: ResultStatus | null;
+  reported_by?: string | null;
+  dispute_note?: string | null;
+};
+
+type Ok = { ok: true };
+
+export type AdminRoutes = {
+  "POST /invite": {
+    body: { email: string; tournamentId: string };
+    result: Ok & { userId: string | null; method: InviteMethod };
+  };
+  "DELETE /invite": { body: { id: string }; result: Ok };
+  "POST /invite/bulk": {
+    body: { tournamentId: string; emails: string[] };
+    result: Ok & { results: InviteResult[] };
+  };
+
+  "POST /players": { body: { email: string; name: string }; result: Ok };
+
+  "POST /tournaments": { body: { name: string; date: string | null; format: TournamentFormat }; result: { id: string } };
+  "PATCH /tournaments": { body: { id: string; patch: TournamentPatch }; result: Ok };
+  "DELETE /tournaments": { body: { id: string }; result: Ok };
+
+  "POST /roster": { body: { tournamentId: string; emails: string[] }; result: Ok & { added: number } };
+  "PATCH /roster": { body: { tournamentId: string; email: string }; result: Ok };
+  "DELETE /roster": { body: { tournamentId: string; email: string }; result: Ok };
+  "POST /join-code": { body: { tournamentId: string }; result: Ok & { code: string } };
+
+  "POST /tournament-status": {
+    body: { tournamentId: string; status: TournamentStatus };
+    result: Ok & { status: TournamentStatus };
+  };
+
+  "POST /tournament-teams": { body: { tournamentId: string; teamId: string }; result: Ok };
+  "PATCH /tournament-teams": { body: { id: string; patch: { pot?: number | null } }; result: Ok };
+  "DELETE /tournament-teams": { body: { id: string }; result: Ok };
+
+  "POST /draw": {
+    body: {
+      tournamentId: string;
+      mode: DrawMode;
+      seed: string;
+      avoidRepeat: boolean;
+      picks?: Record<string, string>;
+      /** true = parovi se otkrivaju jedan po jedan (ceremonija uživo) */
+      ceremony?: boolean;
+    };
+    result: Ok & { seed: string };
+  };
+  "PATCH /draw": { body: { tournamentId: string; revealed: number }; result: Ok & { revealed: number } };
+  "DELETE /draw": { body: { tournamentId: string }; result: Ok };
+
+  "POST /groups": { body: { tournamentId: string; assignment: Record<string, string | null> }; result: Ok };
+
+  "POST /fixtures": {
+    body: { tournamentId: string; legs: number; round1: Round1Override | null };
+    result: Ok & { count: number };
+  };
+  "DELETE /fixtures": { body: { tournamentId: string }; result: Ok };
+
+  "POST /matches": { body: { tournamentId: string; rows: MatchInsert[] }; result: Ok & { count: number } };
+  "PATCH /matches": {
+    body: { tournamentId: string; updates: { id: string; patch: MatchPatch }[] };
+    /** greška preračunavanja rejtinga posle upisa (rezultat je sačuvan) */
+    result: Ok & { ratingError: string | null };
+  };
+  "DELETE /matches": { body: { tournamentId: string }; result: Ok };
+
+  "POST /match-events": {
+    body: { tournamentId: string; matchId: string; events: MatchEventInput[]; stats: MatchStats | null };
+    result: Ok & { count: number };
+  };
+
+  /** Elo iz svih mečeva od nule (lib/elo) */
+  "POST /ratings": { body: Record<string, never>; result: Ok & { players: number; matches: number; applied: boolean } };
+
+  "POST /knockout": { body: { tournamentId: string; seeds: string[]; legs: 1 | 2 }; result: Ok };
+  "PATCH /knockout": {
+    body: { tournamentId: string; tieId: string; result: TieResult };
+    result: Ok & { outcome: TieOutcome };
+  };
+  "DELETE /knockout": { body: { tournamentId: string }; result: Ok };
+};
+
+export type AdminRoute = keyof AdminRoutes;
+export type AdminBody<R extends AdminRoute> = AdminRoutes[R]["body"];
+
+export type ApiResult<T> = { data: T | null; error: { message: string } | null };
+
+/** fetch sa Bearer tokenom trenutne sesije (admin rute i rute za ulogovane igrače). */
+export async function authedRequest<T>(url: string, method: string, body: unknown): Promise<ApiResult<T>> {
+  try {
+    const { data: sess, error: sessErr } = await supabase.auth.getSession();
+    if (sessErr) throw sessErr;
+
+    const token = sess.session?.access_token;
+    if (!token) throw new Error("Nema session tokena (uloguj se ponovo).");
+
+    const res = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        Authorization: `Bearer ${token}`,
+      },
+      body: JSON.stringify(body),
+    });
+
+    const json = await res.json().catch(() => ({}));
+    if (!res.ok) throw new Error(json?.error || `${method} ${url} failed (${res.status})`);
+
+    return { data: json as T, error: null };
+  } catch (e) {
+    const message = e instanceof Error ? e.message : (e as { message?: string } | null)?.message ?? "unknown";
+    return { data: null, error: { message } };
+  }
+}
+
+/**
+ * Poziv admin rute sa tokenom trenutne sesije.
+ * Vraća { data, error } kao supabase klijent, da dashboard ostane isti.
+ */
+export async function adminApi<R extends AdminRoute>(
+  route: R,
+  body: AdminBody<R>
+): Promise<ApiResult<AdminRoutes[R]["result"]>> {
+  const [method, path] = route.split(" ");
+  return authedRequest<AdminRoutes[R]["result"]>(`/api/admin${path}`, method, body);
+}
@@ -0,0 +1,135 @@
+import { NextResponse } from "next/server";
+import { createClient, type SupabaseClient, type User } from "@supabase/supabase-js";
+import { can, resolveRole, type Permission, type Role } from "@/lib/roles";
+
+/**
+ * Server-side guard za /api/* rute.
+ * - Bearer token iz header-a -> ko je pozvao
+ * - uloga iz lib/roles (isto kao getRole na klijentu)
+ * - admin rute: uloga mora imati traženu dozvolu
+ * - tek onda dobija service-role klijent (zaobilazi RLS)
+ */
+
+export type UserContext = {
+  user: User;
+  role: Role | null;
+  token: string;
+  /** service-role klijent – koristiti samo posle provere uloge */
+  db: SupabaseClient;
+};
+
+export type AdminContext = UserContext & { role: Role };
+
+export function must(name: string) {
+  const v = process.env[name];
+  if (!v) throw new Error(`Missing env: ${name}`);
+  return v;
+}
+
+export function fail(status: number, error: string) {
+  return NextResponse.json({ error }, { status });
+}
+
+/** service-role klijent (zaobilazi RLS) */
+function serviceClient() {
+  return createClient(must("NEXT_PUBLIC_SUPABASE_URL"), must("SUPABASE_SERVICE_ROLE_KEY"), {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+}
+
+export async function requireUser(req: Request): Promise<UserContext | NextResponse> {
+  const SUPABASE_URL = must("NEXT_PUBLIC_SUPABASE_URL");
+  const ANON_KEY = must("NEXT_PUBLIC_SUPABASE_ANON_KEY");
+
+  // 1) Token iz header-a (klijent mora da šalje)
+  const authHeader = req.headers.get("authorization") || "";
+  const token = authHeader.startsWith("Bearer ") ? authHeader.slice(7) : null;
+  if (!token) return fail(401, "Unauthorized (missing Bearer token)");
+
+  // 2) Validacija tokena -> ko je pozvao
+  const supabaseAnon = createClient(SUPABASE_URL, ANON_KEY, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: userRes, error: userErr } = await supabaseAnon.auth.getUser(token);
+  const user = userRes?.user;
+  if (userErr || !user) return fail(401, "Unauthorized (invalid token)");
+
+  // 3) Uloga (RLS mora dozvoliti read own profile)
+  const supabaseAuthed = createClient(SUPABASE_URL, ANON_KEY, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  let role: Role | null;
+  try {
+    role = await resolveRole(supabaseAuthed, user);
+  } catch (e) {
+    return fail(500, `Role check failed: ${(e as { message?: string } | null)?.message ?? "unknown"}`);
+  }
+
+  return { user, role, token, db: serviceClient() };
+}
+
+export async function requirePermission(
+  req: Request,
+  permission: Permission
+): Promise<AdminContext | NextResponse> {
+  const ctx = await requireUser(req);
+  if (ctx instanceof NextResponse) return ctx;
+
+  const { role } = ctx;
+  if (!role || !can(role, permission)) return fail(403, `Forbidden (missing permission: ${permission})`);
+
+  return { ...ctx, role };
+}
+
+async function handle<C, B>(
+  req: Request,
+  auth: Promise<C | NextResponse>,
+  handler: (ctx: C, body: B) => Promise<NextResponse>
+) {
+  try {
+    const ctx = await auth;
+    if (ctx instanceof NextResponse) return ctx;
+
+    const body = (await req.json().catch(() => ({}))) as B;
+    return await handler(ctx, body);
+  } catch (e) {
+    const message =
+      e instanceof Error ? e.message : (e as { message?: string } | null)?.message || "Server error";
+    return fail(500, message);
+  }
+}
+
+/** Auth + dozvola + JSON body + jedinstven format greške za sve admin rute. */
+export async function withAdmin<B>(
+  req: Request,
+  permission: Permission,
+  handler: (ctx: AdminContext, body: B) => Promise<NextResponse>
+) {
+  return handle(req, requirePermission(req, permission), handler);
+}
+
+/** Isto kao withAdmin, ali za bilo kog ulogovanog korisnika (npr. prijava na turnir). */
+export async function withUser<B>(req: Request, handler: (ctx: UserContext, body: B) => Promise<NextResponse>) {
+  return handle(req, requireUser(req), handler);
+}
+
+/**
+ * Ruta bez prijave (npr. nalog za prijavu na turnir kodom): handler sam proverava
+ * šta sme, pa tek onda koristi service-role klijent.
+ */
+export async function withService<B>(req: Request, handler: (ctx: { db: SupabaseClient }, body: B) => Promise<NextResponse>) {
+  return handle(req, Promise.resolve({ db: serviceClient() }), handler);
+}
+
+/** Samo dozvoljena polja iz patch-a (klijent ne može da menja id, tournament_id...). */
+export function pick<T extends object, K extends keyof T>(obj: T | null | undefined, keys: readonly K[]) {
+  const out: Partial<Pick<T, K>> = {};
+  if (!obj) return out;
+  for (const k of keys) {
+    if (k in obj && obj[k] !== undefined) out[k] = obj[k];
+  }
+  return out;
+}
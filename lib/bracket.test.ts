@@ -0,0 +1,92 @@
+import { describe, expect, it } from "vitest";
+import { buildBracket, roundName, seedOrder, tieOutcome, type KnockoutTieRow } from "@/lib/bracket";
+
+function tie(extra: Partial<KnockoutTieRow> = {}): KnockoutTieRow {
+  return {
+    id: "k1",
+    tournament_id: "t1",
+    round: 1,
+    slot: 1,
+    legs: 1,
+    home_team_id: "A",
+    away_team_id: "B",
+    home_seed: 1,
+    away_seed: 2,
+    leg1_home: null,
+    leg1_away: null,
+    leg2_home: null,
+    leg2_away: null,
+    et_home: null,
+    et_away: null,
+    pen_home: null,
+    pen_away: null,
+    winner_team_id: null,
+    ...extra,
+  };
+}
+
+describe("buildBracket", () => {
+  it("seeds 1 against N and keeps 1 and 2 apart until the final", () => {
+    expect(seedOrder(8)).toEqual([1, 8, 4, 5, 2, 7, 3, 6]);
+
+    const rows = buildBracket("t1", ["S1", "S2", "S3", "S4"], { legs: 2 });
+    const first = rows.filter((r) => r.round === 1);
+    expect(first.map((r) => [r.home_team_id, r.away_team_id])).toEqual([
+      ["S1", "S4"],
+      ["S2", "S3"],
+    ]);
+    expect(first.every((r) => r.legs === 2)).toBe(true);
+    // finale je jedna utakmica, osim ako nije zadato drugačije
+    expect(rows.find((r) => r.round === 2)?.legs).toBe(1);
+  });
+
+  it("gives byes to the top seeds and moves them into round 2", () => {
+    const rows = buildBracket("t1", ["S1", "S2", "S3", "S4", "S5", "S6"], { legs: 1 });
+    expect(rows.filter((r) => r.round === 1)).toHaveLength(4);
+
+    const byes = rows.filter((r) => r.round === 1 && !r.away_team_id);
+    expect(byes.map((r) => r.winner_team_id).sort()).toEqual(["S1", "S2"]);
+
+    const second = rows.filter((r) => r.round === 2);
+    expect(second.map((r) => r.home_team_id)).toEqual(["S1", "S2"]);
+    expect(second.every((r) => r.away_team_id === null)).toBe(true);
+  });
+
+  it("needs at least two teams", () => {
+    expect(() => buildBracket("t1", ["S1"], { legs: 1 })).toThrow(/bar 2 tima/);
+  });
+
+  it("names the rounds from the final back", () => {
+    expect([1, 2, 3, 4].map((r) => roundName(r, 4))).toEqual(["Osmina finala", "Četvrtfinale", "Polufinale", "Finale"]);
+  });
+});
+
+describe("tieOutcome", () => {
+  it("lets a bye through", () => {
+    expect(tieOutcome(tie({ away_team_id: null }))).toMatchObject({ winner: "A", decidedBy: "bye" });
+  });
+
+  it("waits for every leg", () => {
+    expect(tieOutcome(tie({ legs: 2, leg1_home: 2, leg1_away: 0 })).needs).toBe("legs");
+  });
+
+  it("decides on aggregate over two legs", () => {
+    const out = tieOutcome(tie({ legs: 2, leg1_home: 2, leg1_away: 0, leg2_home: 1, leg2_away: 2 }));
+    expect(out).toMatchObject({ winner: "A", homeTotal: 3, awayTotal: 2, decidedBy: "aggregate" });
+  });
+
+  it("goes to extra time after a level aggregate", () => {
+    const level = tie({ legs: 2, leg1_home: 1, leg1_away: 0, leg2_home: 0, leg2_away: 1 });
+    expect(tieOutcome(level).needs).toBe("extra_time");
+
+    const out = tieOutcome({ ...level, et_home: 0, et_away: 1 });
+    expect(out).toMatchObject({ winner: "B", homeTotal: 1, awayTotal: 2, decidedBy: "extra_time" });
+  });
+
+  it("goes to penalties after a level extra time", () => {
+    const level = tie({ leg1_home: 1, leg1_away: 1, et_home: 0, et_away: 0 });
+    expect(tieOutcome(level).needs).toBe("penalties");
+    expect(tieOutcome({ ...level, pen_home: 3, pen_away: 3 }).needs).toBe("penalties");
+    expect(tieOutcome({ ...level, pen_home: 5, pen_away: 4 })).toMatchObject({ winner: "A", decidedBy: "penalties" });
+  });
+});
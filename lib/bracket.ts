@@ -0,0 +1,318 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Knockout (single-elimination) stage after the league phase.
+ * - Top N of the standings are seeded (1 vs N, 2 vs N-1, ...), byes go to top seeds
+ * - Ties are one or two legs, then extra time, then penalties
+ * - Stored in `knockout_ties`; the winner is written into the next round's slot
+ */
+
+export type KnockoutTieRow = {
+  id: string;
+  tournament_id: string;
+  round: number; // 1 = prva nokaut runda, poslednja = finale
+  slot: number; // 1-based pozicija u rundi
+  legs: 1 | 2;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  home_seed: number | null;
+  away_seed: number | null;
+  // golovi su uvek iz ugla "home" tima veze (i u revanšu)
+  leg1_home: number | null;
+  leg1_away: number | null;
+  leg2_home: number | null;
+  leg2_away: number | null;
+  et_home: number | null;
+  et_away: number | null;
+  pen_home: number | null;
+  pen_away: number | null;
+  winner_team_id: string | null;
+  created_at?: string;
+};
+
+export type TieResult = Pick<
+  KnockoutTieRow,
+  "leg1_home" | "leg1_away" | "leg2_home" | "leg2_away" | "et_home" | "et_away" | "pen_home" | "pen_away"
+>;
+
+export type TieOutcome = {
+  winner: string | null;
+  homeTotal: number;
+  awayTotal: number;
+  decidedBy: "bye" | "aggregate" | "extra_time" | "penalties" | null;
+  /** Šta još fali da bi veza bila odlučena. */
+  needs: "legs" | "extra_time" | "penalties" | null;
+};
+
+export const BRACKET_SIZES = [2, 4, 8, 16, 32];
+
+export function nextPow2(n: number) {
+  let p = 1;
+  while (p < n) p *= 2;
+  return p;
+}
+
+/** Redosled nosilaca po slotovima (1,8,4,5,2,7,3,6 za 8) – 1 i 2 se sreću tek u finalu. */
+export function seedOrder(size: number): number[] {
+  let order = [1];
+  while (order.length < size) {
+    const n = order.length * 2;
+    order = order.flatMap((s) => [s, n + 1 - s]);
+  }
+  return order;
+}
+
+export function roundName(round: number, totalRounds: number) {
+  const left = totalRounds - round;
+  if (left === 0) return "Finale";
+  if (left === 1) return "Polufinale";
+  if (left === 2) return "Četvrtfinale";
+  if (left === 3) return "Osmina finala";
+  return `Runda ${round}`;
+}
+
+export function tieOutcome(t: KnockoutTieRow): TieOutcome {
+  const none = { homeTotal: 0, awayTotal: 0 };
+
+  if (t.home_team_id && !t.away_team_id && t.round === 1) {
+    return { ...none, winner: t.home_team_id, decidedBy: "bye", needs: null };
+  }
+  if (!t.home_team_id || !t.away_team_id) {
+    return { ...none, winner: null, decidedBy: null, needs: null };
+  }
+
+  const legsDone =
+    t.leg1_home !== null &&
+    t.leg1_away !== null &&
+    (t.legs === 1 || (t.leg2_home !== null && t.leg2_away !== null));
+  if (!legsDone) return { ...none, winner: null, decidedBy: null, needs: "legs" };
+
+  let homeTotal = (t.leg1_home ?? 0) + (t.leg2_home ?? 0);
+  let awayTotal = (t.leg1_away ?? 0) + (t.leg2_away ?? 0);
+
+  if (homeTotal !== awayTotal) {
+    return {
+      winner: homeTotal > awayTotal ? t.home_team_id : t.away_team_id,
+      homeTotal,
+      awayTotal,
+      decidedBy: "aggregate",
+      needs: null,
+    };
+  }
+
+  if (t.et_home === null || t.et_away === null) {
+    return { winner: null, homeTotal, awayTotal, decidedBy: null, needs: "extra_time" };
+  }
+
+  homeTotal += t.et_home;
+  awayTotal += t.et_away;
+  if (homeTotal !== awayTotal) {
+    return {
+      winner: homeTotal > awayTotal ? t.home_team_id : t.away_team_id,
+      homeTotal,
+      awayTotal,
+      decidedBy: "extra_time",
+      needs: null,
+    };
+  }
+
+  if (t.pen_home === null || t.pen_away === null || t.pen_home === t.pen_away) {
+    return { winner: null, homeTotal, awayTotal, decidedBy: null, needs: "penalties" };
+  }
+
+  return {
+    winner: t.pen_home > t.pen_away ? t.home_team_id : t.away_team_id,
+    homeTotal,
+    awayTotal,
+    decidedBy: "penalties",
+    needs: null,
+  };
+}
+
+/** Sve runde (prazne kasnije runde se popunjavaju kako pobednici prolaze). */
+export function buildBracket(
+  tournamentId: string,
+  seededTeamIds: string[],
+  opts: { legs: 1 | 2; finalLegs?: 1 | 2 }
+) {
+  if (seededTeamIds.length < 2) throw new Error("Za nokaut fazu trebaju bar 2 tima.");
+
+  const size = nextPow2(seededTeamIds.length);
+  const totalRounds = Math.log2(size);
+  const order = seedOrder(size);
+  const legsFor = (round: number) => (round === totalRounds ? opts.finalLegs ?? 1 : opts.legs);
+
+  const rows: Omit<KnockoutTieRow, "id" | "created_at">[] = [];
+
+  for (let round = 1; round <= totalRounds; round++) {
+    const ties = size / 2 ** round;
+    for (let slot = 1; slot <= ties; slot++) {
+      const base = {
+        tournament_id: tournamentId,
+        round,
+        slot,
+        legs: legsFor(round),
+        home_team_id: null as string | null,
+        away_team_id: null as string | null,
+        home_seed: null as number | null,
+        away_seed: null as number | null,
+        leg1_home: null,
+        leg1_away: null,
+        leg2_home: null,
+        leg2_away: null,
+        et_home: null,
+        et_away: null,
+        pen_home: null,
+        pen_away: null,
+        winner_team_id: null as string | null,
+      };
+
+      if (round === 1) {
+        const hs = order[(slot - 1) * 2];
+        const as = order[(slot - 1) * 2 + 1];
+        base.home_team_id = seededTeamIds[hs - 1] ?? null;
+        base.away_team_id = seededTeamIds[as - 1] ?? null;
+        base.home_seed = base.home_team_id ? hs : null;
+        base.away_seed = base.away_team_id ? as : null;
+        // bye: nosilac odmah prolazi
+        if (base.home_team_id && !base.away_team_id) base.winner_team_id = base.home_team_id;
+      }
+
+      rows.push(base);
+    }
+  }
+
+  // pobednike bye veza odmah upiši u drugu rundu
+  for (const r of rows.filter((x) => x.round === 1 && x.winner_team_id)) {
+    const next = rows.find((x) => x.round === 2 && x.slot === Math.ceil(r.slot / 2));
+    if (!next) continue;
+    if (r.slot % 2 === 1) {
+      next.home_team_id = r.winner_team_id;
+      next.home_seed = r.home_seed;
+    } else {
+      next.away_team_id = r.winner_team_id;
+      next.away_seed = r.home_seed;
+    }
+  }
+
+  return rows;
+}
+
+export async function loadBracket(supabase: SupabaseClient, tournamentId: string): Promise<KnockoutTieRow[]> {
+  const { data, error } = await supabase
+    .from("knockout_ties")
+    .select("*")
+    .eq("tournament_id", tournamentId)
+    .order("round", { ascending: true })
+    .order("slot", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as KnockoutTieRow[];
+}
+
+export async function createBracket(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  seededTeamIds: string[],
+  opts: { legs: 1 | 2; finalLegs?: 1 | 2 }
+) {
+  const rows = buildBracket(tournamentId, seededTeamIds, opts);
+
+  const { error: delErr } = await supabase.from("knockout_ties").delete().eq("tournament_id", tournamentId);
+  if (delErr) throw delErr;
+
+  const { error: insErr } = await supabase.from("knockout_ties").insert(rows);
+  if (insErr) throw insErr;
+
+  return true;
+}
+
+export async function resetBracket(supabase: SupabaseClient, tournamentId: string) {
+  const { error } = await supabase.from("knockout_ties").delete().eq("tournament_id", tournamentId);
+  if (error) throw error;
+  return true;
+}
+
+/**
+ * Upis rezultata veze + prolazak pobednika u sledeću rundu.
+ * Ako se pobednik promeni, kasnije runde na toj grani se brišu (rezultati i timovi).
+ */
+export async function saveTieResult(
+  supabase: SupabaseClient,
+  ties: KnockoutTieRow[],
+  tieId: string,
+  result: TieResult
+) {
+  const tie = ties.find((t) => t.id === tieId);
+  if (!tie) throw new Error("Veza nije pronađena.");
+  if (!tie.home_team_id || !tie.away_team_id) throw new Error("Oba tima moraju biti poznata pre upisa rezultata.");
+
+  const updated: KnockoutTieRow = { ...tie, ...result };
+  if (updated.legs === 1) {
+    updated.leg2_home = null;
+    updated.leg2_away = null;
+  }
+  const outcome = tieOutcome(updated);
+  // produžeci/penali važe samo kad je posle regularnog dela nerešeno
+  if (outcome.decidedBy === "aggregate" || outcome.needs === "legs") {
+    updated.et_home = null;
+    updated.et_away = null;
+  }
+  if (outcome.decidedBy !== "penalties" && outcome.needs !== "penalties") {
+    updated.pen_home = null;
+    updated.pen_away = null;
+  }
+
+  const { error } = await supabase
+    .from("knockout_ties")
+    .update({
+      leg1_home: updated.leg1_home,
+      leg1_away: updated.leg1_away,
+      leg2_home: updated.leg2_home,
+      leg2_away: updated.leg2_away,
+      et_home: updated.et_home,
+      et_away: updated.et_away,
+      pen_home: updated.pen_home,
+      pen_away: updated.pen_away,
+      winner_team_id: outcome.winner,
+    })
+    .eq("id", tie.id);
+  if (error) throw error;
+
+  if (outcome.winner === tie.winner_team_id) return outcome;
+
+  // propagacija kroz sledeće runde
+  let child = tie;
+  let winner = outcome.winner;
+  let seed = winner === tie.home_team_id ? tie.home_seed : winner === tie.away_team_id ? tie.away_seed : null;
+
+  for (;;) {
+    const next = ties.find((t) => t.round === child.round + 1 && t.slot === Math.ceil(child.slot / 2));
+    if (!next) break;
+
+    const isHome = child.slot % 2 === 1;
+    const patch = {
+      ...(isHome ? { home_team_id: winner, home_seed: seed } : { away_team_id: winner, away_seed: seed }),
+      leg1_home: null,
+      leg1_away: null,
+      leg2_home: null,
+      leg2_away: null,
+      et_home: null,
+      et_away: null,
+      pen_home: null,
+      pen_away: null,
+      winner_team_id: null,
+    };
+
+    const { error: nextErr } = await supabase.from("knockout_ties").update(patch).eq("id", next.id);
+    if (nextErr) throw nextErr;
+
+    if (!next.winner_team_id) break;
+    // stari pobednik ove veze više ne važi -> briši ga i dalje
+    child = next;
+    winner = null;
+    seed = null;
+  }
+
+  return outcome;
+}
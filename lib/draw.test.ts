@@ -0,0 +1,98 @@
+import { describe, expect, it } from "vitest";
+import { runDraw, teamPots, verifyDraw, type DrawInput, type DrawTeam } from "@/lib/draw";
+
+const players = ["ana@x.com", "bora@x.com", "ceca@x.com"];
+
+function teams(n: number, rating = (i: number) => 90 - i): DrawTeam[] {
+  return Array.from({ length: n }, (_, i) => ({ team_id: `T${i + 1}`, rating: rating(i), pot: null }));
+}
+
+function input(extra: Partial<DrawInput> = {}): DrawInput {
+  return { mode: "random", seed: "abc123", players, teams: teams(6), previous: {}, ...extra };
+}
+
+const teamOf = (rows: { player_email: string; team_id: string }[]) =>
+  Object.fromEntries(rows.map((r) => [r.player_email, r.team_id]));
+
+describe("runDraw", () => {
+  it("gives the same result for the same seed", () => {
+    const a = runDraw(input());
+    expect(runDraw(input())).toEqual(a);
+    // redosled igrača u ulazu ne menja ishod
+    expect(teamOf(runDraw(input({ players: [...players].reverse() })))).toEqual(teamOf(a));
+  });
+
+  it("changes with the seed", () => {
+    const results = ["s1", "s2", "s3", "s4", "s5"].map((seed) => JSON.stringify(teamOf(runDraw(input({ seed })))));
+    expect(new Set(results).size).toBeGreaterThan(1);
+  });
+
+  it("gives every player a different team", () => {
+    const rows = runDraw(input());
+    expect(rows.map((r) => r.player_email).sort()).toEqual(players);
+    expect(new Set(rows.map((r) => r.team_id)).size).toBe(players.length);
+  });
+
+  it("keeps players away from last tournament's team", () => {
+    const previous = { "ana@x.com": "T1", "bora@x.com": "T2", "ceca@x.com": "T3" };
+    for (const seed of ["s1", "s2", "s3"]) {
+      const rows = runDraw(input({ seed, teams: teams(4), previous }));
+      for (const r of rows) expect(r.team_id).not.toBe(previous[r.player_email as keyof typeof previous]);
+    }
+  });
+
+  it("fails when the restriction cannot be met", () => {
+    const two = { ...input(), players: ["ana@x.com", "bora@x.com"], teams: teams(2) };
+    expect(() => runDraw({ ...two, previous: { "ana@x.com": "T1", "bora@x.com": "T1" } })).toThrow(/Žreb nije moguć/);
+  });
+
+  describe("pots", () => {
+    it("fills pot 1 first, by rating", () => {
+      const rows = runDraw(input({ mode: "pots" }));
+      expect(rows.map((r) => r.team_id).sort()).toEqual(["T1", "T2", "T3"]);
+      expect(rows.every((r) => r.draw_note.startsWith("Šešir 1"))).toBe(true);
+    });
+
+    it("puts manual pots before rated teams", () => {
+      const list = teams(4);
+      list[3] = { ...list[3], pot: 1 };
+      const pots = teamPots(list, 2);
+      expect(pots.get("T4")).toBe(1);
+      expect([pots.get("T1"), pots.get("T2"), pots.get("T3")]).toEqual([2, 2, 3]);
+    });
+  });
+
+  describe("snake", () => {
+    const picks = { "ana@x.com": "T4", "bora@x.com": "T5", "ceca@x.com": "T6" };
+
+    it("assigns the picks in a seeded order", () => {
+      const rows = runDraw(input({ mode: "snake", picks }));
+      expect(teamOf(rows)).toEqual(picks);
+      expect(rows.map((r) => r.draw_note)).toEqual(["Izbor #1", "Izbor #2", "Izbor #3"]);
+      expect(runDraw(input({ mode: "snake", picks })).map((r) => r.player_email)).toEqual(
+        rows.map((r) => r.player_email)
+      );
+    });
+
+    it("rejects a team picked twice", () => {
+      expect(() => runDraw(input({ mode: "snake", picks: { ...picks, "ceca@x.com": "T4" } }))).toThrow(/već izabran/);
+    });
+  });
+});
+
+describe("verifyDraw", () => {
+  it("accepts the recorded result and rejects a changed one", () => {
+    const record = { input: input({ mode: "pots" }) };
+    const rows = runDraw(record.input);
+
+    expect(verifyDraw(record, rows)).toBe(true);
+
+    const swapped = rows.map((r, i) => ({ ...r, team_id: rows[(i + 1) % rows.length].team_id }));
+    expect(verifyDraw(record, swapped)).toBe(false);
+    expect(verifyDraw(record, rows.slice(1))).toBe(false);
+  });
+
+  it("cannot verify a draw whose input is not published yet", () => {
+    expect(verifyDraw({ input: null }, [])).toBe(false);
+  });
+});
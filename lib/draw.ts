@@ -0,0 +1,394 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Draw helpers (žreb timova / grupa).
+ *
+ * Žreb igrač -> tim ima tri načina:
+ * - random: svaki igrač dobija nasumičan tim
+ * - pots: timovi se dele u šešire po rejtingu (ili ručnom šeširu); prvo se troši šešir 1,
+ *   pa 2... tako da svi igraju sa timovima sličnog nivoa
+ * - snake: igrači sami biraju tim redom koji određuje seed (jedan tim po igraču = jedan prolaz)
+ *
+ * Ograničenje "bez prošlog tima": igrač ne može dobiti tim sa kojim je igrao prošli turnir.
+ * Žreb se beleži u tournament_draws (seed + ulaz), pa se može ponoviti i proveriti.
+ *
+ * Ceremonija uživo: tournament_draws.revealed = koliko parova je otkriveno. Admin ga pomera,
+ * svi na player strani prate promene preko Supabase realtime-a. Dok ceremonija traje, seed i
+ * ulaz čekaju u tournament_draw_secrets (samo service role), a u zapisu su samo otkriveni
+ * parovi (pairs); tournament_players, seed i ulaz se upisuju tek kad je otkriven poslednji par.
+ */
+
+export type DrawMode = "random" | "pots" | "snake";
+
+export const DRAW_MODES: DrawMode[] = ["random", "pots", "snake"];
+
+export const DRAW_MODE_LABELS: Record<DrawMode, string> = {
+  random: "Nasumično",
+  pots: "Šeširi po rejtingu",
+  snake: "Igrači biraju redom",
+};
+
+export type DrawTeam = { team_id: string; rating: number | null; pot: number | null };
+
+/** Sve što određuje ishod žreba – čuva se uz seed. */
+export type DrawInput = {
+  mode: DrawMode;
+  seed: string;
+  players: string[];
+  teams: DrawTeam[];
+  /** email -> tim sa prošlog turnira (prazno ako ograničenje nije uključeno) */
+  previous: Record<string, string>;
+  /** samo za snake: email -> izabrani tim */
+  picks?: Record<string, string>;
+};
+
+export type DrawAssignment = { player_email: string; team_id: string; draw_note: string };
+
+export type DrawRecord = {
+  id: string;
+  tournament_id: string;
+  mode: DrawMode;
+  /** null dok ceremonija traje (iz seed-a i ulaza bi se parovi izračunali unapred) */
+  seed: string | null;
+  avoid_repeat: boolean;
+  input: DrawInput | null;
+  /** broj parova (igrača) u žrebu */
+  total: number;
+  /** otkriveni parovi, redom */
+  pairs: DrawAssignment[];
+  /** broj otkrivenih parova (ceremonija); = total kad je sve otkriveno */
+  revealed: number;
+  created_at?: string;
+};
+
+export function shuffle<T>(arr: T[], rng: () => number = Math.random) {
+  const a = [...arr];
+  for (let i = a.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [a[i], a[j]] = [a[j], a[i]];
+  }
+  return a;
+}
+
+/** Deterministički generator (mulberry32) iz string seed-a. */
+export function seededRandom(seed: string) {
+  let h = 1779033703 ^ seed.length;
+  for (let i = 0; i < seed.length; i++) {
+    h = Math.imul(h ^ seed.charCodeAt(i), 3432918353);
+    h = (h << 13) | (h >>> 19);
+  }
+  let a = h >>> 0;
+
+  return () => {
+    a = (a + 0x6d2b79f5) | 0;
+    let t = Math.imul(a ^ (a >>> 15), 1 | a);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function newSeed() {
+  const bytes = new Uint8Array(6);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export function parseDrawMode(raw: unknown): DrawMode | null {
+  return typeof raw === "string" && (DRAW_MODES as string[]).includes(raw) ? (raw as DrawMode) : null;
+}
+
+/**
+ * Šešir tima: ručni šešir (tournament_teams.pot) ima prednost, inače po rejtingu –
+ * najjači timovi u šešir 1, veličina šešira = broj igrača. Timovi bez rejtinga idu poslednji.
+ */
+export function teamPots(teams: DrawTeam[], playerCount: number): Map<string, number> {
+  const out = new Map<string, number>();
+  const size = Math.max(1, playerCount);
+
+  const manual = teams.filter((t) => t.pot !== null);
+  for (const t of manual) out.set(t.team_id, t.pot!);
+
+  const offset = manual.length ? Math.max(...manual.map((t) => t.pot!)) : 0;
+  const rated = teams
+    .filter((t) => t.pot === null)
+    .sort((a, b) => (b.rating ?? -Infinity) - (a.rating ?? -Infinity) || a.team_id.localeCompare(b.team_id));
+  rated.forEach((t, idx) => out.set(t.team_id, offset + Math.floor(idx / size) + 1));
+
+  return out;
+}
+
+/** Redosled biranja za snake žreb (isti seed = isti redosled). */
+export function pickOrder(players: string[], seed: string) {
+  return shuffle([...players].sort(), seededRandom(`${seed}:order`));
+}
+
+/**
+ * Izvršava žreb. Isti ulaz (uključujući seed) uvek daje isti rezultat.
+ * Baca Error ako ograničenja ne mogu da se ispune.
+ */
+export function runDraw(input: DrawInput): DrawAssignment[] {
+  const { mode, seed, teams, previous } = input;
+  const players = [...input.players].sort();
+
+  if (players.length < 2) throw new Error("Treba bar 2 igrača u rosteru.");
+  if (teams.length < players.length) throw new Error("Nema dovoljno timova u turniru (mora bar koliko i igrača).");
+
+  const teamIds = new Set(teams.map((t) => t.team_id));
+
+  if (mode === "snake") {
+    const picks = input.picks ?? {};
+    const taken = new Set<string>();
+
+    return pickOrder(players, seed).map((email, idx) => {
+      const team = picks[email];
+      if (!team) throw new Error(`Nedostaje izbor za ${email}.`);
+      if (!teamIds.has(team)) throw new Error(`Tim za ${email} nije u turniru.`);
+      if (taken.has(team)) throw new Error(`Tim za ${email} je već izabran.`);
+      if (previous[email] === team) throw new Error(`${email} ne može izabrati tim sa prošlog turnira.`);
+      taken.add(team);
+      return { player_email: email, team_id: team, draw_note: `Izbor #${idx + 1}` };
+    });
+  }
+
+  const rng = seededRandom(seed);
+  const pots = mode === "pots" ? teamPots(teams, players.length) : null;
+
+  // kandidati: nasumično, a kod šešira još i sortirano po šeširu (stabilno)
+  const order = shuffle(players, rng);
+  const candidates = new Map(
+    order.map((email) => {
+      const list = shuffle(teams.map((t) => t.team_id).sort(), rng);
+      if (pots) list.sort((a, b) => pots.get(a)! - pots.get(b)!);
+      return [email, list.filter((t) => previous[email] !== t)];
+    })
+  );
+
+  // pretraga sa vraćanjem – sa jednim zabranjenim timom po igraču skoro nikad ne zatreba
+  const used = new Set<string>();
+  const chosen = new Map<string, string>();
+
+  const place = (i: number): boolean => {
+    if (i === order.length) return true;
+    const email = order[i];
+    for (const team of candidates.get(email)!) {
+      if (used.has(team)) continue;
+      used.add(team);
+      chosen.set(email, team);
+      if (place(i + 1)) return true;
+      used.delete(team);
+      chosen.delete(email);
+    }
+    return false;
+  };
+
+  if (!place(0)) throw new Error("Žreb nije moguć: ograničenje „bez prošlog tima“ ne može da se ispuni.");
+
+  return order.map((email) => {
+    const team = chosen.get(email)!;
+    const notes = [pots ? `Šešir ${pots.get(team)}` : "Nasumično"];
+    if (previous[email]) notes.push("bez prošlog tima");
+    return { player_email: email, team_id: team, draw_note: notes.join(" • ") };
+  });
+}
+
+/** Ponavlja žreb iz zapisa i poredi sa trenutnim dodelama. */
+export function verifyDraw(record: Pick<DrawRecord, "input">, current: { player_email: string; team_id: string }[]) {
+  if (!record.input) return false;
+  const expected = new Map(runDraw(record.input).map((a) => [a.player_email, a.team_id]));
+  if (expected.size !== current.length) return false;
+  return current.every((c) => expected.get(c.player_email) === c.team_id);
+}
+
+/**
+ * Tim svakog igrača sa njegovog poslednjeg turnira (pre ovog).
+ * Poslednji = najnoviji po datumu turnira (pa po created_at).
+ */
+export async function loadPreviousTeams(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  emails: string[]
+): Promise<Record<string, string>> {
+  if (emails.length === 0) return {};
+
+  const { data, error } = await supabase
+    .from("tournament_players")
+    .select("player_email, team_id, tournament_id, tournaments!inner(date, created_at)")
+    .in("player_email", emails)
+    .neq("tournament_id", tournamentId);
+  if (error) throw error;
+
+  type Row = {
+    player_email: string;
+    team_id: string;
+    tournaments: { date: string | null; created_at: string | null } | { date: string | null; created_at: string | null }[];
+  };
+  const when = (r: Row) => {
+    const t = Array.isArray(r.tournaments) ? r.tournaments[0] : r.tournaments;
+    return `${t?.date ?? ""}|${t?.created_at ?? ""}`;
+  };
+
+  const latest = new Map<string, Row>();
+  for (const r of (data ?? []) as Row[]) {
+    const prev = latest.get(r.player_email);
+    if (!prev || when(r) > when(prev)) latest.set(r.player_email, r);
+  }
+
+  return Object.fromEntries(Array.from(latest, ([email, r]) => [email, r.team_id]));
+}
+
+export async function loadLatestDraw(supabase: SupabaseClient, tournamentId: string): Promise<DrawRecord | null> {
+  const { data, error } = await supabase
+    .from("tournament_draws")
+    .select("*")
+    .eq("tournament_id", tournamentId)
+    .order("created_at", { ascending: false })
+    .limit(1);
+  if (error) throw error;
+  return ((data ?? [])[0] as DrawRecord | undefined) ?? null;
+}
+
+/** Timovi turnira sa šeširom i rejtingom (teams.rating). */
+export async function loadDrawTeams(supabase: SupabaseClient, tournamentId: string): Promise<DrawTeam[]> {
+  const { data, error } = await supabase
+    .from("tournament_teams")
+    .select("team_id, pot, teams(rating)")
+    .eq("tournament_id", tournamentId);
+  if (error) throw error;
+
+  type Row = { team_id: string; pot: number | null; teams: { rating: number | null } | { rating: number | null }[] | null };
+  return ((data ?? []) as Row[]).map((r) => {
+    const team = Array.isArray(r.teams) ? r.teams[0] : r.teams;
+    return { team_id: r.team_id, pot: r.pot ?? null, rating: team?.rating ?? null };
+  });
+}
+
+export function drawSize(record: Pick<DrawRecord, "total">) {
+  return record.total;
+}
+
+/** Otkriveni parovi; stari zapisi (bez pairs) ih računaju iz objavljenog ulaza. */
+export function revealedPairs(record: DrawRecord): DrawAssignment[] {
+  if (record.pairs?.length || !record.input) return (record.pairs ?? []).slice(0, record.revealed);
+  try {
+    return runDraw(record.input).slice(0, record.revealed);
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Upis novog žreba (service-role klijent). Bez ceremonije sve je odmah objavljeno;
+ * sa ceremonijom parovi čekaju u tournament_draw_secrets do poslednjeg otkrivanja.
+ */
+export async function saveDraw(
+  db: SupabaseClient,
+  tournamentId: string,
+  opts: { input: DrawInput; rows: DrawAssignment[]; ceremony: boolean; avoidRepeat: boolean; createdBy: string | null }
+) {
+  const { input, rows, ceremony } = opts;
+
+  await clearDraw(db, tournamentId);
+  if (!ceremony) await writeAssignments(db, tournamentId, rows);
+
+  const { data, error } = await db
+    .from("tournament_draws")
+    .insert({
+      tournament_id: tournamentId,
+      mode: input.mode,
+      seed: ceremony ? null : input.seed,
+      avoid_repeat: opts.avoidRepeat,
+      input: ceremony ? null : input,
+      total: rows.length,
+      pairs: ceremony ? [] : rows,
+      revealed: ceremony ? 0 : rows.length,
+      created_by: opts.createdBy,
+    })
+    .select("id")
+    .single();
+  if (error) throw error;
+
+  if (ceremony) {
+    const { error: secretErr } = await db
+      .from("tournament_draw_secrets")
+      .insert({ draw_id: data.id, tournament_id: tournamentId, input });
+    if (secretErr) throw secretErr;
+  }
+  return data.id as string;
+}
+
+/**
+ * Ceremonija: objavljuje prvih `revealed` parova. Posle poslednjeg para upisuje
+ * tournament_players i objavljuje seed i ulaz (da svako može da proveri žreb).
+ */
+export async function revealDraw(db: SupabaseClient, record: DrawRecord, revealed: number) {
+  const n = Math.max(0, Math.min(record.total, Math.floor(revealed)));
+
+  const { data: secret, error } = await db
+    .from("tournament_draw_secrets")
+    .select("input")
+    .eq("draw_id", record.id)
+    .maybeSingle();
+  if (error) throw error;
+
+  // objavljen žreb nema tajni ulaz (PATCH /draw ga odbija pre ovoga)
+  const input = secret?.input as DrawInput | undefined;
+  if (!input) throw new Error("Žreb je već objavljen.");
+  const rows = runDraw(input);
+  const publish = n >= record.total;
+
+  if (publish) await writeAssignments(db, record.tournament_id, rows);
+
+  const { error: updErr } = await db
+    .from("tournament_draws")
+    .update({ revealed: n, pairs: rows.slice(0, n), ...(publish ? { seed: input.seed, input } : {}) })
+    .eq("id", record.id);
+  if (updErr) throw updErr;
+
+  if (publish) {
+    const { error: delErr } = await db.from("tournament_draw_secrets").delete().eq("draw_id", record.id);
+    if (delErr) throw delErr;
+  }
+  return n;
+}
+
+/** Briše dodele igrač -> tim i neobjavljene ceremonije turnira (nov žreb ili reset). */
+export async function clearDraw(db: SupabaseClient, tournamentId: string) {
+  const { error } = await db.from("tournament_players").delete().eq("tournament_id", tournamentId);
+  if (error) throw error;
+  const { error: secretErr } = await db.from("tournament_draw_secrets").delete().eq("tournament_id", tournamentId);
+  if (secretErr) throw secretErr;
+}
+
+async function writeAssignments(db: SupabaseClient, tournamentId: string, rows: DrawAssignment[]) {
+  const { error: delErr } = await db.from("tournament_players").delete().eq("tournament_id", tournamentId);
+  if (delErr) throw delErr;
+  const { error } = await db.from("tournament_players").insert(rows.map((r) => ({ tournament_id: tournamentId, ...r })));
+  if (error) throw error;
+}
+
+export function ceremonyInProgress(record: DrawRecord | null) {
+  return Boolean(record && record.revealed < drawSize(record));
+}
+
+/** Realtime: svaka promena zapisa žreba za turnir (nov žreb ili otkriven par). */
+export function subscribeToDraws(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  onRecord: (record: DrawRecord, isNew: boolean) => void
+) {
+  const channel = supabase
+    .channel(`draws:${tournamentId}`)
+    .on(
+      "postgres_changes",
+      { event: "*", schema: "public", table: "tournament_draws", filter: `tournament_id=eq.${tournamentId}` },
+      (payload) => {
+        if (payload.eventType === "DELETE") return;
+        onRecord(payload.new as DrawRecord, payload.eventType === "INSERT");
+      }
+    )
+    .subscribe();
+
+  return () => {
+    supabase.removeChannel(channel);
+  };
+}
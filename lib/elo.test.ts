@@ -0,0 +1,94 @@
+import { describe, expect, it } from "vitest";
+import { ELO_START, eloDelta, replayRatings } from "@/lib/elo";
+import { buildTeamOwners } from "@/lib/scorers";
+import type { MatchRow } from "@/lib/standings";
+
+let seq = 0;
+
+function match(home: string, away: string, score: [number, number] | null, playedAt: string, extra: Partial<MatchRow> = {}): MatchRow {
+  seq += 1;
+  return {
+    id: `m${seq}`,
+    tournament_id: "t1",
+    round: 1,
+    home_team_id: home,
+    away_team_id: away,
+    player1_email: null,
+    player2_email: null,
+    player1_score: score ? score[0] : null,
+    player2_score: score ? score[1] : null,
+    played_at: score ? playedAt : null,
+    ...extra,
+  };
+}
+
+const owners = buildTeamOwners([
+  { tournament_id: "t1", team_id: "A", player_email: "ana@x.com" },
+  { tournament_id: "t1", team_id: "B", player_email: "bora@x.com" },
+  { tournament_id: "t1", team_id: "C", player_email: "ceca@x.com" },
+]);
+const noRatings = new Map<string, number | null>();
+const opts = { k: 32, adjustForTeams: true, teamWeight: 10 };
+
+describe("eloDelta", () => {
+  it("moves equal players by half of K", () => {
+    expect(eloDelta(1500, 1500, 1, 0, opts)).toBe(16);
+    expect(eloDelta(1500, 1500, 0, 0, opts)).toBe(-16);
+    expect(eloDelta(1500, 1500, 0.5, 0, opts)).toBe(0);
+  });
+
+  it("gives less for beating a weaker player", () => {
+    expect(eloDelta(1700, 1500, 1, 0, opts)).toBeLessThan(16);
+    expect(eloDelta(1500, 1700, 1, 0, opts)).toBeGreaterThan(16);
+  });
+
+  it("counts the stronger team as an expected edge", () => {
+    expect(eloDelta(1500, 1500, 1, 10, opts)).toBeLessThan(16);
+    expect(eloDelta(1500, 1500, 1, 10, { ...opts, adjustForTeams: false })).toBe(16);
+  });
+});
+
+describe("replayRatings", () => {
+  it("replays matches in played order and keeps the rating sum", () => {
+    const late = match("A", "C", [0, 1], "2026-01-02T12:00:00Z");
+    const early = match("A", "B", [2, 0], "2026-01-01T12:00:00Z");
+    const { ratings, history } = replayRatings([late, early], owners, noRatings, opts);
+
+    expect(history.map((h) => h.match_id)).toEqual([early.id, early.id, late.id, late.id]);
+    expect(history[0]).toMatchObject({ player_email: "ana@x.com", rating_before: ELO_START, delta: 16 });
+    expect(ratings.reduce((s, r) => s + r.rating, 0)).toBe(3 * ELO_START);
+
+    const ana = ratings.find((r) => r.player_email === "ana@x.com")!;
+    expect(ana).toMatchObject({ played: 2, peak: ELO_START + 16, updated_at: late.played_at });
+  });
+
+  it("uses the players written on the match before team owners", () => {
+    const m = match("A", "B", [1, 0], "2026-01-01T12:00:00Z", { player1_email: "Dule@x.com" });
+    const { history } = replayRatings([m], owners, noRatings, opts);
+    expect(history.map((h) => h.player_email)).toEqual(["dule@x.com", "bora@x.com"]);
+  });
+
+  it("skips unplayed, unconfirmed and ownerless matches", () => {
+    const { ratings, history } = replayRatings(
+      [
+        match("A", "B", null, ""),
+        match("A", "B", [1, 0], "2026-01-01T12:00:00Z", { result_status: "pending" }),
+        match("A", "X", [1, 0], "2026-01-01T12:00:00Z"),
+        match("A", "B", [1, 0], "2026-01-01T12:00:00Z", { player2_email: "ana@x.com" }),
+      ],
+      owners,
+      noRatings,
+      opts
+    );
+    expect(history).toEqual([]);
+    expect(ratings).toEqual([]);
+  });
+
+  it("adjusts for team ratings only when both teams have one", () => {
+    const m = match("A", "B", [1, 0], "2026-01-01T12:00:00Z");
+    const rated = replayRatings([m], owners, new Map([["A", 90], ["B", 80]]), opts).history[0];
+    const half = replayRatings([m], owners, new Map([["A", 90]]), opts).history[0];
+    expect(rated.delta).toBeLessThan(16);
+    expect(half.delta).toBe(16);
+  });
+});
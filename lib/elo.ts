@@ -0,0 +1,189 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { selectAll } from "@/lib/paging";
+import { buildTeamOwners, type TeamOwners } from "@/lib/scorers";
+import { isScored, type MatchRow } from "@/lib/standings";
+
+/**
+ * Elo rejting igrača (čoveka, po player_email).
+ * - računa se hronološkim prolazom kroz sve potvrđene mečeve (isti ulaz = isti rejting)
+ * - posle svakog upisa/izmene rezultata sve se preračunava, pa izmena starog rezultata
+ *   ne ostavlja "duple" promene; isto radi i dugme "Preračunaj" na rang listi
+ * - upis je jedna transakcija (SQL replace_ratings), a od dva istovremena preračunavanja
+ *   ostaje ono koje je kasnije počelo (begin_rating_run)
+ * - opciono: razlika u jačini izvučenih timova (teams.rating) pomera očekivani ishod
+ * - player_ratings = trenutno stanje, rating_history = promena po meču
+ */
+
+export const ELO_START = 1500;
+
+export type EloOptions = {
+  k: number;
+  /** uračunaj razliku u rejtingu timova */
+  adjustForTeams: boolean;
+  /** Elo poena po poenu razlike u rejtingu timova */
+  teamWeight: number;
+};
+
+export const ELO_OPTIONS: EloOptions = { k: 32, adjustForTeams: true, teamWeight: 10 };
+
+export type PlayerRating = {
+  player_email: string;
+  rating: number;
+  played: number;
+  peak: number;
+  updated_at: string | null;
+};
+
+export type RatingHistoryRow = {
+  player_email: string;
+  opponent_email: string;
+  match_id: string;
+  tournament_id: string;
+  played_at: string | null;
+  rating_before: number;
+  rating_after: number;
+  delta: number;
+};
+
+export function expectedScore(rating: number, opponent: number) {
+  return 1 / (1 + Math.pow(10, (opponent - rating) / 400));
+}
+
+/**
+ * Promena za igrača A (B dobija -delta). `score`: 1 pobeda, 0.5 nerešeno, 0 poraz.
+ * `teamGap`: rejting tima A minus rejting tima B.
+ */
+export function eloDelta(ratingA: number, ratingB: number, score: number, teamGap = 0, opts: EloOptions = ELO_OPTIONS) {
+  const boost = opts.adjustForTeams ? teamGap * opts.teamWeight : 0;
+  return Math.round(opts.k * (score - expectedScore(ratingA + boost, ratingB)));
+}
+
+/** Hronološki prolaz kroz mečeve. Mečevi bez oba igrača (npr. tim bez vlasnika) se preskaču. */
+export function replayRatings(
+  matches: MatchRow[],
+  owners: TeamOwners,
+  teamRating: Map<string, number | null>,
+  opts: EloOptions = ELO_OPTIONS
+) {
+  const state = new Map<string, PlayerRating>();
+  const history: RatingHistoryRow[] = [];
+
+  const get = (email: string) => {
+    const cur = state.get(email) ?? { player_email: email, rating: ELO_START, played: 0, peak: ELO_START, updated_at: null };
+    state.set(email, cur);
+    return cur;
+  };
+
+  const ordered = matches
+    .filter(isScored)
+    .sort((a, b) => (a.played_at ?? "").localeCompare(b.played_at ?? "") || a.id.localeCompare(b.id));
+
+  for (const m of ordered) {
+    const owner = (teamId: string) => owners.get(m.tournament_id)?.get(teamId) ?? null;
+    const home = m.player1_email?.toLowerCase() ?? owner(m.home_team_id);
+    const away = m.player2_email?.toLowerCase() ?? owner(m.away_team_id);
+    if (!home || !away || home === away) continue;
+
+    const a = get(home);
+    const b = get(away);
+    const score = m.player1_score > m.player2_score ? 1 : m.player1_score < m.player2_score ? 0 : 0.5;
+    const gap = (teamRating.get(m.home_team_id) ?? 0) - (teamRating.get(m.away_team_id) ?? 0);
+    const hasGap = teamRating.get(m.home_team_id) != null && teamRating.get(m.away_team_id) != null;
+    const delta = eloDelta(a.rating, b.rating, score, hasGap ? gap : 0, opts);
+
+    for (const [p, opp, d] of [
+      [a, b, delta],
+      [b, a, -delta],
+    ] as const) {
+      history.push({
+        player_email: p.player_email,
+        opponent_email: opp.player_email,
+        match_id: m.id,
+        tournament_id: m.tournament_id,
+        played_at: m.played_at,
+        rating_before: p.rating,
+        rating_after: p.rating + d,
+        delta: d,
+      });
+    }
+
+    a.rating += delta;
+    b.rating -= delta;
+    for (const p of [a, b]) {
+      p.played += 1;
+      p.peak = Math.max(p.peak, p.rating);
+      p.updated_at = m.played_at;
+    }
+  }
+
+  return { ratings: Array.from(state.values()), history };
+}
+
+/**
+ * Preračunava ceo rejting iz svih mečeva i upisuje ga (service-role klijent).
+ * `applied: false` znači da je u međuvremenu upisano novije preračunavanje.
+ */
+export async function recomputeRatings(supabase: SupabaseClient, opts: EloOptions = ELO_OPTIONS) {
+  const { data: runId, error: runErr } = await supabase.rpc("begin_rating_run");
+  if (runErr) throw runErr;
+
+  const [matches, players, teams] = await Promise.all([
+    selectAll<MatchRow>((from, to) =>
+      supabase.from("matches").select("*").not("played_at", "is", null).order("id").range(from, to)
+    ),
+    selectAll<{ tournament_id: string; team_id: string; player_email: string }>((from, to) =>
+      supabase.from("tournament_players").select("tournament_id, team_id, player_email").order("id").range(from, to)
+    ),
+    selectAll<{ id: string; rating: number | null }>((from, to) =>
+      supabase.from("teams").select("id, rating").order("id").range(from, to)
+    ),
+  ]);
+
+  const { ratings, history } = replayRatings(
+    matches,
+    buildTeamOwners(players),
+    new Map(teams.map((t) => [t.id, t.rating])),
+    opts
+  );
+
+  const { data: applied, error } = await supabase.rpc("replace_ratings", { run_id: runId, ratings, history });
+  if (error) throw error;
+
+  return { players: ratings.length, matches: history.length / 2, applied: Boolean(applied) };
+}
+
+/**
+ * Preračunavanje posle upisa rezultata: rezultat je već sačuvan, pa greška ne ruši rutu,
+ * nego se vraća klijentu (rejting se može preračunati ručno na rang listi).
+ */
+export async function recomputeRatingsAfterResult(supabase: SupabaseClient): Promise<string | null> {
+  try {
+    await recomputeRatings(supabase);
+    return null;
+  } catch (e) {
+    return e instanceof Error ? e.message : (e as { message?: string } | null)?.message ?? "unknown";
+  }
+}
+
+export async function loadRatings(supabase: SupabaseClient): Promise<PlayerRating[]> {
+  return selectAll<PlayerRating>((from, to) =>
+    supabase
+      .from("player_ratings")
+      .select("*")
+      .order("rating", { ascending: false })
+      .order("player_email")
+      .range(from, to)
+  );
+}
+
+export async function loadRatingHistory(supabase: SupabaseClient, email: string): Promise<RatingHistoryRow[]> {
+  return selectAll<RatingHistoryRow>((from, to) =>
+    supabase
+      .from("rating_history")
+      .select("*")
+      .eq("player_email", email.toLowerCase())
+      .order("played_at", { ascending: true })
+      .order("id")
+      .range(from, to)
+  );
+}
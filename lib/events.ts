@@ -0,0 +1,143 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Detalji meča kao na PES ekranu statistike (opciono, uz rezultat):
+ * - match_events: strelci (pravi fudbaleri) i asistenti, autogolovi, žuti/crveni kartoni, minut
+ * - matches.stats: posed i šutevi na kraju meča
+ *
+ * `side` je tim za koji fudbaler igra; autogol se računa protivničkoj strani.
+ */
+
+export type EventKind = "goal" | "own_goal" | "yellow" | "red";
+export type EventSide = "home" | "away";
+
+export const EVENT_KINDS: EventKind[] = ["goal", "own_goal", "yellow", "red"];
+
+export const EVENT_LABELS: Record<EventKind, string> = {
+  goal: "⚽ Gol",
+  own_goal: "⚽ Autogol",
+  yellow: "🟨 Žuti karton",
+  red: "🟥 Crveni karton",
+};
+
+export type MatchEvent = {
+  id: string;
+  match_id: string;
+  tournament_id: string;
+  kind: EventKind;
+  side: EventSide;
+  player_name: string;
+  /** samo za gol */
+  assist_name: string | null;
+  minute: number | null;
+  created_at?: string;
+};
+
+export type MatchEventInput = Pick<MatchEvent, "kind" | "side" | "player_name" | "assist_name" | "minute">;
+
+export type MatchStats = {
+  home_possession: number | null;
+  home_shots: number | null;
+  away_shots: number | null;
+  home_shots_on_target: number | null;
+  away_shots_on_target: number | null;
+};
+
+export const EMPTY_STATS: MatchStats = {
+  home_possession: null,
+  home_shots: null,
+  away_shots: null,
+  home_shots_on_target: null,
+  away_shots_on_target: null,
+};
+
+/** Strana kojoj se gol računa (autogol ide protivniku). */
+export function scoringSide(e: Pick<MatchEvent, "kind" | "side">): EventSide | null {
+  if (e.kind === "goal") return e.side;
+  if (e.kind === "own_goal") return e.side === "home" ? "away" : "home";
+  return null;
+}
+
+export function goalTally(events: Pick<MatchEvent, "kind" | "side">[]) {
+  const tally = { home: 0, away: 0 };
+  for (const e of events) {
+    const s = scoringSide(e);
+    if (s) tally[s] += 1;
+  }
+  return tally;
+}
+
+export function sortEvents<T extends Pick<MatchEvent, "minute">>(events: T[]) {
+  return [...events].sort((a, b) => (a.minute ?? 999) - (b.minute ?? 999));
+}
+
+/**
+ * Provera unosa. null = ok, inače poruka.
+ * Strelaca može biti manje od golova (nepoznat strelac), ali ne više.
+ */
+export function validateEvents(
+  events: MatchEventInput[],
+  score: { home: number | null; away: number | null },
+  stats: MatchStats | null
+): string | null {
+  for (const e of events) {
+    if (!EVENT_KINDS.includes(e.kind) || (e.side !== "home" && e.side !== "away")) return "Neispravan događaj.";
+    if (!e.player_name.trim()) return "Svaki događaj mora imati ime igrača.";
+    if (e.assist_name && e.kind !== "goal") return "Asistencija ide samo uz gol.";
+    if (e.assist_name && e.assist_name.trim().toLowerCase() === e.player_name.trim().toLowerCase()) {
+      return "Strelac ne može sebi asistirati.";
+    }
+    if (e.minute !== null && (!Number.isInteger(e.minute) || e.minute < 1 || e.minute > 130)) {
+      return "Minut mora biti između 1 i 130.";
+    }
+  }
+
+  const tally = goalTally(events);
+  if (tally.home > (score.home ?? 0) || tally.away > (score.away ?? 0)) {
+    return "Više strelaca nego golova u rezultatu.";
+  }
+
+  if (stats) {
+    const p = stats.home_possession;
+    if (p !== null && (!Number.isInteger(p) || p < 0 || p > 100)) return "Posed mora biti 0–100%.";
+    const counts = [stats.home_shots, stats.away_shots, stats.home_shots_on_target, stats.away_shots_on_target];
+    if (counts.some((n) => n !== null && (!Number.isInteger(n) || n < 0 || n > 99))) {
+      return "Šutevi moraju biti ceo broj 0–99.";
+    }
+    if ((stats.home_shots_on_target ?? 0) > (stats.home_shots ?? Infinity)) return "Šutevi u okvir > ukupno šuteva.";
+    if ((stats.away_shots_on_target ?? 0) > (stats.away_shots ?? Infinity)) return "Šutevi u okvir > ukupno šuteva.";
+  }
+
+  return null;
+}
+
+export function hasStats(stats: MatchStats | null | undefined): stats is MatchStats {
+  return Boolean(stats && Object.values(stats).some((v) => v !== null));
+}
+
+export async function loadMatchEvents(supabase: SupabaseClient, tournamentId: string): Promise<MatchEvent[]> {
+  const { data, error } = await supabase
+    .from("match_events")
+    .select("*")
+    .eq("tournament_id", tournamentId)
+    .order("minute", { ascending: true, nullsFirst: false });
+  if (error) throw error;
+  return (data ?? []) as MatchEvent[];
+}
+
+export function eventsByMatch(events: MatchEvent[]) {
+  const m = new Map<string, MatchEvent[]>();
+  for (const e of events) {
+    const list = m.get(e.match_id) ?? [];
+    list.push(e);
+    m.set(e.match_id, list);
+  }
+  return m;
+}
+
+/** "Messi 12', Kane 80' (ag)" – strelci jedne strane za prikaz. */
+export function goalLine(events: MatchEvent[], side: EventSide) {
+  return sortEvents(events.filter((e) => scoringSide(e) === side))
+    .map((e) => `${e.player_name}${e.minute ? ` ${e.minute}'` : ""}${e.kind === "own_goal" ? " (ag)" : ""}`)
+    .join(", ");
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "vitest";
+import { buildSchedule, type FixtureDraft } from "@/lib/fixtures";
+
+const ids = (n: number) => Array.from({ length: n }, (_, i) => `T${i + 1}`);
+const games = (rows: FixtureDraft[]) => rows.filter((r) => !r.is_bye);
+const pairKey = (r: FixtureDraft) => [r.home_team_id, r.away_team_id].sort().join("-");
+
+function rounds(rows: FixtureDraft[]) {
+  const out = new Map<number, FixtureDraft[]>();
+  for (const r of rows) out.set(r.round_number, [...(out.get(r.round_number) ?? []), r]);
+  return out;
+}
+
+describe("buildSchedule", () => {
+  it("pairs every team with every other team once per leg", () => {
+    const rows = buildSchedule(ids(6), { legs: 1 });
+
+    expect(rounds(rows).size).toBe(5);
+    const pairs = games(rows).map(pairKey);
+    expect(pairs).toHaveLength(15);
+    expect(new Set(pairs).size).toBe(15);
+
+    // svaki tim tačno jednom po kolu
+    for (const round of rounds(rows).values()) {
+      const teams = round.flatMap((r) => [r.home_team_id, r.away_team_id]);
+      expect(new Set(teams).size).toBe(6);
+    }
+  });
+
+  it("balances home and away games within a leg", () => {
+    const rows = games(buildSchedule(ids(8), { legs: 1 }));
+    for (const id of ids(8)) {
+      const home = rows.filter((r) => r.home_team_id === id).length;
+      const away = rows.filter((r) => r.away_team_id === id).length;
+      expect(Math.abs(home - away)).toBeLessThanOrEqual(1);
+    }
+  });
+
+  it("mirrors home and away in the return leg", () => {
+    const rows = buildSchedule(ids(4), { legs: 2 });
+    const first = games(rows).filter((r) => r.round_number <= 3);
+    const second = games(rows).filter((r) => r.round_number > 3);
+
+    expect(second.every((r) => r.source === "auto_reverse")).toBe(true);
+    expect(second.map((r) => `${r.away_team_id}-${r.home_team_id}`).sort()).toEqual(
+      first.map((r) => `${r.home_team_id}-${r.away_team_id}`).sort()
+    );
+  });
+
+  it("gives each team one bye per leg with an odd number of teams", () => {
+    const rows = buildSchedule(ids(5), { legs: 1 });
+    const byes = rows.filter((r) => r.is_bye);
+
+    expect(rounds(rows).size).toBe(5);
+    expect(byes.map((r) => r.home_team_id).sort()).toEqual(ids(5));
+    expect(byes.every((r) => r.away_team_id === null)).toBe(true);
+    expect(new Set(games(rows).map(pairKey)).size).toBe(10);
+  });
+
+  it("keeps a manual first round and schedules the rest around it", () => {
+    const round1 = [
+      { match_number: 1, home_team_id: "T1", away_team_id: "T4" },
+      { match_number: 2, home_team_id: "T3", away_team_id: "T2" },
+    ];
+    const rows = buildSchedule(ids(4), { legs: 1, round1 });
+
+    const first = rows.filter((r) => r.round_number === 1);
+    expect(first.map((r) => [r.home_team_id, r.away_team_id])).toEqual([
+      ["T1", "T4"],
+      ["T3", "T2"],
+    ]);
+    expect(first.every((r) => r.source === "manual")).toBe(true);
+    expect(new Set(games(rows).map(pairKey)).size).toBe(6);
+  });
+
+  it("rejects an invalid manual first round or leg count", () => {
+    const twice = [
+      { match_number: 1, home_team_id: "T1", away_team_id: "T2" },
+      { match_number: 2, home_team_id: "T1", away_team_id: "T3" },
+    ];
+    expect(() => buildSchedule(ids(4), { legs: 1, round1: twice })).toThrow(/više puta/);
+    expect(() => buildSchedule(ids(4), { legs: 5 })).toThrow(/krugova/);
+    expect(() => buildSchedule(ids(1), { legs: 1 })).toThrow(/bar 2 tima/);
+  });
+});
@@ -1,17 +1,33 @@
 import type { SupabaseClient } from "@supabase/supabase-js";
 
-type FixtureRow = {
+/**
+ * Fixtures (raspored) = Berger tabele.
+ * - Bilo koji broj timova; neparan broj -> svako kolo jedan tim ima BYE (is_bye red)
+ * - 1–4 kruga (legs); parni krugovi su obrnut domaćin/gost prethodnog kruga
+ * - Domaćin/gost je izbalansiran (u jednom krugu razlika domaćin-gost je najviše 1 po timu)
+ * - Ručno Kolo 1 je opcioni override: ostatak rasporeda se prilagođava tim parovima
+ */
+
+export type FixtureSource = "berger" | "manual" | "auto_reverse";
+
+export type FixtureRow = {
   id: string;
   tournament_id: string;
-  round_number: 1 | 2;
+  round_number: number;
   match_number: number;
   home_team_id: string | null;
   away_team_id: string | null;
   is_bye: boolean;
-  source: "manual" | "auto_reverse";
+  source: FixtureSource;
   created_at: string;
 };
 
+export type FixtureDraft = Omit<FixtureRow, "id" | "tournament_id" | "created_at">;
+
+export type Round1Override = { match_number: number; home_team_id: string; away_team_id: string }[];
+
+export const MAX_LEGS = 4;
+
 export async function loadFixtures(supabase: SupabaseClient, tournamentId: string): Promise<FixtureRow[]> {
   const { data, error } = await supabase
     .from("fixtures")
@@ -28,18 +44,35 @@ function uniq(arr: string[]) {
   return Array.from(new Set(arr));
 }
 
-export async function saveRound1AndGenerateRound2(
-  supabase: SupabaseClient,
-  tournamentId: string,
-  drafts: { match_number: number; home_team_id: string; away_team_id: string }[]
-) {
-  const cleaned = (drafts ?? []).map((d) => ({
+/**
+ * Jedan krug po Berger tabeli nad indeksima 0..n-1 (n paran; n-1 je "fiksni" tim).
+ * Kolo r: fiksni tim igra sa r, ostali parovi (r+i, r-i) mod (n-1).
+ * Fiksni tim naizmenično domaćin/gost, ostali po parnosti i -> balans domaćin/gost.
+ */
+function bergerIndexRounds(n: number) {
+  const m = n - 1;
+  const rounds: [number, number][][] = [];
+
+  for (let r = 0; r < m; r++) {
+    const pairs: [number, number][] = [];
+    pairs.push(r % 2 === 0 ? [r, m] : [m, r]);
+    for (let i = 1; i < n / 2; i++) {
+      const a = (r + i) % m;
+      const b = (r - i + m) % m;
+      pairs.push(i % 2 === 1 ? [a, b] : [b, a]);
+    }
+    rounds.push(pairs);
+  }
+  return rounds;
+}
+
+function validateRound1(teamIds: string[], override: Round1Override) {
+  const cleaned = override.map((d) => ({
     match_number: d.match_number,
     home_team_id: (d.home_team_id ?? "").trim(),
     away_team_id: (d.away_team_id ?? "").trim(),
   }));
 
-  // minimal validation
   for (const d of cleaned) {
     if (!d.home_team_id || !d.away_team_id) {
       throw new Error(`Popuni oba tima za meč ${d.match_number}.`);
@@ -53,33 +86,116 @@ export async function saveRound1AndGenerateRound2(
   if (uniq(used).length !== used.length) {
     throw new Error("Isti tim je upisan više puta u Kolu 1. Svaki tim mora biti tačno jednom.");
   }
+  if (used.some((id) => !teamIds.includes(id))) {
+    throw new Error("Kolo 1 sadrži tim koji nije u turniru.");
+  }
+  if (cleaned.length !== Math.floor(teamIds.length / 2)) {
+    throw new Error(`Kolo 1 mora imati tačno ${Math.floor(teamIds.length / 2)} mečeva.`);
+  }
+
+  return cleaned.sort((a, b) => a.match_number - b.match_number);
+}
+
+/**
+ * Ceo raspored (svi krugovi). Sa `round1` override-om se Berger indeksi
+ * preslikavaju tako da Kolo 1 bude tačno kako je admin upisao.
+ */
+export function buildSchedule(
+  teamIds: string[],
+  opts: { legs: number; round1?: Round1Override | null }
+): FixtureDraft[] {
+  const ids = uniq(teamIds.filter(Boolean));
+  if (ids.length < 2) throw new Error("Treba bar 2 tima u turniru.");
+
+  const legs = Math.trunc(opts.legs);
+  if (legs < 1 || legs > MAX_LEGS) throw new Error(`Broj krugova mora biti 1–${MAX_LEGS}.`);
+
+  const n = ids.length % 2 === 0 ? ids.length : ids.length + 1;
+  const BYE = n - 1; // kad je neparno, fiksni indeks je BYE
+  const hasBye = n !== ids.length;
+  const rounds = bergerIndexRounds(n);
+
+  // indeks -> team_id (null = BYE)
+  const slot: (string | null)[] = new Array(n).fill(null);
+
+  if (opts.round1 && opts.round1.length > 0) {
+    const manual = validateRound1(ids, opts.round1);
+    const firstRound = rounds[0].filter(([h, a]) => !(hasBye && (h === BYE || a === BYE)));
+    manual.forEach((d, i) => {
+      const [h, a] = firstRound[i];
+      slot[h] = d.home_team_id;
+      slot[a] = d.away_team_id;
+    });
+    const rest = ids.filter((id) => !slot.includes(id));
+    for (let i = 0; i < n; i++) {
+      if (slot[i] === null && !(hasBye && i === BYE)) slot[i] = rest.shift() ?? null;
+    }
+  } else {
+    ids.forEach((id, i) => (slot[i] = id));
+  }
+
+  const out: FixtureDraft[] = [];
+  const perLeg = rounds.length;
+
+  for (let leg = 0; leg < legs; leg++) {
+    const mirrored = leg % 2 === 1;
+
+    rounds.forEach((pairs, r) => {
+      let matchNumber = 0;
+      let byeTeam: string | null = null;
+
+      for (const [h, a] of pairs) {
+        const home = slot[h];
+        const away = slot[a];
+        if (!home || !away) {
+          byeTeam = home ?? away;
+          continue;
+        }
+
+        matchNumber += 1;
+        out.push({
+          round_number: leg * perLeg + r + 1,
+          match_number: matchNumber,
+          home_team_id: mirrored ? away : home,
+          away_team_id: mirrored ? home : away,
+          is_bye: false,
+          source: mirrored ? "auto_reverse" : leg === 0 && r === 0 && opts.round1?.length ? "manual" : "berger",
+        });
+      }
+
+      if (byeTeam) {
+        out.push({
+          round_number: leg * perLeg + r + 1,
+          match_number: matchNumber + 1,
+          home_team_id: byeTeam,
+          away_team_id: null,
+          is_bye: true,
+          source: "berger",
+        });
+      }
+    });
+  }
+
+  return out;
+}
+
+/** Briše stari raspored turnira i upisuje novi. */
+export async function saveSchedule(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  teamIds: string[],
+  opts: { legs: number; round1?: Round1Override | null }
+) {
+  const drafts = buildSchedule(teamIds, opts);
 
   // reset (simpler than upsert)
   const { error: delErr } = await supabase.from("fixtures").delete().eq("tournament_id", tournamentId);
   if (delErr) throw delErr;
 
-  const round1Rows = cleaned.map((d) => ({
-    tournament_id: tournamentId,
-    round_number: 1 as const,
-    match_number: d.match_number,
-    home_team_id: d.home_team_id,
-    away_team_id: d.away_team_id,
-    is_bye: false,
-    source: "manual" as const,
-  }));
-
-  const round2Rows = cleaned.map((d) => ({
-    tournament_id: tournamentId,
-    round_number: 2 as const,
-    match_number: d.match_number,
-    home_team_id: d.away_team_id,
-    away_team_id: d.home_team_id,
-    is_bye: false,
-    source: "auto_reverse" as const,
-  }));
-
-  const { error: insErr } = await supabase.from("fixtures").insert([...round1Rows, ...round2Rows]);
+  const { error: insErr } = await supabase
+    .from("fixtures")
+    .insert(drafts.map((d) => ({ tournament_id: tournamentId, ...d })));
   if (insErr) throw insErr;
 
-  return true;
-}
\ No newline at end of file
+  return drafts.length;
+}
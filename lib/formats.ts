@@ -0,0 +1,14 @@
+/**
+ * Tournament formats (tournaments.format).
+ * - league: jedna tabela (round robin / fixtures)
+ * - groups_knockout: grupe pa nokaut (lib/groups + lib/bracket)
+ * - swiss: kolo po kolo, parovi po bodovima (lib/swiss)
+ */
+
+export type TournamentFormat = "league" | "groups_knockout" | "swiss";
+
+export const FORMAT_LABELS: Record<TournamentFormat, string> = {
+  league: "Liga (jedna tabela)",
+  groups_knockout: "Grupe + nokaut",
+  swiss: "Swiss sistem (16+ igrača)",
+};
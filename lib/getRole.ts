@@ -1,20 +1,12 @@
 import { supabase } from "@/lib/supabase";
+import { resolveRole, type Role } from "@/lib/roles";
 
-export async function getRole(): Promise<"admin" | "player" | null> {
+export async function getRole(): Promise<Role | null> {
   const { data: sessionData, error: sessErr } = await supabase.auth.getSession();
   if (sessErr) throw sessErr;
 
-  const email = sessionData.session?.user?.email?.toLowerCase() ?? null;
-  if (!email) return null;
+  const user = sessionData.session?.user;
+  if (!user) return null;
 
-  const { data, error } = await supabase
-    .from("players")
-    .select("role")
-    .eq("email", email)
-    .maybeSingle();
-
-  if (error) throw error;
-
-  const role = (data?.role ?? null) as "admin" | "player" | null;
-  return role;
-}
\ No newline at end of file
+  return resolveRole(supabase, { id: user.id, email: user.email });
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from "vitest";
+import { buildBracket } from "@/lib/bracket";
+import { knockoutSeeds, type GroupTable } from "@/lib/groups";
+import type { StandingRow } from "@/lib/standings";
+
+/** Grupa sa timovima po plasmanu: group("A", 3) -> A1, A2, A3. */
+function group(label: string, size: number): GroupTable {
+  return {
+    label,
+    rows: Array.from({ length: size }, (_, i) => ({ team_id: `${label}${i + 1}` }) as StandingRow),
+  };
+}
+
+/** Parovi prve runde (bez bye veza), onako kako ih pravi buildBracket. */
+function firstRound(seeds: string[]) {
+  return buildBracket("t1", seeds, { legs: 1 })
+    .filter((t) => t.round === 1 && t.home_team_id && t.away_team_id)
+    .map((t) => [t.home_team_id!, t.away_team_id!]);
+}
+
+const sameGroup = ([h, a]: string[]) => h[0] === a[0];
+
+describe("knockoutSeeds", () => {
+  it("seeds group winners first, then runners-up", () => {
+    const seeds = knockoutSeeds([group("A", 4), group("B", 4), group("C", 4), group("D", 4)], 2);
+    expect(seeds.slice(0, 4)).toEqual(["A1", "B1", "C1", "D1"]);
+    expect(seeds.slice(4).sort()).toEqual(["A2", "B2", "C2", "D2"]);
+    expect(firstRound(seeds).filter(sameGroup)).toEqual([]);
+  });
+
+  it("keeps teams from the same group apart in round 1 with 3 groups x 2", () => {
+    const seeds = knockoutSeeds([group("A", 3), group("B", 3), group("C", 3)], 2);
+    const pairs = firstRound(seeds);
+
+    expect(pairs).toHaveLength(2);
+    expect(pairs.filter(sameGroup)).toEqual([]);
+    // pobednici grupa zadržavaju nosioce (i bye), menjaju se samo drugoplasirani
+    expect(seeds.slice(0, 3)).toEqual(["A1", "B1", "C1"]);
+  });
+
+  it("leaves the pairs alone when there is only one group", () => {
+    expect(knockoutSeeds([group("A", 4)], 4)).toEqual(["A1", "A2", "A3", "A4"]);
+  });
+});
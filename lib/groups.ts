@@ -0,0 +1,148 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { nextPow2, seedOrder } from "@/lib/bracket";
+import { shuffle } from "@/lib/draw";
+import { buildSchedule } from "@/lib/fixtures";
+import { computeStandings, type MatchRow, type StandingRow } from "@/lib/standings";
+
+/**
+ * Group stage + knockout ("Champions League") format.
+ * - tournament_teams.pot -> pot-based seeded draw into groups (tournament_teams.group_label)
+ * - round robin inside each group, per-group standings
+ * - top K of each group advance into the knockout bracket (lib/bracket)
+ */
+
+export const GROUP_LABELS = ["A", "B", "C", "D", "E", "F", "G", "H"];
+
+export type GroupTeam = { team_id: string; pot: number | null; group_label: string | null };
+
+export type GroupTable = { label: string; rows: StandingRow[] };
+
+/**
+ * Žreb po šeširima: timovi iz istog šešira idu u različite grupe (dok ima mesta).
+ * Timovi bez šešira idu poslednji i popunjavaju grupe sa najmanje timova.
+ */
+export function drawGroups(teams: GroupTeam[], groupCount: number): Map<string, string> {
+  if (groupCount < 1 || groupCount > GROUP_LABELS.length) {
+    throw new Error(`Broj grupa mora biti između 1 i ${GROUP_LABELS.length}.`);
+  }
+  if (teams.length < groupCount * 2) {
+    throw new Error("Premalo timova: svaka grupa mora imati bar 2 tima.");
+  }
+
+  const labels = GROUP_LABELS.slice(0, groupCount);
+  const size = new Map(labels.map((l) => [l, 0]));
+  const out = new Map<string, string>();
+
+  const pots = Array.from(new Set(teams.map((t) => t.pot ?? Number.MAX_SAFE_INTEGER))).sort((a, b) => a - b);
+
+  for (const pot of pots) {
+    const potTeams = shuffle(teams.filter((t) => (t.pot ?? Number.MAX_SAFE_INTEGER) === pot));
+    for (const t of potTeams) {
+      // najmanja grupa, među jednakima nasumično
+      const min = Math.min(...labels.map((l) => size.get(l)!));
+      const target = shuffle(labels.filter((l) => size.get(l) === min))[0];
+      out.set(t.team_id, target);
+      size.set(target, min + 1);
+    }
+  }
+
+  return out;
+}
+
+export function groupTables(
+  matches: MatchRow[],
+  teams: GroupTeam[],
+  opts: Parameters<typeof computeStandings>[2] = {}
+): GroupTable[] {
+  const labels = Array.from(new Set(teams.map((t) => t.group_label).filter((l): l is string => Boolean(l)))).sort();
+  return labels.map((label) => ({
+    label,
+    rows: computeStandings(
+      matches,
+      teams.filter((t) => t.group_label === label),
+      opts
+    ),
+  }));
+}
+
+/**
+ * Nosioci za nokaut: prvo svi pobednici grupa (A1, B1, ...), pa drugoplasirani...
+ * Ako bi se u prvoj rundi (seedOrder) sreli timovi iz iste grupe, slabiji od njih
+ * menja mesto sa timom istog plasmana iz druge veze. Kad zamena ne postoji
+ * (npr. jedna grupa), par ostaje kakav jeste.
+ */
+export function knockoutSeeds(tables: GroupTable[], perGroup: number): string[] {
+  const seeds: { team: string; group: string; pos: number }[] = [];
+  for (let pos = 0; pos < perGroup; pos++) {
+    for (const g of tables) {
+      const row = g.rows[pos];
+      if (row) seeds.push({ team: row.team_id, group: g.label, pos });
+    }
+  }
+
+  // parovi prve runde kao indeksi u seeds (bye veze se preskaču)
+  const order = seedOrder(nextPow2(seeds.length));
+  const pairs: [number, number][] = [];
+  for (let i = 0; i < order.length; i += 2) {
+    const [h, a] = [order[i] - 1, order[i + 1] - 1];
+    if (h < seeds.length && a < seeds.length) pairs.push([h, a]);
+  }
+
+  const clash = (h: number, a: number) => seeds[h].group === seeds[a].group;
+
+  for (const [h, a] of pairs) {
+    if (!clash(h, a)) continue;
+    const swap = pairs.find(
+      ([h2, a2]) =>
+        a2 !== a &&
+        seeds[a2].pos === seeds[a].pos &&
+        seeds[a2].group !== seeds[h].group &&
+        seeds[a].group !== seeds[h2].group
+    );
+    if (swap) [seeds[a], seeds[swap[1]]] = [seeds[swap[1]], seeds[a]];
+  }
+
+  return seeds.map((s) => s.team);
+}
+
+export async function saveGroupDraw(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  assignment: Map<string, string | null>
+) {
+  for (const [teamId, label] of assignment) {
+    const { error } = await supabase
+      .from("tournament_teams")
+      .update({ group_label: label })
+      .eq("tournament_id", tournamentId)
+      .eq("team_id", teamId);
+    if (error) throw error;
+  }
+  return true;
+}
+
+/** Mečevi za sve grupe; kolo N svih grupa ima isti `round`. */
+export function groupMatchRows(tournamentId: string, teams: GroupTeam[], opts: { double: boolean }) {
+  const labels = Array.from(new Set(teams.map((t) => t.group_label).filter((l): l is string => Boolean(l))));
+  if (labels.length === 0) throw new Error("Timovi nisu raspoređeni u grupe. Prvo uradi žreb grupa.");
+
+  const rows: { tournament_id: string; round: number; home_team_id: string; away_team_id: string }[] = [];
+
+  for (const label of labels) {
+    const ids = teams.filter((t) => t.group_label === label).map((t) => t.team_id);
+    if (ids.length < 2) throw new Error(`Grupa ${label} ima manje od 2 tima.`);
+
+    // grupa sa neparnim brojem timova: BYE se ne upisuje kao meč
+    for (const f of buildSchedule(ids, { legs: opts.double ? 2 : 1 })) {
+      if (f.is_bye || !f.home_team_id || !f.away_team_id) continue;
+      rows.push({
+        tournament_id: tournamentId,
+        round: f.round_number,
+        home_team_id: f.home_team_id,
+        away_team_id: f.away_team_id,
+      });
+    }
+  }
+
+  return rows.sort((a, b) => a.round - b.round);
+}
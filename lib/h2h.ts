@@ -0,0 +1,72 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { selectAll } from "@/lib/paging";
+import { computePlayerStats, playerGames, type PlayerGame } from "@/lib/playerStats";
+import { sideFromOwners } from "@/lib/results";
+import { buildTeamOwners, type TeamOwners } from "@/lib/scorers";
+import type { MatchRow } from "@/lib/standings";
+
+/**
+ * Međusobni duel dva igrača kroz sve turnire (/h2h?a=<email>&b=<email>).
+ * - meč se računa ako su na suprotnim stranama: player1/player2_email, ili timovi iz žreba
+ * - sve je iz ugla igrača A (W = pobeda A)
+ */
+
+export function h2hHref(a: string, b: string) {
+  return `/h2h?a=${encodeURIComponent(a.toLowerCase())}&b=${encodeURIComponent(b.toLowerCase())}`;
+}
+
+export function isHeadToHead(m: MatchRow, a: string, b: string, owners: TeamOwners) {
+  const owner = (teamId: string) => owners.get(m.tournament_id)?.get(teamId) ?? null;
+  const sideA = sideFromOwners(m, a, owner);
+  const sideB = sideFromOwners(m, b, owner);
+  return Boolean(sideA && sideB && sideA !== sideB);
+}
+
+/** Mečevi A protiv B, hronološki, sa zbirnim učinkom A. */
+export function headToHead(a: string, b: string, matches: MatchRow[], owners: TeamOwners) {
+  const games: PlayerGame[] = playerGames(
+    a,
+    matches.filter((m) => isHeadToHead(m, a, b, owners)),
+    owners
+  );
+  return { games, stats: computePlayerStats(games) };
+}
+
+export async function loadHeadToHead(supabase: SupabaseClient, a: string, b: string) {
+  const emails = [a.toLowerCase(), b.toLowerCase()];
+
+  // turniri u kojima su oba igrača dobila tim
+  const rows = await selectAll<{ tournament_id: string; team_id: string; player_email: string }>((from, to) =>
+    supabase
+      .from("tournament_players")
+      .select("tournament_id, team_id, player_email")
+      .in("player_email", emails)
+      .order("id")
+      .range(from, to)
+  );
+  const shared = Array.from(new Set(rows.map((r) => r.tournament_id))).filter((tid) =>
+    emails.every((e) => rows.some((r) => r.tournament_id === tid && r.player_email.toLowerCase() === e))
+  );
+
+  // email ide u dva .eq() filtera (ne u .or() string, gde bi zarez ili tačka promenili upit)
+  const [byTeam, asPlayer1, asPlayer2] = await Promise.all([
+    shared.length
+      ? selectAll<MatchRow>((from, to) =>
+          supabase.from("matches").select("*").in("tournament_id", shared).order("id").range(from, to)
+        )
+      : Promise.resolve([] as MatchRow[]),
+    selectAll<MatchRow>((from, to) =>
+      supabase.from("matches").select("*").eq("player1_email", emails[0]).order("id").range(from, to)
+    ),
+    selectAll<MatchRow>((from, to) =>
+      supabase.from("matches").select("*").eq("player2_email", emails[0]).order("id").range(from, to)
+    ),
+  ]);
+
+  const matches = new Map<string, MatchRow>();
+  for (const m of [...byTeam, ...asPlayer1, ...asPlayer2]) {
+    matches.set(m.id, m);
+  }
+
+  return headToHead(emails[0], emails[1], Array.from(matches.values()), buildTeamOwners(rows));
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { KnockoutTieRow } from "@/lib/bracket";
+import { careerTrophies, knockoutStage, tieMatches } from "@/lib/history";
+import { playerGames } from "@/lib/playerStats";
+import { computeStandings } from "@/lib/standings";
+
+function tie(round: number, home: string | null, away: string | null, extra: Partial<KnockoutTieRow> = {}): KnockoutTieRow {
+  return {
+    id: `k${round}-${home}-${away}`,
+    tournament_id: "t1",
+    round,
+    slot: 1,
+    legs: 1,
+    home_team_id: home,
+    away_team_id: away,
+    home_seed: null,
+    away_seed: null,
+    leg1_home: null,
+    leg1_away: null,
+    leg2_home: null,
+    leg2_away: null,
+    et_home: null,
+    et_away: null,
+    pen_home: null,
+    pen_away: null,
+    winner_team_id: null,
+    ...extra,
+  };
+}
+
+describe("tieMatches", () => {
+  it("turns played legs into matches, with extra time on the last leg", () => {
+    const t = tie(1, "A", "B", { legs: 2, leg1_home: 1, leg1_away: 0, leg2_home: 0, leg2_away: 1, et_home: 0, et_away: 2 });
+    const rows = computeStandings(tieMatches(t), [{ team_id: "A" }, { team_id: "B" }]);
+    const a = rows.find((r) => r.team_id === "A")!;
+    expect(a).toMatchObject({ played: 2, wins: 1, losses: 1, gf: 1, ga: 3 });
+  });
+
+  it("counts knockout legs as player games", () => {
+    const t = tie(1, "A", "B", { legs: 2, leg1_home: 2, leg1_away: 0, leg2_home: 1, leg2_away: 1 });
+    const owners = new Map([["t1", new Map([["A", "a@x.com"], ["B", "b@x.com"]])]]);
+    const games = playerGames("a@x.com", tieMatches(t), owners);
+    expect(games.map((g) => g.outcome)).toEqual(["W", "D"]);
+  });
+
+  it("skips unplayed legs and byes", () => {
+    expect(tieMatches(tie(1, "A", null))).toEqual([]);
+    expect(tieMatches(tie(1, "A", "B", { legs: 2, leg1_home: 2, leg1_away: 2 }))).toHaveLength(1);
+  });
+});
+
+describe("knockoutStage", () => {
+  const ties = [tie(1, "A", "B"), tie(1, "C", "D"), tie(2, "A", "C")];
+
+  it("names the furthest round the team reached", () => {
+    expect(knockoutStage(ties, "A")).toBe("Finale");
+    expect(knockoutStage(ties, "B")).toBe("Polufinale");
+    expect(knockoutStage(ties, "X")).toBeNull();
+  });
+});
+
+describe("careerTrophies", () => {
+  it("gives no title for winning a group before the knockout stage", () => {
+    expect(careerTrophies("A", 1, true, null, true)).toEqual([]);
+    expect(careerTrophies("A", 1, true, null, false)).toEqual(["champion"]);
+  });
+});
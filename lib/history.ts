@@ -0,0 +1,287 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { roundName, tieOutcome, type KnockoutTieRow } from "@/lib/bracket";
+import type { TournamentFormat } from "@/lib/formats";
+import { groupTables } from "@/lib/groups";
+import { parseStatus, type TournamentStatus } from "@/lib/lifecycle";
+import { selectAll } from "@/lib/paging";
+import { playerGames, teamStrengths, type PlayerGame, type TeamStrength } from "@/lib/playerStats";
+import { buildTeamOwners } from "@/lib/scorers";
+import { computeStandings, parseTiebreakers, type MatchRow, type StandingRow } from "@/lib/standings";
+import { SWISS_TIEBREAKERS } from "@/lib/swiss";
+
+/**
+ * Istorija igrača kroz sve turnire (kartica "Istorija" na player strani).
+ * - turniri i timovi iz tournament_players, tabela iz istog standings engine-a
+ * - grupe + nokaut: mesto i tabela su iz igračeve grupe, a `stage` je dokle je stigao u nokautu
+ * - učinak (record) uključuje i utakmice nokaut faze
+ * - šampion: pobednik finala ako turnir ima nokaut fazu, inače prvi u tabeli završenog turnira
+ * - uz istoriju se vraćaju i igračevi mečevi (lib/playerStats) iz istih podataka
+ */
+
+export type Trophy = "champion" | "runner_up" | "third";
+
+export const TROPHY_LABELS: Record<Trophy, string> = {
+  champion: "🏆 Šampion",
+  runner_up: "🥈 Finalista",
+  third: "🥉 Treće mesto",
+};
+
+export type CareerEntry = {
+  tournament_id: string;
+  name: string;
+  date: string | null;
+  status: TournamentStatus | null;
+  format: TournamentFormat | null;
+  team_id: string;
+  /** grupa (format grupe + nokaut); mesto, broj timova i tabela su tada iz te grupe */
+  group: string | null;
+  /** mesto u tabeli (1 = prvi); null ako tim nije u tabeli */
+  position: number | null;
+  teams: number;
+  /** najdalja nokaut runda do koje je tim stigao (npr. "Polufinale"); null bez nokauta */
+  stage: string | null;
+  /** učinak kroz ceo turnir, sa utakmicama nokaut faze */
+  record: StandingRow | null;
+  trophies: Trophy[];
+  /** konačna (ili trenutna, ako turnir nije završen) tabela */
+  table: StandingRow[];
+};
+
+type TournamentInfo = {
+  id: string;
+  name: string;
+  date: string | null;
+  status: string | null;
+  format: TournamentFormat | null;
+  tiebreakers: unknown;
+  tiebreak_lots: string[] | null;
+};
+
+function groupBy<T extends { tournament_id: string }>(rows: T[]) {
+  const out = new Map<string, T[]>();
+  for (const r of rows) {
+    const list = out.get(r.tournament_id) ?? [];
+    list.push(r);
+    out.set(r.tournament_id, list);
+  }
+  return out;
+}
+
+/** Pobednik i finalista nokaut faze (null dok finale nije odlučeno). */
+export function knockoutPodium(ties: KnockoutTieRow[]) {
+  if (ties.length === 0) return null;
+  const lastRound = Math.max(...ties.map((t) => t.round));
+  const final = ties.find((t) => t.round === lastRound);
+  const winner = final ? tieOutcome(final).winner : null;
+  if (!final || !winner) return null;
+  return { champion: winner, runnerUp: winner === final.home_team_id ? final.away_team_id : final.home_team_id };
+}
+
+/** Najdalja runda u kojoj tim ima vezu (bye u prvoj rundi se računa). */
+export function knockoutStage(ties: KnockoutTieRow[], teamId: string) {
+  const rounds = ties.filter((t) => t.home_team_id === teamId || t.away_team_id === teamId).map((t) => t.round);
+  if (rounds.length === 0) return null;
+  const totalRounds = Math.max(...ties.map((t) => t.round));
+  return roundName(Math.max(...rounds), totalRounds);
+}
+
+/**
+ * Odigrane utakmice nokaut veze kao mečevi, samo za učinak (W/D/L, golovi).
+ * Produžeci se dodaju poslednjoj utakmici; penali ne menjaju rezultat utakmice.
+ */
+export function tieMatches(t: KnockoutTieRow): MatchRow[] {
+  if (!t.home_team_id || !t.away_team_id) return [];
+
+  const legs: [number | null, number | null][] = [[t.leg1_home, t.leg1_away]];
+  if (t.legs === 2) legs.push([t.leg2_home, t.leg2_away]);
+
+  const [lastHome, lastAway] = legs[legs.length - 1];
+  if (lastHome !== null && lastAway !== null && t.et_home !== null && t.et_away !== null) {
+    legs[legs.length - 1] = [lastHome + t.et_home, lastAway + t.et_away];
+  }
+
+  return legs.flatMap(([home, away], i) =>
+    home === null || away === null
+      ? []
+      : [
+          {
+            id: `${t.id}:${i + 1}`,
+            tournament_id: t.tournament_id,
+            round: null,
+            home_team_id: t.home_team_id,
+            away_team_id: t.away_team_id,
+            player1_email: null,
+            player2_email: null,
+            player1_score: home,
+            player2_score: away,
+            played_at: t.created_at ?? new Date(0).toISOString(),
+          },
+        ]
+  );
+}
+
+export function careerTrophies(
+  teamId: string,
+  position: number | null,
+  finished: boolean,
+  podium: ReturnType<typeof knockoutPodium>,
+  hasKnockout: boolean
+): Trophy[] {
+  if (hasKnockout) {
+    if (podium?.champion === teamId) return ["champion"];
+    if (podium?.runnerUp === teamId) return ["runner_up"];
+    return [];
+  }
+  if (!finished || position === null) return [];
+  if (position === 1) return ["champion"];
+  if (position === 2) return ["runner_up"];
+  if (position === 3) return ["third"];
+  return [];
+}
+
+export type Career = { entries: CareerEntry[]; games: PlayerGame[] };
+
+type TournamentTeamRow = {
+  tournament_id: string;
+  team_id: string;
+  pot: number | null;
+  group_label: string | null;
+  teams: { rating: number | null } | { rating: number | null }[] | null;
+};
+
+export async function loadCareer(supabase: SupabaseClient, email: string): Promise<Career> {
+  const me = email.toLowerCase();
+  const entries = await selectAll<{ tournament_id: string; team_id: string }>((from, to) =>
+    supabase.from("tournament_players").select("tournament_id, team_id").eq("player_email", me).order("id").range(from, to)
+  );
+  const ids = Array.from(new Set(entries.map((e) => e.tournament_id)));
+  if (ids.length === 0) return { entries: [], games: [] };
+
+  const [tournaments, matches, teams, ties, players] = await Promise.all([
+    selectAll<TournamentInfo>((from, to) =>
+      supabase
+        .from("tournaments")
+        .select("id, name, date, status, format, tiebreakers, tiebreak_lots")
+        .in("id", ids)
+        .order("id")
+        .range(from, to)
+    ),
+    selectAll<MatchRow>((from, to) =>
+      supabase.from("matches").select("*").in("tournament_id", ids).order("id").range(from, to)
+    ),
+    selectAll<TournamentTeamRow>((from, to) =>
+      supabase
+        .from("tournament_teams")
+        .select("tournament_id, team_id, pot, group_label, teams(rating)")
+        .in("tournament_id", ids)
+        .order("tournament_id")
+        .order("team_id")
+        .range(from, to)
+    ),
+    selectAll<KnockoutTieRow>((from, to) =>
+      supabase.from("knockout_ties").select("*").in("tournament_id", ids).order("id").range(from, to)
+    ),
+    selectAll<{ tournament_id: string; team_id: string; player_email: string }>((from, to) =>
+      supabase
+        .from("tournament_players")
+        .select("tournament_id, team_id, player_email")
+        .in("tournament_id", ids)
+        .order("id")
+        .range(from, to)
+    ),
+  ]);
+
+  const tournamentById = new Map(tournaments.map((t) => [t.id, t]));
+  const matchesBy = groupBy(matches);
+  const teamsBy = groupBy(
+    teams.map((r) => {
+      const team = Array.isArray(r.teams) ? r.teams[0] : r.teams;
+      return {
+        tournament_id: r.tournament_id,
+        team_id: r.team_id,
+        pot: r.pot,
+        group_label: r.group_label,
+        rating: team?.rating ?? null,
+      };
+    })
+  );
+  const tiesBy = groupBy(ties);
+
+  const owners = buildTeamOwners(players);
+  const strengths = new Map<string, Map<string, TeamStrength>>(
+    Array.from(teamsBy, ([tid, rows]) => [tid, teamStrengths(rows)])
+  );
+
+  const out: CareerEntry[] = [];
+  for (const e of entries) {
+    const t = tournamentById.get(e.tournament_id);
+    if (!t) continue;
+
+    const tMatches = matchesBy.get(t.id) ?? [];
+    const tTeams = teamsBy.get(t.id) ?? [];
+    const opts = {
+      tiebreakers: parseTiebreakers(t.tiebreakers, t.format === "swiss" ? SWISS_TIEBREAKERS : undefined),
+      lots: t.tiebreak_lots,
+    };
+
+    // grupe + nokaut: jedna zajednička tabela nema smisla, mesto je u igračevoj grupi
+    const group = t.format === "groups_knockout" ? tTeams.find((x) => x.team_id === e.team_id)?.group_label ?? null : null;
+    const table = group
+      ? groupTables(tMatches, tTeams, opts).find((g) => g.label === group)?.rows ?? []
+      : computeStandings(tMatches, tTeams, opts);
+    const idx = table.findIndex((r) => r.team_id === e.team_id);
+    const position = idx >= 0 ? idx + 1 : null;
+    const status = parseStatus(t.status);
+    const tournamentTies = tiesBy.get(t.id) ?? [];
+
+    const record =
+      computeStandings([...tMatches, ...tournamentTies.flatMap(tieMatches)], tTeams).find(
+        (r) => r.team_id === e.team_id
+      ) ?? null;
+
+    out.push({
+      tournament_id: t.id,
+      name: t.name,
+      date: t.date,
+      status,
+      format: t.format,
+      team_id: e.team_id,
+      group,
+      position,
+      teams: table.length,
+      stage: knockoutStage(tournamentTies, e.team_id),
+      record,
+      trophies: careerTrophies(
+        e.team_id,
+        position,
+        status === "finished",
+        knockoutPodium(tournamentTies),
+        // pobednik grupe nije šampion: trofeji tek iz nokaut faze
+        tournamentTies.length > 0 || t.format === "groups_knockout"
+      ),
+      table,
+    });
+  }
+
+  // najnoviji turnir prvi
+  out.sort((a, b) => (b.date ?? "").localeCompare(a.date ?? "") || a.name.localeCompare(b.name));
+  // utakmice nokaut veza ulaze i u statistiku, kao u učinku po turniru iznad
+  const games = playerGames(me, [...matches, ...ties.flatMap(tieMatches)], owners, strengths);
+  return { entries: out, games };
+}
+
+/** Zbir kroz karijeru (zaglavlje kartice). */
+export function careerTotals(entries: CareerEntry[]) {
+  const totals = { tournaments: entries.length, titles: 0, played: 0, wins: 0, draws: 0, losses: 0, gf: 0, ga: 0 };
+  for (const e of entries) {
+    if (e.trophies.includes("champion")) totals.titles += 1;
+    if (!e.record) continue;
+    totals.played += e.record.played;
+    totals.wins += e.record.wins;
+    totals.draws += e.record.draws;
+    totals.losses += e.record.losses;
+    totals.gf += e.record.gf;
+    totals.ga += e.record.ga;
+  }
+  return totals;
+}
@@ -0,0 +1,211 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Pozivnice (tabela invites): jedan red po igraču i turniru.
+ * - "Invite" i "Pošalji ponovo" idu kroz sendInvite (ponovno slanje osvežava isti red)
+ * - novi nalog dobija Supabase invite, postojeći nalog magic link (umesto greške)
+ * - link vodi na /reset?t=<turnir> (novi nalog) ili /player?join=<turnir> (postojeći);
+ *   kad se igrač tamo prijavi, poziv postaje "accepted" (POST /api/invites)
+ * - "expired" se ne upisuje, računa se iz sent_at (Supabase link važi INVITE_TTL_HOURS)
+ * - "revoked" samo gasi pozivnicu kod nas; poslati email link Supabase i dalje prihvata
+ */
+
+export type InviteStatus = "pending" | "accepted" | "expired" | "revoked";
+export type InviteMethod = "invite" | "magic_link";
+
+export const INVITE_STATUS_LABELS: Record<InviteStatus, string> = {
+  pending: "Poslato",
+  accepted: "Prihvaćeno",
+  expired: "Isteklo",
+  revoked: "Opozvano",
+};
+
+export const INVITE_TTL_HOURS = 24;
+
+export type Invite = {
+  id: string;
+  email: string;
+  tournament_id: string;
+  invited_by: string | null;
+  method: InviteMethod;
+  status: Exclude<InviteStatus, "expired">;
+  send_count: number;
+  sent_at: string;
+  accepted_at: string | null;
+};
+
+/** Stvarno stanje: "pending" stariji od INVITE_TTL_HOURS je "expired". */
+export function inviteStatus(invite: Invite, now = Date.now()): InviteStatus {
+  if (invite.status !== "pending") return invite.status;
+  const age = now - new Date(invite.sent_at).getTime();
+  return age > INVITE_TTL_HOURS * 3600_000 ? "expired" : "pending";
+}
+
+/** email -> pozivnica za dati turnir (ili najnovija, ako turnir nije zadat). */
+export function invitesByEmail(invites: Invite[], tournamentId?: string | null) {
+  const out = new Map<string, Invite>();
+  for (const inv of invites) {
+    if (tournamentId && inv.tournament_id !== tournamentId) continue;
+    const prev = out.get(inv.email);
+    if (!prev || prev.sent_at < inv.sent_at) out.set(inv.email, inv);
+  }
+  return out;
+}
+
+export async function loadInvites(supabase: SupabaseClient): Promise<Invite[]> {
+  const { data, error } = await supabase.from("invites").select("*").order("sent_at", { ascending: false });
+  if (error) throw error;
+  return (data ?? []) as Invite[];
+}
+
+function isAlreadyRegistered(err: { message?: string; code?: string }) {
+  return err.code === "email_exists" || /already (been )?registered/i.test(err.message ?? "");
+}
+
+/**
+ * Šalje (ili ponovo šalje) pozivnicu i upisuje je u invites (service-role klijent).
+ * Baca grešku ako Supabase ne pošalje email.
+ */
+export async function sendInvite(
+  db: SupabaseClient,
+  opts: { email: string; tournamentId: string; invitedBy: string | null; siteUrl: string }
+) {
+  const { email, tournamentId, invitedBy, siteUrl } = opts;
+  const t = encodeURIComponent(tournamentId);
+
+  let method: InviteMethod = "invite";
+  let userId: string | null = null;
+  let redirectTo = `${siteUrl}/reset?t=${t}`;
+
+  // Service role: invite user (kreira ako ne postoji + šalje email)
+  const { data: inviteData, error: inviteErr } = await db.auth.admin.inviteUserByEmail(email, { redirectTo });
+
+  if (inviteErr) {
+    if (!isAlreadyRegistered(inviteErr)) throw new Error(`Failed to invite: ${inviteErr.message}`);
+
+    // nalog već postoji -> magic link; posle prijave /player?join= prihvata poziv
+    method = "magic_link";
+    redirectTo = `${siteUrl}/auth/callback?next=${encodeURIComponent(`/player?join=${tournamentId}`)}`;
+    const { error: otpErr } = await db.auth.signInWithOtp({
+      email,
+      options: { emailRedirectTo: redirectTo, shouldCreateUser: false },
+    });
+    if (otpErr) throw new Error(`Failed to send magic link: ${otpErr.message}`);
+  } else {
+    userId = inviteData?.user?.id ?? null;
+  }
+
+  const { data: existing, error: findErr } = await db
+    .from("invites")
+    .select("id, send_count")
+    .eq("email", email)
+    .eq("tournament_id", tournamentId)
+    .maybeSingle();
+  if (findErr) throw findErr;
+
+  const row = {
+    invited_by: invitedBy,
+    method,
+    status: "pending" as const,
+    sent_at: new Date().toISOString(),
+    accepted_at: null,
+  };
+
+  const { error: saveErr } = existing
+    ? await db
+        .from("invites")
+        .update({ ...row, send_count: (existing.send_count ?? 1) + 1 })
+        .eq("id", existing.id)
+    : await db.from("invites").insert({ ...row, email, tournament_id: tournamentId, send_count: 1 });
+  if (saveErr) throw saveErr;
+
+  return { userId, method, redirectTo };
+}
+
+export type InviteResult = {
+  email: string;
+  ok: boolean;
+  method: InviteMethod | null;
+  error: string | null;
+};
+
+/** Koliko emailova se šalje istovremeno (Supabase Auth ima rate limit na slanje). */
+export const INVITE_CONCURRENCY = 3;
+
+/**
+ * Pozivnice za više igrača odjednom: greška jednog ne prekida ostale,
+ * rezultat je po emailu (redosled kao na ulazu).
+ */
+export async function sendInvites(
+  db: SupabaseClient,
+  opts: { emails: string[]; tournamentId: string; invitedBy: string | null; siteUrl: string },
+  concurrency = INVITE_CONCURRENCY
+): Promise<InviteResult[]> {
+  const emails = Array.from(new Set(opts.emails.map((e) => e.trim().toLowerCase()).filter(Boolean)));
+  const results: InviteResult[] = new Array(emails.length);
+  let next = 0;
+
+  async function worker() {
+    while (next < emails.length) {
+      const i = next++;
+      const email = emails[i];
+      if (!email.includes("@")) {
+        results[i] = { email, ok: false, method: null, error: "Invalid email" };
+        continue;
+      }
+      try {
+        const sent = await sendInvite(db, { ...opts, email });
+        results[i] = { email, ok: true, method: sent.method, error: null };
+      } catch (e) {
+        const message = e instanceof Error ? e.message : (e as { message?: string } | null)?.message ?? "unknown";
+        results[i] = { email, ok: false, method: null, error: message };
+      }
+    }
+  }
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, emails.length) }, worker));
+  return results;
+}
+
+export async function revokeInvite(db: SupabaseClient, id: string) {
+  const { error } = await db.from("invites").update({ status: "revoked" }).eq("id", id).neq("status", "accepted");
+  if (error) throw error;
+  return true;
+}
+
+/** Igrač ima neopozvanu pozivnicu za turnir (admin ga je već izabrao). */
+export async function hasInvite(db: SupabaseClient, email: string, tournamentId: string) {
+  const { data, error } = await db
+    .from("invites")
+    .select("id")
+    .eq("email", email.toLowerCase())
+    .eq("tournament_id", tournamentId)
+    .neq("status", "revoked")
+    .limit(1);
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
+
+/**
+ * Nov nalog za prijavu na turnir kodom: Supabase invite email (nalog je nepotvrđen dok igrač
+ * ne klikne link, koji vodi na `redirectTo`). Za postojeći nalog ne šalje ništa i vraća false,
+ * pa login šalje običan magic link.
+ */
+export async function inviteNewAccount(db: SupabaseClient, email: string, redirectTo: string) {
+  const { error } = await db.auth.admin.inviteUserByEmail(email, { redirectTo });
+  if (error && !isAlreadyRegistered(error)) throw new Error(`Failed to invite: ${error.message}`);
+  return !error;
+}
+
+/** Igrač se prijavio preko linka: njegova (neopozvana) pozivnica za turnir postaje "accepted". */
+export async function acceptInvite(db: SupabaseClient, email: string, tournamentId: string) {
+  const { data, error } = await db
+    .from("invites")
+    .update({ status: "accepted", accepted_at: new Date().toISOString() })
+    .eq("email", email.toLowerCase())
+    .eq("tournament_id", tournamentId)
+    .eq("status", "pending")
+    .select("id");
+  if (error) throw error;
+  return (data ?? []).length > 0;
+}
@@ -0,0 +1,138 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Životni ciklus turnira (tournaments.status):
+ * draft → roster_locked → drawn → scheduled → in_progress → finished
+ *
+ * - ručno se menja samo lock/unlock rostera i završi/ponovo otvori
+ * - ostali prelazi idu uz akciju (žreb, raspored, prvi rezultat) na serveru
+ * - unazad (reset žreba/rasporeda) samo dok nema rezultata
+ * - stari turniri bez statusa: status se izvodi iz podataka
+ */
+
+export type TournamentStatus = "draft" | "roster_locked" | "drawn" | "scheduled" | "in_progress" | "finished";
+
+export const STATUS_ORDER: TournamentStatus[] = [
+  "draft",
+  "roster_locked",
+  "drawn",
+  "scheduled",
+  "in_progress",
+  "finished",
+];
+
+export const STATUS_LABELS: Record<TournamentStatus, string> = {
+  draft: "Priprema",
+  roster_locked: "Roster zaključan",
+  drawn: "Žreb završen",
+  scheduled: "Raspored spreman",
+  in_progress: "U toku",
+  finished: "Završen",
+};
+
+const TRANSITIONS: Record<TournamentStatus, TournamentStatus[]> = {
+  draft: ["roster_locked"],
+  roster_locked: ["draft", "drawn"],
+  drawn: ["roster_locked", "scheduled"],
+  scheduled: ["drawn", "in_progress"],
+  in_progress: ["drawn", "finished"],
+  finished: ["in_progress"],
+};
+
+/** Prelazi koje admin pokreće dugmetom (bez prateće akcije). */
+export const MANUAL_TRANSITIONS: [TournamentStatus, TournamentStatus][] = [
+  ["draft", "roster_locked"],
+  ["roster_locked", "draft"],
+  ["in_progress", "finished"],
+  ["finished", "in_progress"],
+];
+
+export function parseStatus(raw: unknown): TournamentStatus | null {
+  return typeof raw === "string" && (STATUS_ORDER as string[]).includes(raw) ? (raw as TournamentStatus) : null;
+}
+
+export function inferStatus(facts: { hasDraw: boolean; hasMatches: boolean; hasResults: boolean }): TournamentStatus {
+  if (facts.hasResults) return "in_progress";
+  if (facts.hasMatches) return "scheduled";
+  if (facts.hasDraw) return "drawn";
+  return "draft";
+}
+
+export function statusAtLeast(status: TournamentStatus, min: TournamentStatus) {
+  return STATUS_ORDER.indexOf(status) >= STATUS_ORDER.indexOf(min);
+}
+
+/** null = prelaz je dozvoljen, inače poruka za korisnika. */
+export function transitionError(from: TournamentStatus, to: TournamentStatus): string | null {
+  if (from === to) return null;
+  if (TRANSITIONS[from].includes(to)) return null;
+  return `Nedozvoljen prelaz: ${STATUS_LABELS[from]} → ${STATUS_LABELS[to]}.`;
+}
+
+export function requireStatus(status: TournamentStatus, allowed: TournamentStatus[], action: string): string | null {
+  if (allowed.includes(status)) return null;
+  return `${action} nije dozvoljeno kada je turnir u statusu „${STATUS_LABELS[status]}“.`;
+}
+
+/** Pravi rezultati (BYE se ne računa) – posle njih nema resetovanja. */
+export async function tournamentHasResults(supabase: SupabaseClient, tournamentId: string) {
+  const { count, error } = await supabase
+    .from("matches")
+    .select("id", { count: "exact", head: true })
+    .eq("tournament_id", tournamentId)
+    .not("played_at", "is", null)
+    .not("away_team_id", "is", null);
+  if (error) throw error;
+  return (count ?? 0) > 0;
+}
+
+/** Status turnira; null = nema turnira sa tim id-jem (rute vraćaju 404). */
+export async function loadTournamentStatus(
+  supabase: SupabaseClient,
+  tournamentId: string
+): Promise<TournamentStatus | null> {
+  const { data, error } = await supabase.from("tournaments").select("status").eq("id", tournamentId).maybeSingle();
+  if (error) throw error;
+  if (!data) return null;
+
+  const stored = parseStatus(data?.status);
+  if (stored) return stored;
+
+  const [draw, matches, hasResults] = await Promise.all([
+    supabase.from("tournament_players").select("id", { count: "exact", head: true }).eq("tournament_id", tournamentId),
+    supabase.from("matches").select("id", { count: "exact", head: true }).eq("tournament_id", tournamentId),
+    tournamentHasResults(supabase, tournamentId),
+  ]);
+  if (draw.error) throw draw.error;
+  if (matches.error) throw matches.error;
+
+  return inferStatus({ hasDraw: (draw.count ?? 0) > 0, hasMatches: (matches.count ?? 0) > 0, hasResults });
+}
+
+/**
+ * Upis novog statusa. `from` je status koji je server video pre akcije – ako ga je
+ * u međuvremenu promenio neko drugi, upis ne prolazi (dva admina istovremeno).
+ */
+export async function setTournamentStatus(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  from: TournamentStatus,
+  to: TournamentStatus
+) {
+  if (from === to) return to;
+
+  const err = transitionError(from, to);
+  if (err) throw new Error(err);
+
+  // stari turniri imaju status null, pa se poredi i sa tim
+  const { data, error } = await supabase
+    .from("tournaments")
+    .update({ status: to })
+    .eq("id", tournamentId)
+    .or(`status.eq.${from},status.is.null`)
+    .select("id");
+  if (error) throw error;
+  if (!data || data.length === 0) throw new Error("Status turnira je u međuvremenu promenjen. Osveži stranicu.");
+
+  return to;
+}
@@ -0,0 +1,15 @@
+const PAGE_SIZE = 1000;
+
+/**
+ * Svi redovi upita, stranu po stranu (PostgREST vraća najviše max_rows redova po zahtevu).
+ * Upit mora imati stabilan redosled (`.order(...)` po jedinstvenoj koloni), inače strane preskaču redove.
+ */
+export async function selectAll<T>(page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: unknown }>) {
+  const rows: T[] = [];
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data ?? []));
+    if ((data ?? []).length < PAGE_SIZE) return rows;
+  }
+}
@@ -0,0 +1,156 @@
+import { isBye, isScored, type MatchRow } from "@/lib/standings";
+import { sideFromOwners } from "@/lib/results";
+
+/**
+ * Statistika igrača (čoveka, po player_email) kroz sve turnire – ne tima.
+ * - meč je igračev ako je upisan kao player1/player2 ili vodi tim iz žreba (kao lib/results)
+ * - jak/slab tim: gornja/donja polovina turnira po teams.rating (bez rejtinga = nepoznato)
+ */
+
+export type GameOutcome = "W" | "D" | "L";
+export type TeamStrength = "strong" | "weak";
+
+export const STRENGTH_LABELS: Record<TeamStrength, string> = {
+  strong: "Sa jakim timom",
+  weak: "Sa slabim timom",
+};
+
+export type PlayerGame = {
+  match_id: string;
+  tournament_id: string;
+  played_at: string | null;
+  team_id: string | null;
+  opponent_team_id: string | null;
+  gf: number;
+  ga: number;
+  outcome: GameOutcome;
+  strength: TeamStrength | null;
+};
+
+export type GameRecord = { played: number; wins: number; draws: number; losses: number; gf: number; ga: number };
+
+export type PlayerStats = GameRecord & {
+  winPct: number;
+  gfPerGame: number;
+  gaPerGame: number;
+  /** poslednjih 5, najnoviji poslednji */
+  form: GameOutcome[];
+  current: { outcome: GameOutcome; length: number } | null;
+  longestWinStreak: number;
+  longestUnbeaten: number;
+  biggestWin: PlayerGame | null;
+  byStrength: Record<TeamStrength, GameRecord>;
+};
+
+/** Jačina timova u turniru: gornja polovina po rejtingu = jak. */
+export function teamStrengths(teams: { team_id: string; rating: number | null }[]) {
+  const rated = teams
+    .filter((t) => t.rating !== null)
+    .sort((a, b) => (b.rating ?? 0) - (a.rating ?? 0) || a.team_id.localeCompare(b.team_id));
+  const strongCount = Math.ceil(rated.length / 2);
+  return new Map<string, TeamStrength>(rated.map((t, i) => [t.team_id, i < strongCount ? "strong" : "weak"]));
+}
+
+function outcomeOf(gf: number, ga: number): GameOutcome {
+  return gf > ga ? "W" : gf < ga ? "L" : "D";
+}
+
+/**
+ * Odigrani mečevi igrača, hronološki. `owners`: tournament_id -> team_id -> email,
+ * `strengths`: tournament_id -> team_id -> jak/slab. BYE se ne računa.
+ */
+export function playerGames(
+  email: string,
+  matches: MatchRow[],
+  owners: Map<string, Map<string, string>>,
+  strengths: Map<string, Map<string, TeamStrength>> = new Map()
+): PlayerGame[] {
+  const out: PlayerGame[] = [];
+  for (const m of matches) {
+    if (isBye(m) || !isScored(m)) continue;
+    const side = sideFromOwners(m, email, (teamId) => owners.get(m.tournament_id)?.get(teamId) ?? null);
+    if (!side) continue;
+
+    const home = side === "home";
+    const team = home ? m.home_team_id : m.away_team_id;
+    const gf = home ? m.player1_score : m.player2_score;
+    const ga = home ? m.player2_score : m.player1_score;
+    out.push({
+      match_id: m.id,
+      tournament_id: m.tournament_id,
+      played_at: m.played_at,
+      team_id: team,
+      opponent_team_id: home ? m.away_team_id : m.home_team_id,
+      gf,
+      ga,
+      outcome: outcomeOf(gf, ga),
+      strength: strengths.get(m.tournament_id)?.get(team) ?? null,
+    });
+  }
+  return out.sort((a, b) => (a.played_at ?? "").localeCompare(b.played_at ?? ""));
+}
+
+function emptyRecord(): GameRecord {
+  return { played: 0, wins: 0, draws: 0, losses: 0, gf: 0, ga: 0 };
+}
+
+function addGame(r: GameRecord, g: PlayerGame) {
+  r.played += 1;
+  r.gf += g.gf;
+  r.ga += g.ga;
+  if (g.outcome === "W") r.wins += 1;
+  else if (g.outcome === "D") r.draws += 1;
+  else r.losses += 1;
+}
+
+export function winPct(r: GameRecord) {
+  return r.played ? Math.round((r.wins / r.played) * 100) : 0;
+}
+
+/** `games` hronološki (playerGames). */
+export function computePlayerStats(games: PlayerGame[]): PlayerStats {
+  const total = emptyRecord();
+  const byStrength: Record<TeamStrength, GameRecord> = { strong: emptyRecord(), weak: emptyRecord() };
+  let longestWinStreak = 0;
+  let longestUnbeaten = 0;
+  let win = 0;
+  let unbeaten = 0;
+  let biggestWin: PlayerGame | null = null;
+
+  for (const g of games) {
+    addGame(total, g);
+    if (g.strength) addGame(byStrength[g.strength], g);
+
+    win = g.outcome === "W" ? win + 1 : 0;
+    unbeaten = g.outcome !== "L" ? unbeaten + 1 : 0;
+    longestWinStreak = Math.max(longestWinStreak, win);
+    longestUnbeaten = Math.max(longestUnbeaten, unbeaten);
+
+    if (g.outcome === "W") {
+      const margin = g.gf - g.ga;
+      const best = biggestWin ? biggestWin.gf - biggestWin.ga : -1;
+      if (margin > best || (margin === best && biggestWin && g.gf > biggestWin.gf)) biggestWin = g;
+    }
+  }
+
+  let current: PlayerStats["current"] = null;
+  for (let i = games.length - 1; i >= 0; i--) {
+    if (!current) current = { outcome: games[i].outcome, length: 1 };
+    else if (games[i].outcome === current.outcome) current.length += 1;
+    else break;
+  }
+
+  const per = (n: number) => (total.played ? Math.round((n / total.played) * 100) / 100 : 0);
+  return {
+    ...total,
+    winPct: winPct(total),
+    gfPerGame: per(total.gf),
+    gaPerGame: per(total.ga),
+    form: games.slice(-5).map((g) => g.outcome),
+    current,
+    longestWinStreak,
+    longestUnbeaten,
+    biggestWin,
+    byStrength,
+  };
+}
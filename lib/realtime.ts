@@ -0,0 +1,97 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Realtime za aktivni turnir (player strana i dashboard).
+ * - promene stižu preko Supabase postgres_changes
+ * - skupljaju se i šalju u paketu posle kratke pauze (debounce), da niz upisa
+ *   (npr. novi žreb ili raspored) ne izazove desetine rendera
+ * - paket se uklapa u postojeći state po id-u (reconcileRows), bez ponovnog učitavanja
+ */
+
+export type RealtimeTable = "matches" | "match_events" | "tournament_players" | "tournament_teams" | "fixtures";
+
+type Row = { id: string; tournament_id?: string | null };
+
+export type RowChange = {
+  type: "INSERT" | "UPDATE" | "DELETE";
+  row: Row & Record<string, unknown>;
+};
+
+export type ChangeBatch = Partial<Record<RealtimeTable, RowChange[]>>;
+
+export const REALTIME_DEBOUNCE_MS = 400;
+
+export function subscribeToTournament(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  tables: RealtimeTable[],
+  onChanges: (batch: ChangeBatch) => void,
+  debounceMs = REALTIME_DEBOUNCE_MS
+) {
+  let pending: ChangeBatch = {};
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const push = (table: RealtimeTable, change: RowChange) => {
+    (pending[table] ??= []).push(change);
+    if (timer) clearTimeout(timer);
+    timer = setTimeout(() => {
+      const batch = pending;
+      pending = {};
+      timer = null;
+      onChanges(batch);
+    }, debounceMs);
+  };
+
+  let channel = supabase.channel(`tournament:${tournamentId}`);
+  for (const table of tables) {
+    channel = channel
+      .on(
+        "postgres_changes",
+        { event: "INSERT", schema: "public", table, filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => push(table, { type: "INSERT", row: payload.new as RowChange["row"] })
+      )
+      .on(
+        "postgres_changes",
+        { event: "UPDATE", schema: "public", table, filter: `tournament_id=eq.${tournamentId}` },
+        (payload) => push(table, { type: "UPDATE", row: payload.new as RowChange["row"] })
+      )
+      // DELETE se ne može filtrirati (stiže samo id) – nepoznat id se u reconcileRows ignoriše
+      .on("postgres_changes", { event: "DELETE", schema: "public", table }, (payload) =>
+        push(table, { type: "DELETE", row: payload.old as RowChange["row"] })
+      );
+  }
+  channel.subscribe();
+
+  return () => {
+    if (timer) clearTimeout(timer);
+    supabase.removeChannel(channel);
+  };
+}
+
+/**
+ * Primena paketa promena na listu redova (po id-u). Redovi koji su prešli u drugi
+ * turnir ispadaju. `compare` vraća redosled kao u upitu za učitavanje.
+ */
+export function reconcileRows<T extends Row>(
+  rows: T[],
+  changes: RowChange[] | undefined,
+  tournamentId: string,
+  compare?: (a: T, b: T) => number
+): T[] {
+  if (!changes || changes.length === 0) return rows;
+
+  const byId = new Map(rows.map((r) => [r.id, r]));
+  for (const c of changes) {
+    const id = c.row.id;
+    if (!id) continue;
+
+    if (c.type === "DELETE" || (c.row.tournament_id && c.row.tournament_id !== tournamentId)) {
+      byId.delete(id);
+      continue;
+    }
+    byId.set(id, { ...(byId.get(id) ?? {}), ...c.row } as unknown as T);
+  }
+
+  const out = Array.from(byId.values());
+  return compare ? out.sort(compare) : out;
+}
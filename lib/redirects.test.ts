@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { safeNextPath } from "@/lib/redirects";
+
+const ORIGIN = "https://liga.example";
+
+describe("safeNextPath", () => {
+  it("keeps same-site paths with their query", () => {
+    expect(safeNextPath("/player?join=abc", ORIGIN)).toBe("/player?join=abc");
+    expect(safeNextPath("/join/ABC123", ORIGIN)).toBe("/join/ABC123");
+  });
+
+  it("rejects missing and relative values", () => {
+    expect(safeNextPath(null, ORIGIN)).toBeNull();
+    expect(safeNextPath("", ORIGIN)).toBeNull();
+    expect(safeNextPath("player", ORIGIN)).toBeNull();
+    expect(safeNextPath("https://evil.com", ORIGIN)).toBeNull();
+  });
+
+  it("rejects values the browser would resolve to another host", () => {
+    expect(safeNextPath("//evil.com", ORIGIN)).toBeNull();
+    expect(safeNextPath("/\\evil.com", ORIGIN)).toBeNull();
+    expect(safeNextPath("/\t/evil.com", ORIGIN)).toBeNull();
+    expect(safeNextPath("/\n/evil.com", ORIGIN)).toBeNull();
+  });
+});
@@ -0,0 +1,19 @@
+/**
+ * ?next= posle prijave (proxy.ts, /login, /auth/callback).
+ * Dozvoljena je samo putanja na istom sajtu: "/\evil.com" ili "//evil.com" browser tumači
+ * kao drugi host, pa se odbijaju kosa crta unazad i kontrolni znaci, a rezultat mora
+ * da ostane na istom origin-u.
+ */
+export function safeNextPath(next: string | null | undefined, origin: string): string | null {
+  if (!next || !next.startsWith("/")) return null;
+  if (/[\\\u0000-\u001f\u007f]/.test(next)) return null;
+
+  let url: URL;
+  try {
+    url = new URL(next, origin);
+  } catch {
+    return null;
+  }
+  if (url.origin !== new URL(origin).origin) return null;
+  return url.pathname + url.search + url.hash;
+}
@@ -0,0 +1,57 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MatchRow, ResultStatus } from "@/lib/standings";
+
+/**
+ * Rezultati koje prijavljuju igrači:
+ * - igrač prijavi rezultat svog meča -> "pending" (played_at ostaje null, ne ulazi u tabelu)
+ * - protivnik potvrdi -> "confirmed" + played_at, ili ospori -> "disputed"
+ * - sporne rezultate rešava admin/sudija na dashboard-u (upis rezultata = potvrđen)
+ */
+
+export const RESULT_STATUS_LABELS: Record<ResultStatus, string> = {
+  pending: "čeka potvrdu",
+  confirmed: "potvrđeno",
+  disputed: "sporno",
+};
+
+export type MatchSide = "home" | "away";
+
+/** Prijavljen, a još nepotvrđen rezultat (pending ili disputed). */
+export function hasOpenSubmission(m: MatchRow) {
+  return m.result_status === "pending" || m.result_status === "disputed";
+}
+
+/** Da li `email` treba da potvrdi/ospori prijavljen rezultat. */
+export function awaitsMyConfirmation(m: MatchRow, email: string | null, side: MatchSide | null) {
+  return Boolean(email && side && m.result_status === "pending" && m.reported_by !== email.toLowerCase());
+}
+
+/**
+ * Strana igrača u meču: player1/player2_email ako su dodeljeni, inače po timu iz žreba
+ * (tournament_players). null = nije njegov meč.
+ */
+export function sideFromOwners(m: MatchRow, email: string, teamOwner: (teamId: string) => string | null) {
+  const me = email.toLowerCase();
+  if (m.player1_email?.toLowerCase() === me) return "home";
+  if (m.player2_email?.toLowerCase() === me) return "away";
+  if (!m.player1_email && m.home_team_id && teamOwner(m.home_team_id) === me) return "home";
+  if (!m.player2_email && m.away_team_id && teamOwner(m.away_team_id) === me) return "away";
+  return null;
+}
+
+export async function loadMatchSide(
+  supabase: SupabaseClient,
+  m: MatchRow,
+  email: string
+): Promise<MatchSide | null> {
+  const { data, error } = await supabase
+    .from("tournament_players")
+    .select("player_email, team_id")
+    .eq("tournament_id", m.tournament_id);
+  if (error) throw error;
+
+  const owners = new Map(
+    ((data ?? []) as { player_email: string; team_id: string }[]).map((r) => [r.team_id, r.player_email.toLowerCase()])
+  );
+  return sideFromOwners(m, email, (teamId) => owners.get(teamId) ?? null);
+}
@@ -0,0 +1,92 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Uloge i dozvole – isti modul koristi i klijent (getRole, dashboard) i server (/api/admin/*).
+ * - hijerarhija: owner > admin > referee > player > spectator
+ * - dozvola važi za minimalnu ulogu i sve iznad nje
+ * - izvor: profiles.role (po user id); players.role (po email-u) samo kao fallback za stare naloge
+ */
+
+export type Role = "owner" | "admin" | "referee" | "player" | "spectator";
+
+export const ROLES: Role[] = ["owner", "admin", "referee", "player", "spectator"];
+
+const ROLE_RANK: Record<Role, number> = {
+  spectator: 0,
+  player: 1,
+  referee: 2,
+  admin: 3,
+  owner: 4,
+};
+
+export const ROLE_LABELS: Record<Role, string> = {
+  owner: "Vlasnik",
+  admin: "Admin",
+  referee: "Sudija",
+  player: "Igrač",
+  spectator: "Posmatrač",
+};
+
+export type Permission =
+  | "open_dashboard"
+  | "view_all_matches"
+  | "enter_results"
+  | "run_draw"
+  | "manage_schedule"
+  | "manage_tournaments"
+  | "manage_players"
+  | "send_invites";
+
+export const PERMISSION_MIN_ROLE: Record<Permission, Role> = {
+  open_dashboard: "referee",
+  view_all_matches: "referee",
+  enter_results: "referee",
+  run_draw: "admin",
+  manage_schedule: "admin",
+  manage_tournaments: "admin",
+  manage_players: "admin",
+  send_invites: "admin",
+};
+
+export function parseRole(raw: unknown): Role | null {
+  return typeof raw === "string" && (ROLES as string[]).includes(raw) ? (raw as Role) : null;
+}
+
+export function atLeast(role: Role | null, min: Role) {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[min];
+}
+
+export function can(role: Role | null, permission: Permission) {
+  return atLeast(role, PERMISSION_MIN_ROLE[permission]);
+}
+
+/**
+ * Uloga korisnika. `client` mora moći da pročita sopstveni profil
+ * (browser sesija ili anon klijent sa Bearer tokenom).
+ */
+export async function resolveRole(
+  client: SupabaseClient,
+  user: { id: string; email?: string | null }
+): Promise<Role | null> {
+  const { data: profile, error: profErr } = await client
+    .from("profiles")
+    .select("role")
+    .eq("id", user.id)
+    .maybeSingle();
+  if (profErr) throw profErr;
+
+  const fromProfile = parseRole(profile?.role);
+  if (fromProfile) return fromProfile;
+
+  const email = user.email?.toLowerCase() ?? null;
+  if (!email) return null;
+
+  const { data: player, error: playerErr } = await client
+    .from("players")
+    .select("role")
+    .eq("email", email)
+    .maybeSingle();
+  if (playerErr) throw playerErr;
+
+  return parseRole(player?.role);
+}
@@ -0,0 +1,141 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+
+/**
+ * Roster turnira (tournament_registrations): ko igra baš ovaj turnir.
+ * - admin dodaje igrače iz `players`, ili se igrač sam prijavi preko kratkog koda / QR-a
+ *   (/join/<kod>, tournaments.join_code) ili dugmetom na /player (otvoren turnir ili pozvan igrač)
+ * - prijave su otvorene dok je turnir u statusu "draft"
+ * - turnir sa join_restricted: bez pozivnice samo trenutnim kodom (novi kod gasi stari),
+ *   i takva prijava čeka odobrenje admina ("pending")
+ * - lock roster, invite svima i žreb rade samo nad odobrenim rosterom
+ */
+
+export type RosterSource = "admin" | "self";
+export type RegistrationStatus = "approved" | "pending";
+
+export type RosterEntry = {
+  id: string;
+  tournament_id: string;
+  player_email: string;
+  source: RosterSource;
+  /** stari redovi nemaju status -> odobreni */
+  status?: RegistrationStatus | null;
+  created_at?: string;
+};
+
+export function isApproved(r: RosterEntry) {
+  return (r.status ?? "approved") === "approved";
+}
+
+export async function loadRoster(supabase: SupabaseClient, tournamentId: string): Promise<RosterEntry[]> {
+  const { data, error } = await supabase
+    .from("tournament_registrations")
+    .select("*")
+    .eq("tournament_id", tournamentId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return (data ?? []) as RosterEntry[];
+}
+
+/** Odobreni igrači (lock roster, žreb). */
+export async function rosterEmails(supabase: SupabaseClient, tournamentId: string) {
+  return (await loadRoster(supabase, tournamentId)).filter(isApproved).map((r) => r.player_email);
+}
+
+/** Upis u roster; već prijavljeni se preskaču. */
+export async function addToRoster(
+  supabase: SupabaseClient,
+  tournamentId: string,
+  emails: string[],
+  source: RosterSource,
+  status: RegistrationStatus = "approved"
+) {
+  const clean = Array.from(new Set(emails.map((e) => e.trim().toLowerCase()).filter(Boolean)));
+  if (clean.length === 0) return 0;
+
+  const { error } = await supabase.from("tournament_registrations").upsert(
+    clean.map((email) => ({ tournament_id: tournamentId, player_email: email, source, status })),
+    { onConflict: "tournament_id,player_email", ignoreDuplicates: true }
+  );
+  if (error) throw error;
+  return clean.length;
+}
+
+/** Admin odobrava prijave koje čekaju ("pending" -> "approved"). */
+export async function approveRegistrations(supabase: SupabaseClient, tournamentId: string, emails: string[]) {
+  const clean = emails.map((e) => e.trim().toLowerCase()).filter(Boolean);
+  if (clean.length === 0) return true;
+
+  const { error } = await supabase
+    .from("tournament_registrations")
+    .update({ status: "approved" })
+    .eq("tournament_id", tournamentId)
+    .in("player_email", clean);
+  if (error) throw error;
+  return true;
+}
+
+export async function removeFromRoster(supabase: SupabaseClient, tournamentId: string, email: string) {
+  const { error } = await supabase
+    .from("tournament_registrations")
+    .delete()
+    .eq("tournament_id", tournamentId)
+    .eq("player_email", email.trim().toLowerCase());
+  if (error) throw error;
+  return true;
+}
+
+export function joinLink(origin: string, tournamentId: string) {
+  return `${origin}/player?join=${encodeURIComponent(tournamentId)}`;
+}
+
+/* =========================
+   Kod za prijavu (/join/<kod>, QR na dashboardu)
+   ========================= */
+
+// bez 0/O i 1/I/L, da se kod lako prepiše sa ekrana
+const JOIN_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const JOIN_CODE_LENGTH = 6;
+
+export function generateJoinCode() {
+  const bytes = new Uint8Array(JOIN_CODE_LENGTH);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (b) => JOIN_CODE_ALPHABET[b % JOIN_CODE_ALPHABET.length]).join("");
+}
+
+export function normalizeJoinCode(code: string) {
+  return code.trim().toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+export function joinCodeLink(origin: string, code: string) {
+  return `${origin}/join/${encodeURIComponent(code)}`;
+}
+
+export type JoinTarget = { id: string; name: string; join_restricted: boolean | null };
+
+/** Turnir za samostalnu prijavu: po kodu (/join/<kod>) ili po id-ju (dugme na /player). */
+export async function findJoinTarget(
+  supabase: SupabaseClient,
+  by: { code?: string; tournamentId?: string }
+): Promise<JoinTarget | null> {
+  const code = by.code ? normalizeJoinCode(by.code) : "";
+  if (!code && !by.tournamentId) return null;
+
+  const query = supabase.from("tournaments").select("id, name, join_restricted");
+  const { data, error } = await (code ? query.eq("join_code", code) : query.eq("id", by.tournamentId)).maybeSingle();
+  if (error) throw error;
+  return (data as JoinTarget | null) ?? null;
+}
+
+/** Novi jedinstveni kod za turnir (novi turnir ili "Novi kod" kad stari procuri). */
+export async function assignJoinCode(supabase: SupabaseClient, tournamentId: string) {
+  for (let attempt = 0; attempt < 5; attempt++) {
+    const code = generateJoinCode();
+    const { error } = await supabase.from("tournaments").update({ join_code: code }).eq("id", tournamentId);
+    if (!error) return code;
+    // 23505 = unique violation: kod već zauzet, probaj drugi
+    if (error.code !== "23505") throw error;
+  }
+  throw new Error("Nije uspelo generisanje jedinstvenog koda.");
+}
@@ -0,0 +1,127 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { MatchEvent } from "@/lib/events";
+import { selectAll } from "@/lib/paging";
+import { isPlayed, type MatchRow } from "@/lib/standings";
+
+/**
+ * Zlatna kopačka: strelci i asistenti iz match_events.
+ * - fudbaleri (ime iz igre) i ljudi (player1/player2_email meča, inače igrač kome pripada
+ *   tim u tom turniru – isto kao lib/elo i lib/playerStats)
+ * - po turniru ili svi turniri zajedno
+ * - autogol se ne računa strelcu; broje se samo potvrđeni mečevi
+ */
+
+export type ScorerSort = "goals" | "assists" | "total" | "name";
+
+export const SCORER_SORT_LABELS: Record<ScorerSort, string> = {
+  goals: "Golovi",
+  assists: "Asistencije",
+  total: "G+A",
+  name: "Ime",
+};
+
+export type ScorerRow = {
+  key: string;
+  name: string;
+  /** fudbaler: timovi za koje je davao golove; čovek: prazno */
+  team_ids: string[];
+  /** fudbaler: igrači (email) koji su ga vodili */
+  owners: string[];
+  goals: number;
+  assists: number;
+};
+
+/** Ko vodi koji tim: tournament_id -> team_id -> email. */
+export type TeamOwners = Map<string, Map<string, string>>;
+
+export type ScoringMatch = Pick<
+  MatchRow,
+  "id" | "tournament_id" | "home_team_id" | "away_team_id" | "player1_email" | "player2_email" | "played_at" | "result_status"
+>;
+
+export function buildTeamOwners(rows: { tournament_id: string; team_id: string; player_email: string }[]): TeamOwners {
+  const out: TeamOwners = new Map();
+  for (const r of rows) {
+    const t = out.get(r.tournament_id) ?? new Map<string, string>();
+    t.set(r.team_id, r.player_email.toLowerCase());
+    out.set(r.tournament_id, t);
+  }
+  return out;
+}
+
+function nameKey(name: string) {
+  return name.trim().toLowerCase().replace(/\s+/g, " ");
+}
+
+function bump(map: Map<string, ScorerRow>, key: string, name: string, field: "goals" | "assists") {
+  const row = map.get(key) ?? { key, name, team_ids: [], owners: [], goals: 0, assists: 0 };
+  row[field] += 1;
+  map.set(key, row);
+  return row;
+}
+
+function addUnique(list: string[], v: string | null | undefined) {
+  if (v && !list.includes(v)) list.push(v);
+}
+
+export function computeScorers(events: MatchEvent[], matches: ScoringMatch[], owners: TeamOwners) {
+  const matchById = new Map(matches.filter((m) => isPlayed(m)).map((m) => [m.id, m]));
+
+  const footballers = new Map<string, ScorerRow>();
+  const humans = new Map<string, ScorerRow>();
+
+  for (const e of events) {
+    if (e.kind !== "goal") continue;
+    const m = matchById.get(e.match_id);
+    if (!m) continue;
+
+    const teamId = e.side === "home" ? m.home_team_id : m.away_team_id;
+    const assigned = e.side === "home" ? m.player1_email : m.player2_email;
+    const owner = assigned?.toLowerCase() ?? (teamId ? owners.get(m.tournament_id)?.get(teamId) ?? null : null);
+
+    const scorer = bump(footballers, nameKey(e.player_name), e.player_name.trim(), "goals");
+    addUnique(scorer.team_ids, teamId);
+    addUnique(scorer.owners, owner);
+    if (owner) bump(humans, owner, owner, "goals");
+
+    if (e.assist_name?.trim()) {
+      const assist = bump(footballers, nameKey(e.assist_name), e.assist_name.trim(), "assists");
+      addUnique(assist.team_ids, teamId);
+      addUnique(assist.owners, owner);
+      if (owner) bump(humans, owner, owner, "assists");
+    }
+  }
+
+  return { footballers: Array.from(footballers.values()), humans: Array.from(humans.values()) };
+}
+
+export function sortScorers(rows: ScorerRow[], by: ScorerSort = "goals", displayName = (r: ScorerRow) => r.name) {
+  const byName = (a: ScorerRow, b: ScorerRow) => displayName(a).localeCompare(displayName(b));
+  return [...rows].sort((a, b) => {
+    if (by === "name") return byName(a, b);
+    if (by === "assists") return b.assists - a.assists || b.goals - a.goals || byName(a, b);
+    if (by === "total") return b.goals + b.assists - (a.goals + a.assists) || b.goals - a.goals || byName(a, b);
+    return b.goals - a.goals || b.assists - a.assists || byName(a, b);
+  });
+}
+
+/** Sve što treba za tabelu strelaca svih turnira. */
+export async function loadAllTimeScoring(supabase: SupabaseClient) {
+  const [events, matches, players] = await Promise.all([
+    selectAll<MatchEvent>((from, to) =>
+      supabase.from("match_events").select("*").eq("kind", "goal").order("id").range(from, to)
+    ),
+    selectAll<ScoringMatch>((from, to) =>
+      supabase
+        .from("matches")
+        .select("id, tournament_id, home_team_id, away_team_id, player1_email, player2_email, played_at, result_status")
+        .order("id")
+        .range(from, to)
+    ),
+    selectAll<{ tournament_id: string; team_id: string; player_email: string }>((from, to) =>
+      supabase.from("tournament_players").select("tournament_id, team_id, player_email").order("id").range(from, to)
+    ),
+  ]);
+
+  return computeScorers(events, matches, buildTeamOwners(players));
+}
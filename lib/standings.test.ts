@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import { computeStandings, unresolvedTies, type MatchRow } from "@/lib/standings";
+
+let seq = 0;
+
+function match(home: string | null, away: string | null, score: [number, number] | null, extra: Partial<MatchRow> = {}): MatchRow {
+  seq += 1;
+  return {
+    id: `m${seq}`,
+    tournament_id: "t1",
+    round: 1,
+    home_team_id: home,
+    away_team_id: away,
+    player1_email: null,
+    player2_email: null,
+    player1_score: score ? score[0] : null,
+    player2_score: score ? score[1] : null,
+    played_at: score ? "2026-01-01T12:00:00Z" : null,
+    ...extra,
+  };
+}
+
+const teams = (...ids: string[]) => ids.map((team_id) => ({ team_id }));
+const order = (rows: { team_id: string }[]) => rows.map((r) => r.team_id);
+const row = (rows: ReturnType<typeof computeStandings>, id: string) => rows.find((r) => r.team_id === id)!;
+
+describe("computeStandings", () => {
+  it("counts points, record and goals", () => {
+    const rows = computeStandings(
+      [match("A", "B", [2, 1]), match("A", "C", [1, 1]), match("B", "C", [3, 0])],
+      teams("A", "B", "C")
+    );
+
+    expect(order(rows)).toEqual(["A", "B", "C"]);
+    expect(row(rows, "A")).toMatchObject({ played: 2, wins: 1, draws: 1, losses: 0, gf: 3, ga: 2, gd: 1, pts: 4 });
+    expect(row(rows, "B")).toMatchObject({ played: 2, wins: 1, draws: 0, losses: 1, gf: 4, ga: 2, gd: 2, pts: 3 });
+    expect(row(rows, "C")).toMatchObject({ played: 2, wins: 0, draws: 1, losses: 1, gf: 1, ga: 4, gd: -3, pts: 1 });
+  });
+
+  it("uses a custom points config", () => {
+    const rows = computeStandings([match("A", "B", [1, 0]), match("A", "C", [0, 0])], teams("A", "B", "C"), {
+      points: { win: 2, draw: 1, loss: -1 },
+    });
+    expect(row(rows, "A").pts).toBe(3);
+    expect(row(rows, "B").pts).toBe(-1);
+    expect(row(rows, "C").pts).toBe(1);
+  });
+
+  it("gives every tournament team a row and ignores teams outside the tournament", () => {
+    const rows = computeStandings([match("A", "X", [5, 0])], teams("A", "B"));
+    expect(order(rows).sort()).toEqual(["A", "B"]);
+    expect(row(rows, "A").played).toBe(0);
+  });
+
+  it("breaks ties on goal difference, then goals scored", () => {
+    const rows = computeStandings(
+      [match("X", "Z", [3, 1]), match("Y", "W", [2, 0]), match("V", "U", [4, 1])],
+      teams("U", "V", "W", "X", "Y", "Z")
+    );
+
+    expect(order(rows)).toEqual(["V", "X", "Y", "Z", "W", "U"]);
+    expect(row(rows, "X").tiebreak).toBe("gd");
+    expect(row(rows, "Y").tiebreak).toBe("gf");
+    expect(row(rows, "W").tiebreak).toBe("gf");
+    expect(row(rows, "U").tiebreak).toBe("gd");
+  });
+
+  describe("head-to-head mini table", () => {
+    // A i B imaju po 4 boda; B ima bolju ukupnu gol razliku, ali je A dobio međusobni meč
+    const matches = [
+      match("A", "B", [1, 0]),
+      match("A", "C", [0, 0]),
+      match("B", "C", [5, 0]),
+      match("B", "D", [0, 0]),
+    ];
+
+    it("puts the head-to-head winner first when h2h comes before goal difference", () => {
+      const rows = computeStandings(matches, teams("A", "B", "C", "D"), { tiebreakers: ["h2h_points", "gd"] });
+      expect(order(rows).slice(0, 2)).toEqual(["A", "B"]);
+      expect(row(rows, "B").tiebreak).toBe("h2h_points");
+    });
+
+    it("falls back to overall goal difference without h2h", () => {
+      const rows = computeStandings(matches, teams("A", "B", "C", "D"), { tiebreakers: ["gd"] });
+      expect(order(rows).slice(0, 2)).toEqual(["B", "A"]);
+      expect(row(rows, "A").tiebreak).toBe("gd");
+    });
+
+    it("only uses matches between the tied teams", () => {
+      const rows = computeStandings(
+        [...matches, match("C", "D", [0, 0])],
+        teams("A", "B", "C", "D"),
+        { tiebreakers: ["h2h_gd"] }
+      );
+      // C i D: 2 boda, međusobno 0:0 -> ostaju izjednačeni
+      expect(order(rows).slice(0, 2)).toEqual(["A", "B"]);
+      expect(unresolvedTies(rows)).toEqual([["C", "D"]]);
+    });
+  });
+
+  it("counts a bye as a win without goals", () => {
+    const rows = computeStandings(
+      [match("A", null, [0, 0]), match("B", null, null), match("B", "C", [1, 1])],
+      teams("A", "B", "C")
+    );
+
+    expect(row(rows, "A")).toMatchObject({ played: 1, wins: 1, gf: 0, ga: 0, pts: 3 });
+    // neodigran bye se ne računa
+    expect(row(rows, "B")).toMatchObject({ played: 1, wins: 0, draws: 1, pts: 1 });
+  });
+
+  it("leaves out unconfirmed and unplayed results", () => {
+    const rows = computeStandings(
+      [
+        match("A", "B", [3, 0], { result_status: "pending" }),
+        match("A", "C", [3, 0], { result_status: "disputed" }),
+        match("B", "C", [2, 0], { result_status: "confirmed" }),
+        match("C", "A", [1, 0], { result_status: null }),
+        match("B", "A", null),
+      ],
+      teams("A", "B", "C")
+    );
+
+    expect(row(rows, "A")).toMatchObject({ played: 1, pts: 0, ga: 1 });
+    expect(row(rows, "B")).toMatchObject({ played: 1, pts: 3 });
+    expect(row(rows, "C")).toMatchObject({ played: 2, pts: 3 });
+  });
+
+  it("marks teams that stay level after every rule, and settles them with lots", () => {
+    const level = computeStandings([], teams("A", "B"), { tiebreakers: ["gd", "gf"] });
+    expect(level[1].tied).toBe(true);
+    expect(unresolvedTies(level)).toEqual([["A", "B"]]);
+
+    const drawn = computeStandings([], teams("A", "B"), { tiebreakers: ["gd", "lots"], lots: ["B", "A"] });
+    expect(order(drawn)).toEqual(["B", "A"]);
+    expect(drawn[1]).toMatchObject({ tiebreak: "lots", tied: false });
+    expect(unresolvedTies(drawn)).toEqual([]);
+  });
+});
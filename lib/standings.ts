@@ -0,0 +1,399 @@
+import type { MatchStats } from "@/lib/events";
+
+/**
+ * Standings engine (shared by dashboard + player page).
+ * - One place for the table math, so both views always show the same table
+ * - Points per win/draw/loss are configurable (default 3/1/0)
+ * - Ties on points are broken by a per-tournament tiebreaker chain
+ *   (tournaments.tiebreakers); each row records which rule separated it
+ *   from the row above.
+ * - A played match with only a home team is a bye (Swiss): counts as a win, no goals.
+ * - Only confirmed results count: a score a player submitted stays out of the table
+ *   until the opponent (or an admin) confirms it (lib/results).
+ */
+
+export type MatchRow = {
+  id: string;
+  tournament_id: string;
+  round: number | null;
+  home_team_id: string | null;
+  away_team_id: string | null;
+  player1_email: string | null;
+  player2_email: string | null;
+  player1_score: number | null;
+  player2_score: number | null;
+  played_at: string | null;
+  /** null = upisao admin/sudija (ili stari red) – važi kao potvrđeno */
+  result_status?: ResultStatus | null;
+  reported_by?: string | null;
+  dispute_note?: string | null;
+  /** posed/šutevi (lib/events) */
+  stats?: MatchStats | null;
+  created_at?: string;
+};
+
+export type ResultStatus = "pending" | "confirmed" | "disputed";
+
+export type StandingRow = {
+  team_id: string;
+  team_name: string;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  gf: number;
+  ga: number;
+  gd: number;
+  pts: number;
+  /** Zbir bodova svih protivnika. */
+  buchholz: number;
+  /** Sonneborn-Berger: bodovi pobeđenih protivnika + pola bodova remi protivnika. */
+  sb: number;
+  /** Pravilo koje je ovaj red odvojilo od reda iznad (null = razlika u bodovima). */
+  tiebreak: TiebreakerRule | null;
+  /** I dalje izjednačen sa redom iznad posle celog lanca pravila. */
+  tied: boolean;
+};
+
+export type PointsConfig = { win: number; draw: number; loss: number };
+
+export const DEFAULT_POINTS: PointsConfig = { win: 3, draw: 1, loss: 0 };
+
+export type TiebreakerRule =
+  | "h2h_points"
+  | "h2h_gd"
+  | "gd"
+  | "gf"
+  | "away_goals"
+  | "wins"
+  | "buchholz"
+  | "sonneborn_berger"
+  | "lots";
+
+export const ALL_TIEBREAKERS: TiebreakerRule[] = [
+  "h2h_points",
+  "h2h_gd",
+  "gd",
+  "gf",
+  "away_goals",
+  "wins",
+  "buchholz",
+  "sonneborn_berger",
+  "lots",
+];
+
+/** Ponašanje pre konfigurabilnih pravila: bodovi → gol razlika → dati golovi. */
+export const DEFAULT_TIEBREAKERS: TiebreakerRule[] = ["gd", "gf"];
+
+export const TIEBREAKER_LABELS: Record<TiebreakerRule, string> = {
+  h2h_points: "Međusobni duel (mini tabela)",
+  h2h_gd: "Međusobna gol razlika",
+  gd: "Gol razlika",
+  gf: "Dati golovi",
+  away_goals: "Golovi u gostima",
+  wins: "Broj pobeda",
+  buchholz: "Buchholz",
+  sonneborn_berger: "Sonneborn-Berger",
+  lots: "Žreb (novčić)",
+};
+
+export const TIEBREAKER_SHORT: Record<TiebreakerRule, string> = {
+  h2h_points: "H2H",
+  h2h_gd: "H2H GR",
+  gd: "GR",
+  gf: "GF",
+  away_goals: "GOST",
+  wins: "W",
+  buchholz: "BH",
+  sonneborn_berger: "SB",
+  lots: "ŽREB",
+};
+
+export function parseTiebreakers(raw: unknown, fallback: TiebreakerRule[] = DEFAULT_TIEBREAKERS): TiebreakerRule[] {
+  if (!Array.isArray(raw)) return fallback;
+  const rules = raw.filter((r): r is TiebreakerRule => ALL_TIEBREAKERS.includes(r as TiebreakerRule));
+  return Array.from(new Set(rules));
+}
+
+export function isPlayed(m: Pick<MatchRow, "played_at" | "result_status">) {
+  return Boolean(m.played_at) && (m.result_status ?? "confirmed") === "confirmed";
+}
+
+/** Slobodan krug (Swiss): odigran "meč" bez gostujućeg tima. */
+export function isBye(m: MatchRow): m is MatchRow & { home_team_id: string } {
+  return Boolean(m.home_team_id) && !m.away_team_id && isPlayed(m);
+}
+
+/** Odigran meč sa oba tima i oba rezultata (samo takvi ulaze u tabelu). */
+export function isScored(
+  m: MatchRow
+): m is MatchRow & {
+  home_team_id: string;
+  away_team_id: string;
+  player1_score: number;
+  player2_score: number;
+} {
+  if (!m.home_team_id || !m.away_team_id) return false;
+  if (!isPlayed(m)) return false;
+  return m.player1_score !== null && m.player2_score !== null;
+}
+
+function emptyRow(teamId: string, teamName: string): StandingRow {
+  return {
+    team_id: teamId,
+    team_name: teamName,
+    played: 0,
+    wins: 0,
+    draws: 0,
+    losses: 0,
+    gf: 0,
+    ga: 0,
+    gd: 0,
+    pts: 0,
+    buchholz: 0,
+    sb: 0,
+    tiebreak: null,
+    tied: false,
+  };
+}
+
+function applyResult(row: StandingRow, goalsFor: number, goalsAgainst: number, points: PointsConfig) {
+  row.played += 1;
+  row.gf += goalsFor;
+  row.ga += goalsAgainst;
+
+  if (goalsFor > goalsAgainst) {
+    row.wins += 1;
+    row.pts += points.win;
+  } else if (goalsFor < goalsAgainst) {
+    row.losses += 1;
+    row.pts += points.loss;
+  } else {
+    row.draws += 1;
+    row.pts += points.draw;
+  }
+}
+
+/* =========================
+   TIEBREAKERS
+   ========================= */
+
+type TieContext = {
+  scored: ReturnType<typeof scoredMatches>;
+  rowById: Map<string, StandingRow>;
+  points: PointsConfig;
+  lots: string[];
+};
+
+function scoredMatches(matches: MatchRow[]) {
+  return matches.filter(isScored);
+}
+
+/** Mini tabela samo od mečeva između timova iz grupe. */
+function miniTable(ids: string[], ctx: TieContext) {
+  const inGroup = new Set(ids);
+  const map = new Map<string, StandingRow>();
+  for (const id of ids) map.set(id, emptyRow(id, id));
+
+  for (const m of ctx.scored) {
+    if (!inGroup.has(m.home_team_id) || !inGroup.has(m.away_team_id)) continue;
+    applyResult(map.get(m.home_team_id)!, m.player1_score, m.player2_score, ctx.points);
+    applyResult(map.get(m.away_team_id)!, m.player2_score, m.player1_score, ctx.points);
+  }
+  return map;
+}
+
+function ruleValues(rule: TiebreakerRule, ids: string[], ctx: TieContext): Map<string, number> {
+  const out = new Map<string, number>();
+
+  if (rule === "h2h_points" || rule === "h2h_gd") {
+    const mini = miniTable(ids, ctx);
+    for (const id of ids) {
+      const r = mini.get(id)!;
+      out.set(id, rule === "h2h_points" ? r.pts : r.gf - r.ga);
+    }
+    return out;
+  }
+
+  if (rule === "away_goals") {
+    for (const id of ids) out.set(id, 0);
+    for (const m of ctx.scored) {
+      if (out.has(m.away_team_id)) out.set(m.away_team_id, out.get(m.away_team_id)! + m.player2_score);
+    }
+    return out;
+  }
+
+  if (rule === "lots") {
+    // timovi koji nisu u zabeleženom žrebu ostaju međusobno izjednačeni (ispod izvučenih)
+    for (const id of ids) {
+      const idx = ctx.lots.indexOf(id);
+      out.set(id, idx === -1 ? -ctx.lots.length : -idx);
+    }
+    return out;
+  }
+
+  const pick: Record<"gd" | "gf" | "wins" | "buchholz" | "sonneborn_berger", (r: StandingRow) => number> = {
+    gd: (r) => r.gf - r.ga,
+    gf: (r) => r.gf,
+    wins: (r) => r.wins,
+    buchholz: (r) => r.buchholz,
+    sonneborn_berger: (r) => r.sb,
+  };
+  for (const id of ids) out.set(id, pick[rule](ctx.rowById.get(id)!));
+  return out;
+}
+
+function resolveTie(group: StandingRow[], rules: TiebreakerRule[], ctx: TieContext): StandingRow[] {
+  if (group.length < 2) return group;
+
+  if (rules.length === 0) {
+    group.forEach((r, i) => {
+      if (i > 0) r.tied = true;
+    });
+    return group;
+  }
+
+  const [rule, ...rest] = rules;
+  const values = ruleValues(
+    rule,
+    group.map((r) => r.team_id),
+    ctx
+  );
+  const sorted = [...group].sort((a, b) => values.get(b.team_id)! - values.get(a.team_id)!);
+
+  const out: StandingRow[] = [];
+  let bucket: StandingRow[] = [];
+  const flush = () => {
+    const resolved = resolveTie(bucket, rest, ctx);
+    if (out.length > 0) resolved[0].tiebreak = rule;
+    out.push(...resolved);
+    bucket = [];
+  };
+
+  for (const r of sorted) {
+    if (bucket.length > 0 && values.get(bucket[0].team_id) !== values.get(r.team_id)) flush();
+    bucket.push(r);
+  }
+  flush();
+
+  return out;
+}
+
+/** Redosled: bodovi, pa lanac pravila unutar svake grupe izjednačenih. */
+function rankRows(rows: StandingRow[], rules: TiebreakerRule[], ctx: TieContext) {
+  const byPts = [...rows].sort((a, b) => b.pts - a.pts || a.team_name.localeCompare(b.team_name));
+
+  const out: StandingRow[] = [];
+  let i = 0;
+  while (i < byPts.length) {
+    let j = i + 1;
+    while (j < byPts.length && byPts[j].pts === byPts[i].pts) j++;
+    out.push(...resolveTie(byPts.slice(i, j), rules, ctx));
+    i = j;
+  }
+  return out;
+}
+
+/**
+ * Tabela za turnir: svaki tim iz tournament_teams dobija red (i sa 0 odigranih),
+ * mečevi protiv timova van turnira se ignorišu.
+ */
+export function computeStandings(
+  matches: MatchRow[],
+  tournamentTeams: { team_id: string }[],
+  opts: {
+    teamName?: (teamId: string) => string | null | undefined;
+    points?: PointsConfig;
+    tiebreakers?: TiebreakerRule[];
+    /** Zabeležen žreb (team_id redom, prvi = najbolji) za pravilo "lots". */
+    lots?: string[] | null;
+  } = {}
+): StandingRow[] {
+  const points = opts.points ?? DEFAULT_POINTS;
+  const map = new Map<string, StandingRow>();
+
+  for (const { team_id } of tournamentTeams) {
+    if (map.has(team_id)) continue;
+    map.set(team_id, emptyRow(team_id, opts.teamName?.(team_id) ?? team_id));
+  }
+
+  for (const m of matches) {
+    if (isBye(m)) {
+      const row = map.get(m.home_team_id);
+      if (!row) continue;
+      row.played += 1;
+      row.wins += 1;
+      row.pts += points.win;
+      continue;
+    }
+
+    if (!isScored(m)) continue;
+
+    const home = map.get(m.home_team_id);
+    const away = map.get(m.away_team_id);
+    if (!home || !away) continue;
+
+    applyResult(home, m.player1_score, m.player2_score, points);
+    applyResult(away, m.player2_score, m.player1_score, points);
+  }
+
+  // Buchholz / Sonneborn-Berger tek kad su svi bodovi poznati
+  for (const m of matches) {
+    if (!isScored(m)) continue;
+    const home = map.get(m.home_team_id);
+    const away = map.get(m.away_team_id);
+    if (!home || !away) continue;
+
+    home.buchholz += away.pts;
+    away.buchholz += home.pts;
+
+    if (m.player1_score > m.player2_score) home.sb += away.pts;
+    else if (m.player1_score < m.player2_score) away.sb += home.pts;
+    else {
+      home.sb += away.pts / 2;
+      away.sb += home.pts / 2;
+    }
+  }
+
+  const list = Array.from(map.values()).map((r) => ({ ...r, gd: r.gf - r.ga }));
+  const ctx: TieContext = {
+    scored: scoredMatches(matches),
+    rowById: new Map(list.map((r) => [r.team_id, r])),
+    points,
+    lots: opts.lots ?? [],
+  };
+  return rankRows(list, opts.tiebreakers ?? DEFAULT_TIEBREAKERS, ctx);
+}
+
+/** Grupe timova koji su i posle svih pravila ostali izjednačeni. */
+export function unresolvedTies(rows: StandingRow[]): string[][] {
+  const groups: string[][] = [];
+  rows.forEach((r, i) => {
+    if (!r.tied) return;
+    const prev = groups[groups.length - 1];
+    if (prev && prev[prev.length - 1] === rows[i - 1].team_id) prev.push(r.team_id);
+    else groups.push([rows[i - 1].team_id, r.team_id]);
+  });
+  return groups;
+}
+
+/** Učinak jednog tima (bez obzira da li je tim u tournament_teams). */
+export function teamRecord(matches: MatchRow[], teamId: string | null, points: PointsConfig = DEFAULT_POINTS) {
+  const row = emptyRow(teamId ?? "", teamId ?? "");
+  if (!teamId) return row;
+
+  for (const m of matches) {
+    if (isBye(m) && m.home_team_id === teamId) {
+      row.played += 1;
+      row.wins += 1;
+      row.pts += points.win;
+      continue;
+    }
+    if (!isScored(m)) continue;
+    if (m.home_team_id === teamId) applyResult(row, m.player1_score, m.player2_score, points);
+    else if (m.away_team_id === teamId) applyResult(row, m.player2_score, m.player1_score, points);
+  }
+
+  row.gd = row.gf - row.ga;
+  return row;
+}
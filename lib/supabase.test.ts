@@ -0,0 +1,189 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+/**
+ * Link iz emaila, od zahteva do sesije: pravi @supabase/ssr browser klijent,
+ * lažni Supabase Auth (fetch) i minimalan "browser" (window/document.cookie).
+ * Svaka "stranica" ponovo učitava lib/supabase, kao posle klika na link.
+ */
+
+// u browseru svaki klik na link je novo učitavanje stranice; ovde singleton klijent ne sme da preživi "stranicu"
+vi.mock("@supabase/ssr", async (importOriginal) => {
+  const ssr = await importOriginal<typeof import("@supabase/ssr")>();
+  return {
+    ...ssr,
+    createBrowserClient: (url: string, key: string, options?: object) =>
+      (ssr.createBrowserClient as (u: string, k: string, o: object) => unknown)(url, key, {
+        ...options,
+        isSingleton: false,
+      }),
+  };
+});
+
+const SUPABASE_URL = "https://proj.supabase.test";
+const ORIGIN = "https://liga.example";
+
+function jwt(payload: object) {
+  const b64 = (o: object) => Buffer.from(JSON.stringify(o)).toString("base64url");
+  return `${b64({ alg: "HS256", typ: "JWT" })}.${b64(payload)}.sig`;
+}
+
+const USER = { id: "u1", aud: "authenticated", email: "igrac@example.com", app_metadata: {}, user_metadata: {} };
+
+function sessionBody() {
+  const exp = Math.floor(Date.now() / 1000) + 3600;
+  return {
+    access_token: jwt({ sub: USER.id, exp, aud: "authenticated" }),
+    refresh_token: "refresh-1",
+    token_type: "bearer",
+    expires_in: 3600,
+    expires_at: exp,
+    user: USER,
+  };
+}
+
+let cookies: Map<string, string>;
+let authCalls: { path: string; body: Record<string, unknown> }[];
+
+function installBrowser(href: string) {
+  const location = new URL(href);
+  const win = {
+    location,
+    history: {
+      state: null,
+      replaceState: (_s: unknown, _t: string, url: string) => {
+        const next = new URL(url, location.href);
+        location.search = next.search;
+        location.hash = next.hash;
+      },
+    },
+    addEventListener: () => {},
+    removeEventListener: () => {},
+    setTimeout,
+    clearTimeout,
+  };
+  const doc = {
+    get cookie() {
+      return Array.from(cookies, ([k, v]) => `${k}=${v}`).join("; ");
+    },
+    set cookie(raw: string) {
+      const [pair, ...attrs] = raw.split(";");
+      const i = pair.indexOf("=");
+      const name = pair.slice(0, i).trim();
+      const expired = attrs.some((a) => /^\s*max-age=0\s*$/i.test(a) || /expires=Thu, 01 Jan 1970/i.test(a));
+      if (expired) cookies.delete(name);
+      else cookies.set(name, pair.slice(i + 1));
+    },
+    visibilityState: "visible",
+    addEventListener: () => {},
+    removeEventListener: () => {},
+  };
+  vi.stubGlobal("window", { ...win, document: doc });
+  vi.stubGlobal("document", doc);
+}
+
+/** Lažni GoTrue: pamti code_challenge iz zahteva i razmenjuje kod tačno jednom. */
+function installAuthServer() {
+  const codes = new Map<string, string>();
+
+  vi.stubGlobal("fetch", async (input: string | URL, init?: RequestInit) => {
+    const url = new URL(String(input));
+    const path = url.pathname.replace("/auth/v1", "");
+    const body = init?.body ? JSON.parse(String(init.body)) : {};
+    authCalls.push({ path: path + url.search, body });
+
+    const json = (status: number, data: unknown) =>
+      new Response(JSON.stringify(data), { status, headers: { "Content-Type": "application/json" } });
+
+    if (path === "/otp" || path === "/recover") {
+      codes.set(`code-${codes.size + 1}`, String(body.code_challenge ?? ""));
+      return json(200, {});
+    }
+    if (path === "/token" && url.searchParams.get("grant_type") === "pkce") {
+      if (!codes.has(String(body.auth_code)) || !body.code_verifier) {
+        return json(400, { code: "bad_code_verifier", msg: "invalid flow state" });
+      }
+      codes.delete(String(body.auth_code));
+      return json(200, sessionBody());
+    }
+    if (path === "/user") return json(200, USER);
+    return json(404, { msg: `unexpected ${path}` });
+  });
+}
+
+async function openPage(href: string) {
+  installBrowser(href);
+  vi.resetModules();
+  return await import("@/lib/supabase");
+}
+
+beforeEach(() => {
+  cookies = new Map();
+  authCalls = [];
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_URL", SUPABASE_URL);
+  vi.stubEnv("NEXT_PUBLIC_SUPABASE_ANON_KEY", "anon-key");
+  installAuthServer();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.unstubAllEnvs();
+});
+
+describe("sessionFromUrl", () => {
+  it("magic link: /login -> /auth/callback?code -> session, ?next preserved", async () => {
+    const login = await openPage(`${ORIGIN}/login?next=%2Fjoin%2FABC123`);
+    const { error } = await login.supabase.auth.signInWithOtp({
+      email: USER.email,
+      options: { emailRedirectTo: `${ORIGIN}/auth/callback?next=%2Fjoin%2FABC123` },
+    });
+    expect(error).toBeNull();
+
+    const callback = await openPage(`${ORIGIN}/auth/callback?next=%2Fjoin%2FABC123&code=code-1`);
+    const result = await callback.sessionFromUrl();
+
+    expect(result.session?.user.email).toBe(USER.email);
+    expect(authCalls.filter((c) => c.path.startsWith("/token"))).toHaveLength(1);
+    // kod je uklonjen iz URL-a, ?next= je ostao za redirect
+    expect(window.location.search).toBe("?next=%2Fjoin%2FABC123");
+
+    // zato stranice ne smeju same da zovu exchangeCodeForSession: verifier je već potrošen
+    const again = await callback.supabase.auth.exchangeCodeForSession("code-1");
+    expect(again.error?.name).toBe("AuthPKCECodeVerifierMissingError");
+  });
+
+  it("forgot password: /reset?code -> session for the new-password form", async () => {
+    const login = await openPage(`${ORIGIN}/login`);
+    await login.supabase.auth.resetPasswordForEmail(USER.email, { redirectTo: `${ORIGIN}/reset` });
+
+    const reset = await openPage(`${ORIGIN}/reset?code=code-1`);
+    const result = await reset.sessionFromUrl();
+
+    expect(result.failure).toBeNull();
+    expect(result.session?.access_token).toBeTruthy();
+  });
+
+  it("server-sent invite: /reset?t=<id>#access_token -> session", async () => {
+    const s = sessionBody();
+    const reset = await openPage(
+      `${ORIGIN}/reset?t=t1#access_token=${s.access_token}&refresh_token=${s.refresh_token}` +
+        `&expires_in=3600&expires_at=${s.expires_at}&token_type=bearer&type=invite`
+    );
+    const result = await reset.sessionFromUrl();
+
+    expect(result.session?.user.email).toBe(USER.email);
+    expect(window.location.hash).toBe("");
+    expect(window.location.search).toBe("?t=t1");
+  });
+
+  it("reports a link opened in another browser instead of a stale session", async () => {
+    const callback = await openPage(`${ORIGIN}/auth/callback?code=code-1`);
+    expect(await callback.sessionFromUrl()).toEqual({ session: null, failure: "other_browser" });
+  });
+
+  it("reports an expired link", async () => {
+    const callback = await openPage(
+      `${ORIGIN}/auth/callback#error=access_denied&error_code=otp_expired&error_description=Email+link+is+invalid+or+has+expired`
+    );
+    expect(await callback.sessionFromUrl()).toEqual({ session: null, failure: "callback" });
+  });
+});
@@ -1,4 +1,5 @@
-import { createClient } from "@supabase/supabase-js";
+import { createBrowserClient } from "@supabase/ssr";
+import type { Session } from "@supabase/supabase-js";
 
 const supabaseUrl = (process.env.NEXT_PUBLIC_SUPABASE_URL || "").trim();
 const supabaseAnonKey = (process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || "").trim();
@@ -11,10 +12,47 @@ if (!/^https?:\/\/.+/i.test(supabaseUrl)) {
   throw new Error(`Invalid NEXT_PUBLIC_SUPABASE_URL: "${supabaseUrl}"`);
 }
 
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
+// sesija se čuva u cookie-jima (ne localStorage), pa je vidi i server (proxy.ts, lib/supabaseServer)
+export const supabase = createBrowserClient(supabaseUrl, supabaseAnonKey, {
   auth: {
     persistSession: true,
     autoRefreshToken: true,
     detectSessionInUrl: true,
   },
-});
\ No newline at end of file
+});
+
+export type UrlSessionFailure = "callback" | "other_browser" | "no_session";
+
+function hashTokens() {
+  const hash = window.location.hash.startsWith("#") ? window.location.hash.slice(1) : "";
+  const p = new URLSearchParams(hash);
+  const access_token = p.get("access_token");
+  const refresh_token = p.get("refresh_token");
+  return access_token && refresh_token ? { access_token, refresh_token } : null;
+}
+
+/**
+ * Sesija iz linka iz emaila (/auth/callback, /reset).
+ * - ?code (PKCE, link zatražen iz browsera): klijent ga sam razmeni pri inicijalizaciji
+ *   (detectSessionInUrl) i obriše code verifier, pa se exchangeCodeForSession NE zove ponovo
+ * - #access_token (invite / magic link poslat sa servera): PKCE klijent ga odbija, pa setSession
+ * - ?code koji ostane u URL-u: verifier nije u ovom browseru (link otvoren na drugom uređaju)
+ */
+export async function sessionFromUrl(): Promise<
+  { session: Session; failure: null } | { session: null; failure: UrlSessionFailure }
+> {
+  const init = await supabase.auth.initialize();
+
+  const tokens = hashTokens();
+  if (tokens) {
+    const { data, error } = await supabase.auth.setSession(tokens);
+    window.history.replaceState(window.history.state, "", window.location.pathname + window.location.search);
+    return data.session && !error ? { session: data.session, failure: null } : { session: null, failure: "callback" };
+  }
+
+  if (init.error) return { session: null, failure: "callback" };
+  if (new URL(window.location.href).searchParams.has("code")) return { session: null, failure: "other_browser" };
+
+  const { data } = await supabase.auth.getSession();
+  return data.session ? { session: data.session, failure: null } : { session: null, failure: "no_session" };
+}
@@ -0,0 +1,31 @@
+import { createServerClient } from "@supabase/ssr";
+import { NextResponse, type NextRequest } from "next/server";
+import { must } from "@/lib/adminAuth";
+
+/**
+ * Supabase klijent u proxy.ts, sa sesijom iz cookie-ja (@supabase/ssr).
+ * updateSession(request) osvežava token i vraća response sa novim cookie-jima.
+ * API rute i dalje rade sa Bearer tokenom (lib/adminAuth).
+ */
+
+export async function updateSession(request: NextRequest) {
+  let response = NextResponse.next({ request });
+
+  const supabase = createServerClient(must("NEXT_PUBLIC_SUPABASE_URL"), must("NEXT_PUBLIC_SUPABASE_ANON_KEY"), {
+    cookies: {
+      getAll: () => request.cookies.getAll(),
+      setAll: (list) => {
+        for (const { name, value } of list) request.cookies.set(name, value);
+        response = NextResponse.next({ request });
+        for (const { name, value, options } of list) response.cookies.set(name, value, options);
+      },
+    },
+  });
+
+  // getUser (ne getSession) – proverava token kod Supabase Auth-a i po potrebi ga osvežava
+  const {
+    data: { user },
+  } = await supabase.auth.getUser();
+
+  return { supabase, user, response: () => response };
+}
@@ -0,0 +1,106 @@
+import { describe, expect, it } from "vitest";
+import type { MatchRow, StandingRow } from "@/lib/standings";
+import { nextSwissRoundRows, swissPairings } from "@/lib/swiss";
+
+let seq = 0;
+
+function match(round: number, home: string, away: string | null): MatchRow {
+  seq += 1;
+  return {
+    id: `m${seq}`,
+    tournament_id: "t1",
+    round,
+    home_team_id: home,
+    away_team_id: away,
+    player1_email: null,
+    player2_email: null,
+    player1_score: 1,
+    player2_score: 0,
+    played_at: "2026-01-01T12:00:00Z",
+  };
+}
+
+/** Tabela kao niz id-jeva, najbolji prvi. */
+const ranked = (...ids: string[]) => ids.map((team_id) => ({ team_id }) as StandingRow);
+const key = (p: { home_team_id: string; away_team_id: string }) => [p.home_team_id, p.away_team_id].sort().join("-");
+
+describe("swissPairings", () => {
+  it("pairs neighbours in the table", () => {
+    const { pairs, bye, rematch } = swissPairings(ranked("A", "B", "C", "D"), []);
+    expect(pairs.map(key)).toEqual(["A-B", "C-D"]);
+    expect(bye).toBeNull();
+    expect(rematch).toBeNull();
+  });
+
+  it("avoids rematches", () => {
+    const played = [match(1, "A", "B"), match(1, "C", "D")];
+    const { pairs } = swissPairings(ranked("A", "B", "C", "D"), played);
+    expect(pairs.map(key)).toEqual(["A-C", "B-D"]);
+  });
+
+  it("gives the bye to the lowest team that has not had one", () => {
+    const played = [match(1, "A", "B"), match(1, "C", "D"), match(1, "E", null)];
+    const { pairs, bye } = swissPairings(ranked("A", "B", "C", "D", "E"), played);
+    expect(bye).toBe("D");
+    expect(pairs.flatMap((p) => [p.home_team_id, p.away_team_id]).sort()).toEqual(["A", "B", "C", "E"]);
+  });
+
+  it("hosts the team with fewer home games", () => {
+    const { pairs } = swissPairings(ranked("A", "B", "C", "D"), [match(1, "A", "C"), match(1, "D", "B")]);
+    expect(pairs).toEqual([
+      { home_team_id: "B", away_team_id: "A" },
+      { home_team_id: "C", away_team_id: "D" },
+    ]);
+  });
+
+  it("falls back to a single reported rematch", () => {
+    // A je igrao sa svima: bez revanša ne ide, sa jednim ide
+    const played = [match(1, "A", "B"), match(2, "A", "C"), match(3, "A", "D")];
+    const { pairs, rematch } = swissPairings(ranked("A", "B", "C", "D"), played);
+    expect(pairs).toHaveLength(2);
+    expect(rematch).toContain("A");
+    expect(pairs.map(key).filter((k) => !k.includes("A"))).toHaveLength(1);
+  });
+
+  it("fails when every pairing needs more than one rematch", () => {
+    const played = [
+      match(1, "A", "B"),
+      match(1, "C", "D"),
+      match(2, "A", "C"),
+      match(2, "B", "D"),
+      match(3, "A", "D"),
+      match(3, "B", "C"),
+    ];
+    expect(() => swissPairings(ranked("A", "B", "C", "D"), played)).toThrow(/revanša/);
+  });
+
+  it("stops searching early when the last team has played everyone", () => {
+    // bez granice bi pretraga prošla kroz sve parove ostalih 19 timova pre nego što odustane
+    const ids = Array.from({ length: 20 }, (_, i) => `T${String(i).padStart(2, "0")}`);
+    const last = ids[ids.length - 1];
+    const played = ids.slice(0, -1).map((id, i) => match(i + 1, last, id));
+
+    const start = Date.now();
+    const { pairs, rematch } = swissPairings(ranked(...ids), played);
+    expect(pairs).toHaveLength(10);
+    expect(rematch).toContain(last);
+    expect(Date.now() - start).toBeLessThan(1000);
+  });
+});
+
+describe("nextSwissRoundRows", () => {
+  it("waits until the current round is finished", () => {
+    const open = { ...match(1, "A", "B"), played_at: null };
+    expect(() => nextSwissRoundRows("t1", ranked("A", "B", "C", "D"), [open, match(1, "C", "D")])).toThrow(
+      /Kolo 1 nije završeno/
+    );
+  });
+
+  it("writes the bye as a played match", () => {
+    const { round, rows } = nextSwissRoundRows("t1", ranked("A", "B", "C"), []);
+    expect(round).toBe(1);
+    const bye = rows.find((r) => r.away_team_id === null);
+    expect(bye).toMatchObject({ home_team_id: "C" });
+    expect(bye?.played_at).toBeTruthy();
+  });
+});
@@ -0,0 +1,132 @@
+import type { TiebreakerRule, MatchRow, StandingRow } from "@/lib/standings";
+
+/**
+ * Swiss system (format: swiss).
+ * - Sledeće kolo se pravi tek kad su svi mečevi prethodnog kola odigrani
+ * - Parovi idu redom po tabeli (isti bodovi -> zajedno), bez revanša kad god je moguće;
+ *   ako ne ide, najviše jedan revanš (javlja se adminu), inače greška
+ * - Neparan broj timova -> bye najslabije rangiranom timu koji ga još nije imao
+ *   (čuva se kao meč bez gosta, vidi isBye u lib/standings)
+ */
+
+export const SWISS_TIEBREAKERS: TiebreakerRule[] = ["buchholz", "sonneborn_berger", "gd", "gf"];
+
+/** Preporučen broj kola: log2(n) zaokruženo naviše. */
+export function recommendedSwissRounds(teamCount: number) {
+  return Math.max(1, Math.ceil(Math.log2(Math.max(2, teamCount))));
+}
+
+export function currentSwissRound(matches: MatchRow[]) {
+  return matches.reduce((mx, m) => Math.max(mx, m.round ?? 0), 0);
+}
+
+/** Gornja granica koraka pretrage po pokušaju (backtracking je inače eksponencijalan). */
+export const SWISS_SEARCH_STEPS = 20_000;
+
+function pairKey(a: string, b: string) {
+  return a < b ? `${a}|${b}` : `${b}|${a}`;
+}
+
+/**
+ * Parovi za sledeće kolo. `ranked` = tabela (najbolji prvi).
+ * Backtracking: prvi slobodan tim igra sa prvim sledećim s kojim još nije igrao;
+ * ako tako ne može da se upari ceo ostatak, probaj sledećeg kandidata.
+ * Pretraga staje posle SWISS_SEARCH_STEPS koraka; tada se traži raspored sa jednim revanšom
+ * (`rematch`), a ako ni njega nema, baca grešku.
+ */
+export function swissPairings(ranked: StandingRow[], matches: MatchRow[]) {
+  const played = new Set<string>();
+  const homeCount = new Map<string, number>();
+  const byes = new Set<string>();
+
+  for (const m of matches) {
+    if (!m.home_team_id) continue;
+    if (!m.away_team_id) {
+      byes.add(m.home_team_id);
+      continue;
+    }
+    played.add(pairKey(m.home_team_id, m.away_team_id));
+    homeCount.set(m.home_team_id, (homeCount.get(m.home_team_id) ?? 0) + 1);
+  }
+
+  let ids = ranked.map((r) => r.team_id);
+  let bye: string | null = null;
+
+  if (ids.length % 2 === 1) {
+    const candidates = [...ids].reverse();
+    bye = candidates.find((id) => !byes.has(id)) ?? candidates[0];
+    ids = ids.filter((id) => id !== bye);
+  }
+
+  let steps = 0;
+  const solve = (rest: string[], rematches: number): [string, string][] | null => {
+    if (rest.length === 0) return [];
+    const [first, ...others] = rest;
+    for (let i = 0; i < others.length; i++) {
+      if (++steps > SWISS_SEARCH_STEPS) return null;
+      const opp = others[i];
+      const repeat = played.has(pairKey(first, opp));
+      if (repeat && rematches === 0) continue;
+      const tail = solve(
+        others.filter((_, j) => j !== i),
+        repeat ? rematches - 1 : rematches
+      );
+      if (tail) return [[first, opp], ...tail];
+    }
+    return null;
+  };
+
+  let pairs = solve(ids, 0);
+  if (!pairs) {
+    steps = 0;
+    pairs = solve(ids, 1);
+  }
+  if (!pairs) {
+    throw new Error("Nema parova za sledeće kolo bez više od jednog revanša – odigrano je previše kola za ovaj broj timova.");
+  }
+  const rematch = pairs.find(([a, b]) => played.has(pairKey(a, b))) ?? null;
+
+  return {
+    bye,
+    rematch,
+    pairs: pairs.map(([a, b]) => {
+      // domaćin je onaj ko je manje puta bio domaćin
+      const aHome = (homeCount.get(a) ?? 0) <= (homeCount.get(b) ?? 0);
+      return { home_team_id: aHome ? a : b, away_team_id: aHome ? b : a };
+    }),
+  };
+}
+
+/** Redovi za `matches` za sledeće kolo (bye je odmah "odigran"). */
+export function nextSwissRoundRows(tournamentId: string, ranked: StandingRow[], matches: MatchRow[]) {
+  if (ranked.length < 2) throw new Error("Za Swiss trebaju bar 2 tima.");
+
+  const round = currentSwissRound(matches);
+  const unfinished = matches.filter((m) => (m.round ?? 0) === round && m.away_team_id && !m.played_at);
+  if (round > 0 && unfinished.length > 0) {
+    throw new Error(`Kolo ${round} nije završeno (${unfinished.length} meč(eva) bez rezultata).`);
+  }
+
+  const { bye, pairs, rematch } = swissPairings(ranked, matches);
+  const next = round + 1;
+
+  const rows: {
+    tournament_id: string;
+    round: number;
+    home_team_id: string;
+    away_team_id: string | null;
+    played_at?: string;
+  }[] = pairs.map((p) => ({ tournament_id: tournamentId, round: next, ...p }));
+
+  if (bye) {
+    rows.push({
+      tournament_id: tournamentId,
+      round: next,
+      home_team_id: bye,
+      away_team_id: null,
+      played_at: new Date().toISOString(),
+    });
+  }
+
+  return { round: next, rows, rematch };
+}
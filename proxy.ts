@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { safeNextPath } from "@/lib/redirects";
+import { can, resolveRole, type Role } from "@/lib/roles";
+import { updateSession } from "@/lib/supabaseServer";
+
+/**
+ * Zaštita ruta pre renderovanja (sesija iz cookie-ja, lib/supabaseServer).
+ * - /dashboard: samo uloge sa open_dashboard (ostali -> /player)
+ * - /player, /h2h, /ratings, /join: ulogovan korisnik (admin/sudija sa /player -> /dashboard)
+ * - /login: ulogovan korisnik ide na svoju početnu stranu
+ * - uloga nije mogla da se učita: zahtev prolazi, odluku donosi provera uloge na stranici
+ */
+
+const AUTHED = ["/player", "/h2h", "/ratings", "/join"];
+
+function startsWith(pathname: string, prefix: string) {
+  return pathname === prefix || pathname.startsWith(prefix + "/");
+}
+
+export async function proxy(request: NextRequest) {
+  const { supabase, user, response } = await updateSession(request);
+  const { pathname } = request.nextUrl;
+
+  const redirect = (to: string) => {
+    const url = new URL(to, request.url);
+    // posle prijave nazad na traženu stranu (npr. /player?join=<id>)
+    if (to === "/login") url.searchParams.set("next", pathname + request.nextUrl.search);
+    const res = NextResponse.redirect(url);
+    // osveženi token mora da stigne i uz redirect
+    for (const c of response().cookies.getAll()) res.cookies.set(c);
+    return res;
+  };
+
+  const isDashboard = startsWith(pathname, "/dashboard");
+  const needsUser = isDashboard || AUTHED.some((p) => startsWith(pathname, p));
+
+  if (!user) return needsUser ? redirect("/login") : response();
+
+  const isPlayerHome = startsWith(pathname, "/player");
+  if (!isDashboard && !isPlayerHome && pathname !== "/login") return response();
+
+  let role: Role | null;
+  try {
+    role = await resolveRole(supabase, user);
+  } catch {
+    // privremena greška ne sme da spusti admina/sudiju na /player
+    return response();
+  }
+  const home = can(role, "open_dashboard") ? "/dashboard" : "/player";
+
+  if (pathname === "/login") return redirect(safeNextPath(request.nextUrl.searchParams.get("next"), request.url) ?? home);
+  if (isDashboard && home !== "/dashboard") return redirect("/player");
+  if (isPlayerHome && home === "/dashboard") return redirect("/dashboard");
+  return response();
+}
+
+export const config = {
+  matcher: ["/login", "/dashboard/:path*", "/player/:path*", "/h2h/:path*", "/ratings/:path*", "/join/:path*"],
+};
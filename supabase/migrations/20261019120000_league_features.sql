@@ -0,0 +1,329 @@
+-- Šema za funkcije posle osnovne verzije lige: status turnira, formati i poredak,
+-- roster i prijave kodom, žreb i ceremonija, pozivnice, nokaut faza, detalji meča, rejting.
+--
+-- Upis ide samo kroz /api rute (lib/adminAuth: service-role klijent zaobilazi RLS), pa ulogovani
+-- korisnici ovde dobijaju samo čitanje. Tabele iz osnovne verzije (players, profiles, teams,
+-- tournaments, tournament_players, tournament_teams, matches, fixtures) dobijaju kolone, a
+-- njihove politike za upis iz browsera (stari dashboard) se brišu: inače bi svaki ulogovani
+-- igrač mogao preko PostgREST-a da menja rezultate, status i roster mimo provera u rutama.
+--
+-- Migracija je idempotentna (if not exists), jer su neke tabele ranije pravljene ručno.
+
+-- ---------------------------------------------------------------------------
+-- Uloga trenutnog korisnika (isto kao lib/roles resolveRole)
+-- ---------------------------------------------------------------------------
+
+create or replace function public.app_role()
+returns text
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select p.role from public.profiles p where p.id = auth.uid()),
+    (select pl.role from public.players pl where pl.email = lower(auth.jwt() ->> 'email'))
+  );
+$$;
+
+revoke all on function public.app_role() from public;
+grant execute on function public.app_role() to authenticated;
+
+-- ---------------------------------------------------------------------------
+-- Kolone na postojećim tabelama
+-- ---------------------------------------------------------------------------
+
+alter table public.tournaments
+  add column if not exists status text
+    check (status in ('draft', 'roster_locked', 'drawn', 'scheduled', 'in_progress', 'finished')),
+  add column if not exists format text not null default 'league'
+    check (format in ('league', 'groups_knockout', 'swiss')),
+  add column if not exists tiebreakers jsonb,
+  add column if not exists tiebreak_lots jsonb,
+  add column if not exists group_count integer check (group_count between 1 and 8),
+  add column if not exists advance_per_group integer check (advance_per_group >= 1),
+  -- kod za /join/<kod>; svaki ulogovani ga može pročitati, zato join_restricted prijave čekaju odobrenje
+  add column if not exists join_code text,
+  add column if not exists join_restricted boolean not null default false;
+
+create unique index if not exists tournaments_join_code_key on public.tournaments (join_code);
+
+alter table public.teams
+  add column if not exists rating numeric;
+
+alter table public.tournament_teams
+  add column if not exists pot integer,
+  add column if not exists group_label text;
+
+alter table public.tournament_players
+  add column if not exists draw_note text;
+
+alter table public.matches
+  -- null = upisao admin/sudija (ili stari red), važi kao potvrđeno
+  add column if not exists result_status text check (result_status in ('pending', 'confirmed', 'disputed')),
+  add column if not exists reported_by text,
+  add column if not exists dispute_note text,
+  add column if not exists stats jsonb;
+
+-- raspored (lib/fixtures): round_number je kolo (1..krugovi × kola), ne više samo 1/2,
+-- a source dobija "berger"; stare check constraint-e (bilo kog imena) menjamo novim
+do $$
+declare
+  c record;
+begin
+  if to_regclass('public.fixtures') is null then
+    return;
+  end if;
+
+  for c in
+    select con.conname
+    from pg_constraint con
+    where con.conrelid = 'public.fixtures'::regclass
+      and con.contype = 'c'
+      and (pg_get_constraintdef(con.oid) like '%round_number%' or pg_get_constraintdef(con.oid) like '%source%')
+  loop
+    execute format('alter table public.fixtures drop constraint %I', c.conname);
+  end loop;
+
+  alter table public.fixtures
+    add constraint fixtures_round_number_check check (round_number >= 1),
+    add constraint fixtures_source_check check (source in ('berger', 'manual', 'auto_reverse'));
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Roster (lib/roster)
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.tournament_registrations (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  player_email text not null,
+  source text not null default 'admin' check (source in ('admin', 'self')),
+  status text default 'approved' check (status in ('approved', 'pending')),
+  created_at timestamptz not null default now(),
+  unique (tournament_id, player_email)
+);
+
+alter table public.tournament_registrations
+  add column if not exists status text default 'approved' check (status in ('approved', 'pending'));
+
+alter table public.tournament_registrations enable row level security;
+
+drop policy if exists "tournament_registrations read" on public.tournament_registrations;
+create policy "tournament_registrations read" on public.tournament_registrations
+  for select to authenticated using (true);
+
+-- ---------------------------------------------------------------------------
+-- Žreb (lib/draw)
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.tournament_draws (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  mode text not null check (mode in ('random', 'pots', 'snake')),
+  -- seed i input su null dok ceremonija traje (čekaju u tournament_draw_secrets)
+  seed text,
+  avoid_repeat boolean not null default false,
+  input jsonb,
+  total integer not null default 0,
+  pairs jsonb not null default '[]'::jsonb,
+  revealed integer not null default 0,
+  created_by text,
+  created_at timestamptz not null default now()
+);
+
+alter table public.tournament_draws
+  add column if not exists total integer not null default 0,
+  add column if not exists pairs jsonb not null default '[]'::jsonb,
+  alter column seed drop not null,
+  alter column input drop not null;
+
+-- stari zapisi: broj parova iz objavljenog ulaza
+update public.tournament_draws
+  set total = jsonb_array_length(input -> 'players')
+  where total = 0 and input is not null;
+
+create index if not exists tournament_draws_tournament_idx on public.tournament_draws (tournament_id, created_at desc);
+
+alter table public.tournament_draws enable row level security;
+
+drop policy if exists "tournament_draws read" on public.tournament_draws;
+create policy "tournament_draws read" on public.tournament_draws
+  for select to authenticated using (true);
+
+-- neobjavljen rezultat ceremonije: RLS bez politika = samo service role
+create table if not exists public.tournament_draw_secrets (
+  draw_id uuid primary key references public.tournament_draws (id) on delete cascade,
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  input jsonb not null,
+  created_at timestamptz not null default now()
+);
+
+alter table public.tournament_draw_secrets enable row level security;
+
+-- ---------------------------------------------------------------------------
+-- Pozivnice (lib/invites)
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.invites (
+  id uuid primary key default gen_random_uuid(),
+  email text not null,
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  invited_by text,
+  method text not null default 'invite' check (method in ('invite', 'magic_link')),
+  status text not null default 'pending' check (status in ('pending', 'accepted', 'revoked')),
+  send_count integer not null default 1,
+  sent_at timestamptz not null default now(),
+  accepted_at timestamptz,
+  unique (email, tournament_id)
+);
+
+alter table public.invites enable row level security;
+
+-- admin vidi sve pozivnice, igrač samo svoje
+drop policy if exists "invites read" on public.invites;
+create policy "invites read" on public.invites
+  for select to authenticated
+  using (public.app_role() in ('admin', 'owner') or email = lower(auth.jwt() ->> 'email'));
+
+-- ---------------------------------------------------------------------------
+-- Nokaut faza (lib/bracket)
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.knockout_ties (
+  id uuid primary key default gen_random_uuid(),
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  round integer not null,
+  slot integer not null,
+  legs integer not null default 1 check (legs in (1, 2)),
+  home_team_id uuid references public.teams (id),
+  away_team_id uuid references public.teams (id),
+  home_seed integer,
+  away_seed integer,
+  leg1_home integer,
+  leg1_away integer,
+  leg2_home integer,
+  leg2_away integer,
+  et_home integer,
+  et_away integer,
+  pen_home integer,
+  pen_away integer,
+  winner_team_id uuid references public.teams (id),
+  created_at timestamptz not null default now(),
+  unique (tournament_id, round, slot)
+);
+
+alter table public.knockout_ties enable row level security;
+
+drop policy if exists "knockout_ties read" on public.knockout_ties;
+create policy "knockout_ties read" on public.knockout_ties
+  for select to authenticated using (true);
+
+-- ---------------------------------------------------------------------------
+-- Detalji meča (lib/events)
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.match_events (
+  id uuid primary key default gen_random_uuid(),
+  match_id uuid not null references public.matches (id) on delete cascade,
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  kind text not null check (kind in ('goal', 'own_goal', 'yellow', 'red')),
+  side text not null check (side in ('home', 'away')),
+  player_name text not null,
+  assist_name text,
+  minute integer check (minute between 1 and 130),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists match_events_tournament_idx on public.match_events (tournament_id);
+create index if not exists match_events_match_idx on public.match_events (match_id);
+
+alter table public.match_events enable row level security;
+
+drop policy if exists "match_events read" on public.match_events;
+create policy "match_events read" on public.match_events
+  for select to authenticated using (true);
+
+-- ---------------------------------------------------------------------------
+-- Rejting (lib/elo)
+-- ---------------------------------------------------------------------------
+
+create table if not exists public.player_ratings (
+  player_email text primary key,
+  rating integer not null default 1500,
+  played integer not null default 0,
+  peak integer not null default 1500,
+  updated_at timestamptz
+);
+
+alter table public.player_ratings enable row level security;
+
+drop policy if exists "player_ratings read" on public.player_ratings;
+create policy "player_ratings read" on public.player_ratings
+  for select to authenticated using (true);
+
+create table if not exists public.rating_history (
+  id bigint generated always as identity primary key,
+  player_email text not null,
+  opponent_email text not null,
+  match_id uuid not null references public.matches (id) on delete cascade,
+  tournament_id uuid not null references public.tournaments (id) on delete cascade,
+  played_at timestamptz,
+  rating_before integer not null,
+  rating_after integer not null,
+  delta integer not null
+);
+
+create index if not exists rating_history_player_idx on public.rating_history (player_email, played_at);
+
+alter table public.rating_history enable row level security;
+
+drop policy if exists "rating_history read" on public.rating_history;
+create policy "rating_history read" on public.rating_history
+  for select to authenticated using (true);
+
+-- ---------------------------------------------------------------------------
+-- Tabele iz osnovne verzije: samo čitanje za anon/authenticated
+-- ---------------------------------------------------------------------------
+
+do $$
+declare
+  t text;
+  p record;
+begin
+  foreach t in array array['players', 'profiles', 'teams', 'tournaments', 'tournament_players', 'tournament_teams', 'matches', 'fixtures']
+  loop
+    if to_regclass('public.' || t) is null then
+      continue;
+    end if;
+
+    -- politike za upis (insert/update/delete); "all" politike ostaju zbog čitanja, upis blokira revoke ispod
+    for p in
+      select policyname from pg_policies
+      where schemaname = 'public' and tablename = t and cmd in ('INSERT', 'UPDATE', 'DELETE')
+    loop
+      execute format('drop policy %I on public.%I', p.policyname, t);
+    end loop;
+
+    execute format('revoke insert, update, delete, truncate on public.%I from anon, authenticated', t);
+  end loop;
+end $$;
+
+-- ---------------------------------------------------------------------------
+-- Realtime (lib/realtime, lib/draw subscribeToDraws)
+-- ---------------------------------------------------------------------------
+
+do $$
+declare
+  t text;
+begin
+  foreach t in array array['matches', 'match_events', 'tournament_players', 'tournament_teams', 'fixtures', 'tournament_draws']
+  loop
+    if not exists (
+      select 1 from pg_publication_tables
+      where pubname = 'supabase_realtime' and schemaname = 'public' and tablename = t
+    ) then
+      execute format('alter publication supabase_realtime add table public.%I', t);
+    end if;
+  end loop;
+end $$;
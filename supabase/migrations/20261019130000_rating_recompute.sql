@@ -0,0 +1,81 @@
+-- Upis preračunatog rejtinga (lib/elo recomputeRatings) u jednoj transakciji.
+--
+-- Svako preračunavanje prvo uzme redni broj (begin_rating_run), pa pročita mečeve i izračuna
+-- rejting, a replace_ratings zameni player_ratings i rating_history odjednom. Upisi idu jedan po
+-- jedan (zaključan red u rating_runs), a stariji run se ne upisuje preko novijeg: noviji je počeo
+-- kasnije, pa je video sve rezultate koje je video i stariji.
+
+create sequence if not exists public.rating_run_seq;
+
+create table if not exists public.rating_runs (
+  id boolean primary key default true check (id),
+  last_run bigint not null default 0,
+  updated_at timestamptz not null default now()
+);
+
+insert into public.rating_runs (id) values (true) on conflict (id) do nothing;
+
+-- samo service role
+alter table public.rating_runs enable row level security;
+
+create or replace function public.begin_rating_run()
+returns bigint
+language sql
+volatile
+security definer
+set search_path = public
+as $$
+  select nextval('public.rating_run_seq');
+$$;
+
+create or replace function public.replace_ratings(run_id bigint, ratings jsonb, history jsonb)
+returns boolean
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  last bigint;
+begin
+  select r.last_run into last from public.rating_runs r where r.id for update;
+  if last >= run_id then
+    return false;
+  end if;
+
+  delete from public.rating_history where true;
+  delete from public.player_ratings where true;
+
+  insert into public.player_ratings (player_email, rating, played, peak, updated_at)
+  select x.player_email, x.rating, x.played, x.peak, x.updated_at
+  from jsonb_to_recordset(ratings) as x(
+    player_email text,
+    rating integer,
+    played integer,
+    peak integer,
+    updated_at timestamptz
+  );
+
+  insert into public.rating_history (
+    player_email, opponent_email, match_id, tournament_id, played_at, rating_before, rating_after, delta
+  )
+  select x.player_email, x.opponent_email, x.match_id, x.tournament_id, x.played_at, x.rating_before, x.rating_after, x.delta
+  from jsonb_to_recordset(history) as x(
+    player_email text,
+    opponent_email text,
+    match_id uuid,
+    tournament_id uuid,
+    played_at timestamptz,
+    rating_before integer,
+    rating_after integer,
+    delta integer
+  );
+
+  update public.rating_runs r set last_run = run_id, updated_at = now() where r.id;
+  return true;
+end;
+$$;
+
+revoke all on function public.begin_rating_run() from public, anon, authenticated;
+revoke all on function public.replace_ratings(bigint, jsonb, jsonb) from public, anon, authenticated;
+grant execute on function public.begin_rating_run() to service_role;
+grant execute on function public.replace_ratings(bigint, jsonb, jsonb) to service_role;